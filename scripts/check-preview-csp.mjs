@@ -0,0 +1,20 @@
+/**
+ * Check that the email preview document blocks remote images unless remote content is allowed.
+ * Run: node scripts/check-preview-csp.mjs
+ */
+import { createServer } from 'vite';
+
+// Vite compiles the TypeScript module on the fly, the same way the site build does
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+try {
+  const { checkPreviewBlocking } = await server.ssrLoadModule('/src/lib/email-html/check.ts');
+  const problems = checkPreviewBlocking();
+  for (const problem of problems) console.error(problem);
+  if (problems.length > 0) {
+    process.exitCode = 1;
+  } else {
+    console.log('Remote images are blocked in the preview unless allowed');
+  }
+} finally {
+  await server.close();
+}
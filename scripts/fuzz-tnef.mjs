@@ -0,0 +1,29 @@
+/**
+ * Feed mutated TNEF streams through parseTnef and fail on crashes or hangs.
+ * Run: node scripts/fuzz-tnef.mjs [iterations] [seed]
+ */
+import { createServer } from 'vite';
+
+const iterations = Number(process.argv[2] ?? 2000);
+const seed = Number(process.argv[3] ?? 1);
+
+// Vite compiles the TypeScript parser on the fly, the same way the site build does
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+try {
+  const { fuzzTnef } = await server.ssrLoadModule('/src/lib/tnef-parser/fuzz.ts');
+  const report = fuzzTnef({ seed, iterations });
+
+  console.log(
+    `${report.iterations} inputs, ${report.parseErrors} rejected with TnefParseError, ` +
+      `slowest ${report.slowestMillis.toFixed(1)} ms`,
+  );
+  for (const failure of report.failures) {
+    console.error(`Iteration ${failure.iteration} (${failure.input.length} bytes): ${failure.reason}`);
+  }
+  if (report.failures.length > 0) {
+    console.error(`${report.failures.length} failures — rerun with seed ${seed} to reproduce`);
+    process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
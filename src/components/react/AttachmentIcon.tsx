@@ -0,0 +1,116 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { renderWmf, type TnefAttachment } from '../../lib/tnef-parser';
+
+interface AttachmentIconProps {
+  attachment: TnefAttachment;
+  /** Encoding for the file name Outlook drew into the icon (the message's ANSI encoding) */
+  ansiEncoding: string;
+}
+
+/** Outline icon by MIME type, used when there is no Outlook icon or it cannot be rendered */
+function MimeTypeIcon({ mimeType }: { mimeType: string }) {
+  const type = mimeType.toLowerCase();
+  let paths: ReactNode;
+  if (type.startsWith('image/')) {
+    paths = (
+      <>
+        <rect x="3" y="3" width="18" height="18" rx="2" />
+        <circle cx="9" cy="9" r="2" />
+        <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21" />
+      </>
+    );
+  } else if (type.startsWith('audio/')) {
+    paths = (
+      <>
+        <path d="M9 18V5l12-2v13" />
+        <circle cx="6" cy="18" r="3" />
+        <circle cx="18" cy="16" r="3" />
+      </>
+    );
+  } else if (type.startsWith('video/')) {
+    paths = (
+      <>
+        <path d="m16 13 5.223 3.482a.5.5 0 0 0 .777-.416V7.87a.5.5 0 0 0-.752-.432L16 10.5" />
+        <rect x="2" y="6" width="14" height="12" rx="2" />
+      </>
+    );
+  } else if (type === 'message/rfc822' || type === 'application/ms-tnef' || type === 'application/vnd.ms-outlook') {
+    paths = (
+      <>
+        <rect x="2" y="4" width="20" height="16" rx="2" />
+        <path d="m22 7-10 6L2 7" />
+      </>
+    );
+  } else if (type === 'text/calendar') {
+    paths = (
+      <>
+        <rect x="3" y="4" width="18" height="18" rx="2" />
+        <path d="M16 2v4M8 2v4M3 10h18" />
+      </>
+    );
+  } else if (/zip|rar|7z|tar|gzip/.test(type)) {
+    paths = (
+      <>
+        <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+        <path d="M10 6h2M10 10h2M10 14h2M10 18h2" />
+      </>
+    );
+  } else if (type.startsWith('text/') || /pdf|word|excel|powerpoint|officedocument|rtf/.test(type)) {
+    paths = (
+      <>
+        <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+        <path d="M14 2v4a2 2 0 0 0 2 2h4" />
+        <path d="M10 9H8M16 13H8M16 17H8" />
+      </>
+    );
+  } else {
+    paths = (
+      <>
+        <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+        <path d="M14 2v4a2 2 0 0 0 2 2h4" />
+      </>
+    );
+  }
+
+  return (
+    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-gray-100 dark:bg-gray-700">
+      <svg className="h-5 w-5 text-gray-400 dark:text-gray-500" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24">
+        {paths}
+      </svg>
+    </div>
+  );
+}
+
+/** The icon Outlook showed for an attachment, rendered from its metafile, or a MIME-type icon */
+export default function AttachmentIcon({ attachment, ansiEncoding }: AttachmentIconProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!attachment.rendering) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    renderWmf(attachment.rendering, { scale: window.devicePixelRatio || 1, ansiEncoding })
+      .then((png) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(png);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // Unsupported or damaged metafile — keep the MIME-type icon
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment, ansiEncoding]);
+
+  if (!url) return <MimeTypeIcon mimeType={attachment.mimeType} />;
+  return (
+    <img
+      src={url}
+      alt=""
+      className="h-10 w-auto max-w-24 shrink-0 rounded-lg bg-white object-contain p-0.5 dark:bg-gray-100"
+    />
+  );
+}
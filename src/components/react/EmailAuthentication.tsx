@@ -0,0 +1,228 @@
+import { useState, useCallback, type ReactNode } from 'react';
+import {
+  verifyDkimSignature,
+  dkimKeyName,
+  type DkimBodyCheck,
+  type AuthenticationSummary,
+  type AuthenticationResults,
+} from '../../lib/email-auth';
+
+interface EmailAuthenticationProps {
+  /** The message file as read, needed to recompute the signed header data */
+  raw: Uint8Array;
+  dkim: DkimBodyCheck[];
+  summary: AuthenticationSummary;
+  labels: {
+    dkimSignatures: string;
+    bodyHash: string;
+    bodyIntact: string;
+    bodyModified: string;
+    bodyUnchecked: string;
+    signedHeaders: string;
+    expired: string;
+    /** {name} is replaced with the DNS name of the key */
+    publicKey: string;
+    verify: string;
+    signatureValid: string;
+    signatureInvalid: string;
+    serverResults: string;
+    receivedSpf: string;
+    arcChain: string;
+    /** {n} is replaced with the ARC instance number */
+    arcHop: string;
+    chainValidation: string;
+  };
+}
+
+type Verification = { state: 'pass' | 'fail' } | { state: 'error'; message: string };
+
+const BADGE = {
+  good: 'bg-green-100 text-green-700 dark:bg-green-900/60 dark:text-green-300',
+  bad: 'bg-red-100 text-red-700 dark:bg-red-900/60 dark:text-red-300',
+  warn: 'bg-amber-100 text-amber-700 dark:bg-amber-900/60 dark:text-amber-300',
+  neutral: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+function resultTone(result: string): keyof typeof BADGE {
+  if (result === 'pass') return 'good';
+  if (result === 'fail' || result === 'permerror' || result === 'hardfail') return 'bad';
+  if (result === 'softfail' || result === 'temperror' || result === 'policy') return 'warn';
+  return 'neutral';
+}
+
+function Badge({ tone, children }: { tone: keyof typeof BADGE; children: ReactNode }) {
+  return <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${BADGE[tone]}`}>{children}</span>;
+}
+
+function ResultList({ results }: { results: AuthenticationResults }) {
+  return (
+    <ul className="space-y-1.5">
+      {results.results.map((r, i) => (
+        <li key={i} className="flex flex-wrap items-baseline gap-x-2 gap-y-1 text-sm">
+          <span className="w-14 shrink-0 font-mono text-xs font-medium text-gray-900 dark:text-white">{r.method}</span>
+          <Badge tone={resultTone(r.result)}>{r.result}</Badge>
+          {r.properties.map((p) => (
+            <span key={p.name} className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">
+              {p.name}={p.value}
+            </span>
+          ))}
+          {r.reason && <span className="text-xs text-gray-400 dark:text-gray-500">({r.reason})</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const HEADING = 'mb-3 text-xs font-medium uppercase text-gray-400 dark:text-gray-500';
+
+export default function EmailAuthentication({ raw, dkim, summary, labels }: EmailAuthenticationProps) {
+  const [keys, setKeys] = useState<Record<number, string>>({});
+  const [verifications, setVerifications] = useState<Record<number, Verification>>({});
+
+  const handleVerify = useCallback(
+    async (check: DkimBodyCheck) => {
+      const index = check.signature.index;
+      let verification: Verification;
+      try {
+        const valid = await verifyDkimSignature(raw, check.signature, keys[index] ?? '');
+        verification = { state: valid ? 'pass' : 'fail' };
+      } catch (e) {
+        verification = { state: 'error', message: e instanceof Error ? e.message : String(e) };
+      }
+      setVerifications((prev) => ({ ...prev, [index]: verification }));
+    },
+    [raw, keys],
+  );
+
+  return (
+    <div className="space-y-6">
+      {dkim.length > 0 && (
+        <div>
+          <h4 className={HEADING}>
+            {labels.dkimSignatures} ({dkim.length})
+          </h4>
+          <div className="space-y-4">
+            {dkim.map((check) => {
+              const sig = check.signature;
+              const verification = verifications[sig.index];
+              const expired = sig.expiration !== null && sig.expiration.getTime() < Date.now();
+              return (
+                <div key={sig.index} className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                    <span className="font-mono font-medium text-gray-900 dark:text-white break-all">{sig.domain}</span>
+                    <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                      s={sig.selector} · {sig.algorithm} · {sig.headerCanonicalization}/{sig.bodyCanonicalization}
+                    </span>
+                    {sig.timestamp && <span className="text-xs text-gray-500 dark:text-gray-400">{sig.timestamp.toLocaleString()}</span>}
+                    {expired && <Badge tone="warn">{labels.expired}</Badge>}
+                  </div>
+
+                  <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                    <dt className="text-gray-500 dark:text-gray-400">{labels.bodyHash}</dt>
+                    <dd>
+                      {check.bodyHashMatches === null ? (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {labels.bodyUnchecked}: {check.error}
+                        </span>
+                      ) : (
+                        <Badge tone={check.bodyHashMatches ? 'good' : 'bad'}>
+                          {check.bodyHashMatches ? labels.bodyIntact : labels.bodyModified}
+                        </Badge>
+                      )}
+                    </dd>
+                    <dt className="text-gray-500 dark:text-gray-400">{labels.signedHeaders}</dt>
+                    <dd className="font-mono text-xs text-gray-700 dark:text-gray-300 break-all">{sig.signedHeaders.join(', ')}</dd>
+                  </dl>
+
+                  <label className="mt-3 block text-xs text-gray-500 dark:text-gray-400">
+                    {labels.publicKey.replace('{name}', dkimKeyName(sig))}
+                    <textarea
+                      value={keys[sig.index] ?? ''}
+                      onChange={(e) => setKeys((prev) => ({ ...prev, [sig.index]: e.target.value }))}
+                      rows={3}
+                      spellCheck={false}
+                      placeholder="v=DKIM1; k=rsa; p=MIIBIjANBgkqh…"
+                      className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-mono text-xs text-gray-700 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+                    />
+                  </label>
+                  <div className="mt-2 flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={() => handleVerify(check)}
+                      disabled={!keys[sig.index]?.trim()}
+                      className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      {labels.verify}
+                    </button>
+                    {verification?.state === 'pass' && <Badge tone="good">{labels.signatureValid}</Badge>}
+                    {verification?.state === 'fail' && <Badge tone="bad">{labels.signatureInvalid}</Badge>}
+                    {verification?.state === 'error' && (
+                      <span className="text-xs text-red-600 dark:text-red-400">{verification.message}</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {summary.results.length > 0 && (
+        <div>
+          <h4 className={HEADING}>{labels.serverResults}</h4>
+          <div className="space-y-4">
+            {summary.results.map((results, i) => (
+              <div key={i}>
+                <p className="mb-1.5 font-mono text-xs text-gray-500 dark:text-gray-400">{results.authservId}</p>
+                <ResultList results={results} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.spf.length > 0 && (
+        <div>
+          <h4 className={HEADING}>{labels.receivedSpf}</h4>
+          <ul className="space-y-1.5">
+            {summary.spf.map((spf, i) => (
+              <li key={i} className="flex flex-wrap items-baseline gap-x-2 gap-y-1 text-sm">
+                <Badge tone={resultTone(spf.result)}>{spf.result}</Badge>
+                {spf.properties.map((p) => (
+                  <span key={p.name} className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">
+                    {p.name}={p.value}
+                  </span>
+                ))}
+                {spf.comment && <span className="text-xs text-gray-400 dark:text-gray-500">({spf.comment})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.arc.length > 0 && (
+        <div>
+          <h4 className={HEADING}>
+            {labels.arcChain} ({summary.arc.length})
+          </h4>
+          <ol className="space-y-3 border-l border-gray-200 pl-5 dark:border-gray-700">
+            {summary.arc.map((set) => (
+              <li key={set.instance}>
+                <div className="mb-1.5 flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                  <span className="font-medium text-gray-900 dark:text-white">{labels.arcHop.replace('{n}', String(set.instance))}</span>
+                  <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{set.sealDomain || set.signatureDomain}</span>
+                  {set.chainValidation && (
+                    <>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{labels.chainValidation}</span>
+                      <Badge tone={resultTone(set.chainValidation)}>{set.chainValidation}</Badge>
+                    </>
+                  )}
+                </div>
+                {set.results && <ResultList results={set.results} />}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,20 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import FileDropZone from './FileDropZone';
+import RemoteContentNotice from './RemoteContentNotice';
+import HeaderInspector from './HeaderInspector';
+import EmailAuthentication from './EmailAuthentication';
+import SmimePanel from './SmimePanel';
+import type { Email } from 'postal-mime';
+import { sanitizeEmailHtml, previewDocument, resolveCidUrls, referencedCids, type EmailHtml } from '../../lib/email-html';
+import { parseReceivedChain, type ReceivedHop } from '../../lib/email-headers';
+import {
+  checkDkimBodies,
+  summarizeAuthentication,
+  hasAuthentication,
+  type DkimBodyCheck,
+  type AuthenticationSummary,
+} from '../../lib/email-auth';
+import { unwrapSmime, decryptSmime, type SmimeLayer } from '../../lib/smime';
 
 interface EmlViewerProps {
   labels: {
@@ -26,6 +41,69 @@ interface EmlViewerProps {
     fileType: string;
     parsing: string;
     saveAsText: string;
+    inline: string;
+    showInline: string;
+    hideInline: string;
+    headers: string;
+    receivedChain: string;
+    allHeaders: string;
+    hopFrom: string;
+    hopWith: string;
+    tls: string;
+    noTls: string;
+    clockSkew: string;
+    longDelay: string;
+    copy: string;
+    copied: string;
+    authentication: string;
+    dkimSignatures: string;
+    bodyHash: string;
+    bodyIntact: string;
+    bodyModified: string;
+    bodyUnchecked: string;
+    signedHeaders: string;
+    dkimExpired: string;
+    dkimPublicKey: string;
+    dkimVerify: string;
+    signatureValid: string;
+    signatureInvalid: string;
+    serverResults: string;
+    receivedSpf: string;
+    arcChain: string;
+    arcHop: string;
+    chainValidation: string;
+    remoteBlocked: string;
+    loadRemote: string;
+    trackingPixels: string;
+    trackerTiny: string;
+    trackerKnownHost: string;
+    trackerUniqueId: string;
+    smimeSigned: string;
+    smimeOpaque: string;
+    smimeUnverified: string;
+    smimeSigningTime: string;
+    smimeChain: string;
+    smimeIssuer: string;
+    smimeValidity: string;
+    smimeExpired: string;
+    smimeNotYetValid: string;
+    smimeIssuerVerified: string;
+    smimeIssuerInvalid: string;
+    smimeIssuerUnknown: string;
+    smimeSelfSigned: string;
+    smimeUntrusted: string;
+    smimeEncrypted: string;
+    smimeRecipients: string;
+    smimeDecrypted: string;
+    smimeKeyFile: string;
+    smimePassword: string;
+    smimeDecrypt: string;
+    smimeDecrypting: string;
+    smimeLocalOnly: string;
+    smimeWrongPassword: string;
+    smimeNoMatchingKey: string;
+    smimeUnsupported: string;
+    smimeDecryptFailed: string;
   };
 }
 
@@ -38,12 +116,29 @@ interface ParsedEmail {
   text: string;
   html: string;
   attachments: EmailAttachment[];
+  /** Raw header lines in their original order */
+  headerLines: string[];
+  received: ReceivedHop[];
+  /** The file as read; DKIM works on the exact bytes */
+  raw: Uint8Array;
+  dkim: DkimBodyCheck[];
+  auth: AuthenticationSummary;
+  /** S/MIME layers, outermost first; text, html and attachments come from inside them */
+  smime: SmimeLayer[];
+  /** The innermost S/MIME layer is encrypted and the body is not readable yet */
+  encrypted: boolean;
 }
 
+type BodyView = 'text' | 'html' | 'headers' | 'auth';
+
 interface EmailAttachment {
   filename: string;
   mimeType: string;
   content: Uint8Array;
+  /** Content-ID without angle brackets, or '' */
+  contentId: string;
+  /** Part of the HTML body (a cid: image or other related resource) rather than a file sent along */
+  inline: boolean;
 }
 
 function formatFileSize(bytes: number): string {
@@ -66,50 +161,92 @@ function formatAddress(addr: { name?: string; address?: string } | { name?: stri
   return addr.name ? `${addr.name} <${addr.address}>` : (addr.address || '');
 }
 
+/** Body text, HTML and attachments of a parsed message or of the MIME entity inside an S/MIME layer */
+function readBody(email: Email): Pick<ParsedEmail, 'text' | 'html' | 'attachments'> {
+  const html = email.html || '';
+  const cids = referencedCids(html);
+  return {
+    text: email.text || '',
+    html,
+    attachments: (email.attachments || []).map((att) => {
+      const contentId = (att.contentId || '').replace(/^<|>$/g, '');
+      return {
+        filename: att.filename || 'untitled',
+        mimeType: att.mimeType || 'application/octet-stream',
+        content: new Uint8Array(att.content),
+        contentId,
+        // Referenced from the HTML, or a multipart/related part that was not sent as an attachment
+        inline: !!contentId && (cids.has(contentId.toLowerCase()) || (!!att.related && att.disposition !== 'attachment')),
+      };
+    }),
+  };
+}
+
+async function parseMime(entity: string | Uint8Array): Promise<Email> {
+  const PostalMime = (await import('postal-mime')).default;
+  return new PostalMime().parse(entity);
+}
+
+/**
+ * Unwrap S/MIME layers and read the body inside; an encrypted message has no readable body until decrypted.
+ * `parsed` is the entity already parsed, used as is when there are no layers.
+ */
+async function readSmimeBody(
+  entity: Uint8Array,
+  parsed?: Email,
+): Promise<Pick<ParsedEmail, 'text' | 'html' | 'attachments' | 'smime' | 'encrypted'>> {
+  const { layers, content } = await unwrapSmime(entity);
+  const encrypted = layers.length > 0 && layers[layers.length - 1].type === 'encrypted';
+  const body = encrypted
+    ? { text: '', html: '', attachments: [] }
+    : readBody(layers.length === 0 && parsed ? parsed : await parseMime(content));
+  return { ...body, smime: layers, encrypted };
+}
+
 export default function EmlViewer({ labels }: EmlViewerProps) {
   const [result, setResult] = useState<ParsedEmail | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isParsing, setIsParsing] = useState(false);
-  const [showHtml, setShowHtml] = useState(false);
+  const [view, setView] = useState<BodyView>('text');
   const [sanitizedHtml, setSanitizedHtml] = useState('');
-  const iframeRef = useRef<HTMLIFrameElement>(null);
+  // Remote content is loaded only for the email it was allowed for
+  const [remoteAllowedFor, setRemoteAllowedFor] = useState<ParsedEmail | null>(null);
+  const [remoteReport, setRemoteReport] = useState<Pick<EmailHtml, 'remoteCount' | 'trackers'> | null>(null);
+  const [showInline, setShowInline] = useState(false);
+
+  // Inline body parts are hidden from the attachment list unless asked for
+  const inlineCount = useMemo(() => (result ? result.attachments.filter((att) => att.inline).length : 0), [result]);
+  const listedAttachments = useMemo(
+    () => (result ? result.attachments.filter((att) => showInline || !att.inline) : []),
+    [result, showInline],
+  );
+
+  const showHtml = view === 'html';
+  const allowRemote = remoteAllowedFor !== null && remoteAllowedFor === result;
 
   // Sanitize HTML when result changes
   useEffect(() => {
     if (result?.html) {
-      import('dompurify').then((mod) => {
-        const DOMPurify = mod.default;
-        const clean = DOMPurify.sanitize(result.html, {
-          ALLOW_TAGS: [
-            'p', 'br', 'b', 'i', 'u', 'strong', 'em', 'a', 'ul', 'ol', 'li',
-            'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'thead', 'tbody',
-            'tr', 'td', 'th', 'div', 'span', 'img', 'blockquote', 'pre', 'code', 'hr',
-            'style', 'font', 'center', 'small', 'big', 'sub', 'sup', 'dl', 'dt', 'dd',
-          ],
-          ALLOW_ATTR: ['href', 'src', 'alt', 'title', 'style', 'class', 'width', 'height', 'colspan', 'rowspan', 'align', 'valign', 'color', 'bgcolor', 'face', 'size', 'target'],
-          FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'form', 'input', 'textarea', 'select', 'button'],
-        });
-        setSanitizedHtml(clean);
+      // Blob URLs for cid: images are created after sanitizing, since DOMPurify rejects blob: URLs
+      const cidUrls = new Map<string, string>();
+      for (const att of result.attachments) {
+        if (att.contentId) {
+          cidUrls.set(att.contentId.toLowerCase(), URL.createObjectURL(new Blob([att.content.slice()], { type: att.mimeType })));
+        }
+      }
+      let cancelled = false;
+      sanitizeEmailHtml(result.html, { allowRemote }).then((clean) => {
+        if (cancelled) return;
+        setSanitizedHtml(resolveCidUrls(clean.html, cidUrls));
+        setRemoteReport({ remoteCount: clean.remoteCount, trackers: clean.trackers });
       });
+      return () => {
+        cancelled = true;
+        cidUrls.forEach((url) => URL.revokeObjectURL(url));
+      };
     }
-  }, [result?.html]);
+  }, [result, allowRemote]);
 
-  // Write sanitized HTML to sandbox iframe
-  useEffect(() => {
-    if (showHtml && sanitizedHtml && iframeRef.current) {
-      const doc = iframeRef.current.contentDocument;
-      if (doc) {
-        doc.open();
-        doc.write(`<!DOCTYPE html><html><head><meta charset="utf-8"><style>
-          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; font-size: 14px; color: #333; padding: 16px; margin: 0; line-height: 1.6; }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-          table { border-collapse: collapse; } td, th { border: 1px solid #ddd; padding: 4px 8px; }
-        </style></head><body>${sanitizedHtml}</body></html>`);
-        doc.close();
-      }
-    }
-  }, [showHtml, sanitizedHtml]);
 
   const handleFilesSelected = useCallback(
     async (files: File[]) => {
@@ -118,12 +255,14 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
 
       setError(null);
       setResult(null);
-      setShowHtml(false);
+      setView('text');
       setSanitizedHtml('');
+      setShowInline(false);
       setIsParsing(true);
 
       try {
-        const text = await file.text();
+        const raw = new Uint8Array(await file.arrayBuffer());
+        const text = new TextDecoder().decode(raw);
 
         // Basic EML validation: check for common email headers
         const hasHeaders = /^(From|To|Subject|Date|MIME-Version|Content-Type):/im.test(text);
@@ -133,26 +272,28 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
           return;
         }
 
-        const PostalMime = (await import('postal-mime')).default;
-        const parser = new PostalMime();
-        const email = await parser.parse(text);
+        const email = await parseMime(text);
+        const sentDate = email.date ? new Date(email.date) : null;
 
         const parsed: ParsedEmail = {
           subject: email.subject || '',
           from: formatAddress(email.from),
           to: formatAddress(email.to),
           cc: formatAddress(email.cc),
-          date: email.date ? new Date(email.date).toLocaleString() : '',
-          text: email.text || '',
-          html: email.html || '',
-          attachments: (email.attachments || []).map((att) => ({
-            filename: att.filename || 'untitled',
-            mimeType: att.mimeType || 'application/octet-stream',
-            content: new Uint8Array(att.content),
-          })),
+          date: sentDate ? sentDate.toLocaleString() : '',
+          ...(await readSmimeBody(raw, email)),
+          headerLines: email.headerLines.map((h) => h.line),
+          received: parseReceivedChain(
+            email.headers.filter((h) => h.key === 'received').map((h) => h.value),
+            sentDate && !Number.isNaN(sentDate.getTime()) ? sentDate : null,
+          ),
+          raw,
+          dkim: await checkDkimBodies(raw),
+          auth: summarizeAuthentication(email.headers),
         };
 
         setResult(parsed);
+        setView(parsed.text ? 'text' : parsed.html ? 'html' : 'headers');
       } catch {
         setError(labels.errorParseFailed);
       } finally {
@@ -162,6 +303,20 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
     [labels],
   );
 
+  const handleDecrypt = useCallback(
+    async (pkcs12: Uint8Array, password: string) => {
+      if (!result) return;
+      const layer = result.smime[result.smime.length - 1];
+      if (!layer || layer.type !== 'encrypted') return;
+      const inner = await readSmimeBody(await decryptSmime(layer.envelope, pkcs12, password));
+      const decrypted: ParsedEmail = { ...result, ...inner, smime: [...result.smime, ...inner.smime] };
+      setResult(decrypted);
+      setSanitizedHtml('');
+      setView(decrypted.text ? 'text' : decrypted.html ? 'html' : view);
+    },
+    [result, view],
+  );
+
   const handleDownloadAttachment = useCallback((attachment: EmailAttachment) => {
     const blob = new Blob([attachment.content], { type: attachment.mimeType });
     const url = URL.createObjectURL(blob);
@@ -175,12 +330,12 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
   }, []);
 
   const handleDownloadAll = useCallback(async () => {
-    if (!result || result.attachments.length === 0) return;
+    if (listedAttachments.length === 0) return;
 
     const JSZip = (await import('jszip')).default;
     const zip = new JSZip();
 
-    for (const att of result.attachments) {
+    for (const att of listedAttachments) {
       zip.file(att.filename, att.content);
     }
 
@@ -193,7 +348,7 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [result]);
+  }, [listedAttachments]);
 
   const handleSaveAsText = useCallback(() => {
     if (!result) return;
@@ -232,8 +387,9 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
   const handleClear = useCallback(() => {
     setResult(null);
     setError(null);
-    setShowHtml(false);
+    setView('text');
     setSanitizedHtml('');
+    setShowInline(false);
   }, []);
 
   return (
@@ -313,66 +469,147 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
             </div>
           </div>
 
-          {/* Body */}
-          {(result.text || result.html) && (
-            <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
-              {/* Tab headers */}
-              {result.text && result.html && (
-                <div className="flex border-b border-gray-200 dark:border-gray-700">
-                  <button
-                    onClick={() => setShowHtml(false)}
-                    className={`px-4 py-2.5 text-sm font-medium transition-colors ${
-                      !showHtml
-                        ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
-                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
-                    }`}
-                  >
-                    {labels.bodyText}
-                  </button>
+          {/* S/MIME signatures and encryption */}
+          {result.smime.length > 0 && (
+            <SmimePanel
+              layers={result.smime}
+              locked={result.encrypted}
+              onDecrypt={handleDecrypt}
+              labels={{
+                signed: labels.smimeSigned,
+                opaque: labels.smimeOpaque,
+                signatureValid: labels.signatureValid,
+                signatureInvalid: labels.signatureInvalid,
+                unverified: labels.smimeUnverified,
+                signingTime: labels.smimeSigningTime,
+                chain: labels.smimeChain,
+                issuer: labels.smimeIssuer,
+                validity: labels.smimeValidity,
+                expired: labels.smimeExpired,
+                notYetValid: labels.smimeNotYetValid,
+                issuerVerified: labels.smimeIssuerVerified,
+                issuerInvalid: labels.smimeIssuerInvalid,
+                issuerUnknown: labels.smimeIssuerUnknown,
+                selfSigned: labels.smimeSelfSigned,
+                untrusted: labels.smimeUntrusted,
+                encrypted: labels.smimeEncrypted,
+                recipients: labels.smimeRecipients,
+                decrypted: labels.smimeDecrypted,
+                keyFile: labels.smimeKeyFile,
+                password: labels.smimePassword,
+                decrypt: labels.smimeDecrypt,
+                decrypting: labels.smimeDecrypting,
+                localOnly: labels.smimeLocalOnly,
+                wrongPassword: labels.smimeWrongPassword,
+                noMatchingKey: labels.smimeNoMatchingKey,
+                unsupported: labels.smimeUnsupported,
+                decryptFailed: labels.smimeDecryptFailed,
+              }}
+            />
+          )}
+
+          {/* Body and headers */}
+          <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+            {/* Tab headers */}
+            <div className="flex border-b border-gray-200 dark:border-gray-700">
+              {([
+                ['text', labels.bodyText, !!result.text],
+                ['html', labels.bodyHtml, !!result.html],
+                ['headers', labels.headers, true],
+                ['auth', labels.authentication, result.dkim.length > 0 || hasAuthentication(result.auth)],
+              ] as const)
+                .filter(([, , available]) => available)
+                .map(([tab, label]) => (
                   <button
-                    onClick={() => setShowHtml(true)}
+                    key={tab}
+                    onClick={() => setView(tab)}
                     className={`px-4 py-2.5 text-sm font-medium transition-colors ${
-                      showHtml
+                      view === tab
                         ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
                         : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
                     }`}
                   >
-                    {labels.bodyHtml}
+                    {label}
                   </button>
-                </div>
-              )}
+                ))}
+            </div>
 
-              <div className="p-5">
-                {!showHtml && result.text ? (
-                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
-                    {result.text}
-                  </pre>
-                ) : showHtml && sanitizedHtml ? (
-                  <iframe
-                    ref={iframeRef}
-                    sandbox="allow-popups"
-                    title="Email content"
-                    className="w-full min-h-[200px] rounded-lg border border-gray-100 bg-white dark:border-gray-600"
-                    style={{ height: '400px' }}
-                  />
-                ) : result.text ? (
-                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
-                    {result.text}
-                  </pre>
-                ) : result.html && sanitizedHtml ? (
-                  <iframe
-                    ref={iframeRef}
-                    sandbox="allow-popups"
-                    title="Email content"
-                    className="w-full min-h-[200px] rounded-lg border border-gray-100 bg-white dark:border-gray-600"
-                    style={{ height: '400px' }}
-                  />
-                ) : (
-                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">{labels.noBody}</p>
-                )}
-              </div>
+            {showHtml && sanitizedHtml && remoteReport && (
+              <RemoteContentNotice
+                remoteCount={remoteReport.remoteCount}
+                trackers={remoteReport.trackers}
+                allowed={allowRemote}
+                onAllow={() => setRemoteAllowedFor(result)}
+                labels={{
+                  blocked: labels.remoteBlocked,
+                  load: labels.loadRemote,
+                  trackers: labels.trackingPixels,
+                  tiny: labels.trackerTiny,
+                  knownHost: labels.trackerKnownHost,
+                  uniqueId: labels.trackerUniqueId,
+                }}
+              />
+            )}
+
+            <div className="p-5">
+              {view === 'headers' ? (
+                <HeaderInspector
+                  lines={result.headerLines}
+                  hops={result.received}
+                  labels={{
+                    receivedChain: labels.receivedChain,
+                    allHeaders: labels.allHeaders,
+                    hopFrom: labels.hopFrom,
+                    hopWith: labels.hopWith,
+                    tls: labels.tls,
+                    noTls: labels.noTls,
+                    clockSkew: labels.clockSkew,
+                    longDelay: labels.longDelay,
+                    copy: labels.copy,
+                    copied: labels.copied,
+                  }}
+                />
+              ) : view === 'auth' ? (
+                <EmailAuthentication
+                  raw={result.raw}
+                  dkim={result.dkim}
+                  summary={result.auth}
+                  labels={{
+                    dkimSignatures: labels.dkimSignatures,
+                    bodyHash: labels.bodyHash,
+                    bodyIntact: labels.bodyIntact,
+                    bodyModified: labels.bodyModified,
+                    bodyUnchecked: labels.bodyUnchecked,
+                    signedHeaders: labels.signedHeaders,
+                    expired: labels.dkimExpired,
+                    publicKey: labels.dkimPublicKey,
+                    verify: labels.dkimVerify,
+                    signatureValid: labels.signatureValid,
+                    signatureInvalid: labels.signatureInvalid,
+                    serverResults: labels.serverResults,
+                    receivedSpf: labels.receivedSpf,
+                    arcChain: labels.arcChain,
+                    arcHop: labels.arcHop,
+                    chainValidation: labels.chainValidation,
+                  }}
+                />
+              ) : showHtml && sanitizedHtml ? (
+                <iframe
+                  srcDoc={previewDocument(sanitizedHtml, allowRemote)}
+                  sandbox="allow-popups"
+                  title="Email content"
+                  className="w-full min-h-[200px] rounded-lg border border-gray-100 bg-white dark:border-gray-600"
+                  style={{ height: '400px' }}
+                />
+              ) : result.text ? (
+                <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
+                  {result.text}
+                </pre>
+              ) : (
+                <p className="text-sm text-gray-400 dark:text-gray-500 italic">{labels.noBody}</p>
+              )}
             </div>
-          )}
+          </div>
 
           {/* Save as text */}
           <div className="flex">
@@ -395,10 +632,18 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
           <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
             <div className="flex items-center justify-between border-b border-gray-200 px-5 py-3 dark:border-gray-700">
               <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
-                {labels.attachments} ({result.attachments.length})
+                {labels.attachments} ({listedAttachments.length})
               </h3>
               <div className="flex gap-2">
-                {result.attachments.length > 1 && (
+                {inlineCount > 0 && (
+                  <button
+                    onClick={() => setShowInline((v) => !v)}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    {showInline ? labels.hideInline : labels.showInline} ({inlineCount})
+                  </button>
+                )}
+                {listedAttachments.length > 1 && (
                   <button
                     onClick={handleDownloadAll}
                     className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
@@ -420,13 +665,13 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
               </div>
             </div>
 
-            {result.attachments.length === 0 ? (
+            {listedAttachments.length === 0 ? (
               <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-gray-500">
                 {labels.noAttachments}
               </div>
             ) : (
               <div className="divide-y divide-gray-100 dark:divide-gray-700">
-                {result.attachments.map((att, i) => (
+                {listedAttachments.map((att, i) => (
                   <div key={i} className="flex items-center gap-3 px-5 py-3">
                     {/* File type icon */}
                     <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-gray-100 dark:bg-gray-700">
@@ -437,7 +682,14 @@ export default function EmlViewer({ labels }: EmlViewerProps) {
                     </div>
                     {/* File info */}
                     <div className="min-w-0 flex-1">
-                      <p className="truncate text-sm font-medium text-gray-900 dark:text-white">{att.filename}</p>
+                      <p className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                        <span className="truncate">{att.filename}</span>
+                        {att.inline && (
+                          <span className="shrink-0 rounded bg-gray-100 px-1.5 py-0.5 text-[10px] font-medium uppercase text-gray-500 dark:bg-gray-700 dark:text-gray-400">
+                            {labels.inline}
+                          </span>
+                        )}
+                      </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         {formatFileSize(att.content.length)} &middot; {att.mimeType}
                       </p>
@@ -0,0 +1,155 @@
+import { useState, useCallback } from 'react';
+import type { ReceivedHop } from '../../lib/email-headers';
+
+interface HeaderInspectorProps {
+  /** Raw header lines in their original order, folded continuation lines included */
+  lines: string[];
+  hops: ReceivedHop[];
+  labels: {
+    receivedChain: string;
+    allHeaders: string;
+    hopFrom: string;
+    hopWith: string;
+    tls: string;
+    noTls: string;
+    clockSkew: string;
+    longDelay: string;
+    copy: string;
+    copied: string;
+  };
+}
+
+function formatDelay(seconds: number): string {
+  const sign = seconds < 0 ? '−' : '+';
+  let rest = Math.abs(seconds);
+  const parts: string[] = [];
+  for (const [unit, size] of [['d', 86400], ['h', 3600], ['m', 60]] as const) {
+    if (rest >= size) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  if (rest > 0 || parts.length === 0) parts.push(`${rest}s`);
+  return sign + parts.slice(0, 2).join(' ');
+}
+
+export default function HeaderInspector({ lines, hops, labels }: HeaderInspectorProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(lines.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access denied — the headers can still be selected by hand
+    }
+  }, [lines]);
+
+  return (
+    <div className="space-y-5">
+      {/* Received: chain, oldest hop first */}
+      {hops.length > 0 && (
+        <div>
+          <h4 className="mb-3 text-xs font-medium uppercase text-gray-400 dark:text-gray-500">
+            {labels.receivedChain} ({hops.length})
+          </h4>
+          <ol className="space-y-3 border-l border-gray-200 pl-5 dark:border-gray-700">
+            {hops.map((hop, i) => (
+              <li key={i} className="relative">
+                <span
+                  className={`absolute -left-[25px] top-1.5 h-2 w-2 rounded-full ring-4 ring-white dark:ring-gray-800 ${
+                    hop.clockSkew ? 'bg-red-500' : hop.longDelay ? 'bg-amber-500' : 'bg-primary-500'
+                  }`}
+                />
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                  <span className="font-mono font-medium text-gray-900 dark:text-white break-all">{hop.by || '—'}</span>
+                  <span
+                    className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${
+                      hop.tls
+                        ? 'bg-green-100 text-green-700 dark:bg-green-900/60 dark:text-green-300'
+                        : 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+                    }`}
+                  >
+                    {hop.tls ? labels.tls : labels.noTls}
+                  </span>
+                  {hop.delay !== null && (
+                    <span
+                      className={`font-mono text-xs ${
+                        hop.clockSkew
+                          ? 'text-red-600 dark:text-red-400'
+                          : hop.longDelay
+                            ? 'text-amber-600 dark:text-amber-400'
+                            : 'text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {formatDelay(hop.delay)}
+                    </span>
+                  )}
+                  {hop.clockSkew && <span className="text-xs font-medium text-red-600 dark:text-red-400">{labels.clockSkew}</span>}
+                  {hop.longDelay && <span className="text-xs font-medium text-amber-600 dark:text-amber-400">{labels.longDelay}</span>}
+                </div>
+                <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 break-all">
+                  {hop.from && (
+                    <>
+                      {labels.hopFrom} <span className="font-mono">{hop.from}</span>
+                      {hop.ip && <span className="font-mono"> [{hop.ip}]</span>}
+                    </>
+                  )}
+                  {hop.protocol && (
+                    <>
+                      {hop.from && ' · '}
+                      {labels.hopWith} <span className="font-mono">{hop.protocol}</span>
+                    </>
+                  )}
+                  {hop.date && (
+                    <>
+                      {(hop.from || hop.protocol) && ' · '}
+                      {hop.date.toLocaleString()}
+                    </>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Every header as sent, in order */}
+      <div>
+        <div className="mb-2 flex items-center justify-between gap-3">
+          <h4 className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">
+            {labels.allHeaders} ({lines.length})
+          </h4>
+          <button
+            onClick={handleCopy}
+            className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+          >
+            <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+              <rect x="9" y="9" width="13" height="13" rx="2" />
+              <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+            </svg>
+            {copied ? labels.copied : labels.copy}
+          </button>
+        </div>
+        <pre className="max-h-96 overflow-auto rounded-lg bg-gray-50 p-3 text-xs leading-relaxed text-gray-700 dark:bg-gray-900 dark:text-gray-300 font-mono whitespace-pre-wrap break-all">
+          {lines.map((line, i) => {
+            const colon = line.indexOf(':');
+            return (
+              <span key={i} className="block">
+                {colon > 0 ? (
+                  <>
+                    <span className="font-semibold text-gray-900 dark:text-white">{line.slice(0, colon + 1)}</span>
+                    {line.slice(colon + 1)}
+                  </>
+                ) : (
+                  line
+                )}
+              </span>
+            );
+          })}
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import {
+  describeProperty,
+  propTypeName,
+  type MapiProperty,
+  type MapiValue,
+  type MapiScalar,
+} from '../../lib/tnef-parser';
+
+interface PropertySection {
+  title: string;
+  properties: MapiProperty[];
+}
+
+interface MapiPropertyInspectorProps {
+  sections: PropertySection[];
+  labels: {
+    title: string;
+    tag: string;
+    name: string;
+    type: string;
+    value: string;
+  };
+}
+
+export type { PropertySection };
+
+/** Longest string / binary preview shown per value; the inspector is for debugging, not export */
+const MAX_PREVIEW = 256;
+
+function formatHex(n: number, width: number): string {
+  return `0x${n.toString(16).toUpperCase().padStart(width, '0')}`;
+}
+
+function formatValue(value: MapiValue): string {
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map((v) => `[${formatScalar(v)}]`).join('\n');
+  return formatScalar(value);
+}
+
+function formatScalar(value: MapiScalar): string {
+  if (typeof value === 'boolean' || typeof value === 'bigint') return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) {
+    const preview = Array.from(value.subarray(0, 32))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join(' ');
+    return `${preview}${value.length > 32 ? ' …' : ''} (${value.length} bytes)`;
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? `${value} (${formatHex(value >>> 0, 8)})` : String(value);
+  }
+  return value.length > MAX_PREVIEW ? `${value.substring(0, MAX_PREVIEW)}…` : value;
+}
+
+export default function MapiPropertyInspector({ sections, labels }: MapiPropertyInspectorProps) {
+  const total = sections.reduce((sum, s) => sum + s.properties.length, 0);
+  if (total === 0) return null;
+
+  return (
+    <details className="group rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800 overflow-hidden">
+      <summary className="flex cursor-pointer items-center justify-between gap-4 px-5 py-3 text-sm font-semibold text-gray-900 dark:text-white select-none hover:bg-gray-50 dark:hover:bg-gray-700/50">
+        <span>
+          {labels.title} ({total})
+        </span>
+        <svg className="h-4 w-4 shrink-0 text-gray-400 transition-transform duration-200 group-open:rotate-180" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+          <polyline points="6 9 12 15 18 9" />
+        </svg>
+      </summary>
+
+      <div className="space-y-5 border-t border-gray-200 px-5 py-4 dark:border-gray-700">
+        {sections
+          .filter((section) => section.properties.length > 0)
+          .map((section, i) => (
+            <div key={i}>
+              <h4 className="mb-2 truncate text-xs font-medium uppercase text-gray-400 dark:text-gray-500">
+                {section.title}
+              </h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                      <th className="py-1.5 pr-3 font-medium">{labels.tag}</th>
+                      <th className="py-1.5 pr-3 font-medium">{labels.name}</th>
+                      <th className="py-1.5 pr-3 font-medium">{labels.type}</th>
+                      <th className="py-1.5 font-medium">{labels.value}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {section.properties.map((prop, j) => (
+                      <tr key={j} className="align-top text-gray-700 dark:text-gray-300">
+                        <td className="whitespace-nowrap py-1.5 pr-3 font-mono">{formatHex(prop.tag, 8)}</td>
+                        <td className="py-1.5 pr-3 font-mono break-all">{describeProperty(prop)}</td>
+                        <td className="whitespace-nowrap py-1.5 pr-3 font-mono">{propTypeName(prop.type)}</td>
+                        <td className="py-1.5 font-mono break-all whitespace-pre-wrap">{formatValue(prop.value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+      </div>
+    </details>
+  );
+}
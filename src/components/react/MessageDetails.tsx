@@ -0,0 +1,115 @@
+import { useState, useCallback } from 'react';
+import type { TnefParseResult } from '../../lib/tnef-parser';
+
+interface MessageDetailsProps {
+  message: TnefParseResult;
+  labels: {
+    title: string;
+    messageClass: string;
+    importance: string;
+    sensitivity: string;
+    priority: string;
+    messageId: string;
+    conversationTopic: string;
+    readReceipt: string;
+    deliveryReceipt: string;
+    transportHeaders: string;
+    copy: string;
+    copied: string;
+    yes: string;
+    no: string;
+    importanceLow: string;
+    importanceNormal: string;
+    importanceHigh: string;
+    sensitivityNone: string;
+    sensitivityPersonal: string;
+    sensitivityPrivate: string;
+    sensitivityConfidential: string;
+    priorityNonurgent: string;
+    priorityNormal: string;
+    priorityUrgent: string;
+  };
+}
+
+export default function MessageDetails({ message, labels }: MessageDetailsProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(message.transportHeaders);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access denied — the headers can still be selected by hand
+    }
+  }, [message]);
+
+  const rows: [string, string][] = [
+    [labels.messageClass, message.messageClass],
+    [labels.importance, {
+      low: labels.importanceLow,
+      normal: labels.importanceNormal,
+      high: labels.importanceHigh,
+    }[message.importance]],
+    [labels.sensitivity, {
+      none: labels.sensitivityNone,
+      personal: labels.sensitivityPersonal,
+      private: labels.sensitivityPrivate,
+      confidential: labels.sensitivityConfidential,
+    }[message.sensitivity]],
+    [labels.priority, {
+      nonurgent: labels.priorityNonurgent,
+      normal: labels.priorityNormal,
+      urgent: labels.priorityUrgent,
+    }[message.priority]],
+    [labels.messageId, message.internetMessageId],
+    [labels.conversationTopic, message.conversationTopic],
+    [labels.readReceipt, message.readReceiptRequested ? labels.yes : labels.no],
+    [labels.deliveryReceipt, message.deliveryReceiptRequested ? labels.yes : labels.no],
+  ];
+
+  return (
+    <details className="group rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800 overflow-hidden">
+      <summary className="flex cursor-pointer items-center justify-between gap-4 px-5 py-3 text-sm font-semibold text-gray-900 dark:text-white select-none hover:bg-gray-50 dark:hover:bg-gray-700/50">
+        <span>{labels.title}</span>
+        <svg className="h-4 w-4 shrink-0 text-gray-400 transition-transform duration-200 group-open:rotate-180" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+          <polyline points="6 9 12 15 18 9" />
+        </svg>
+      </summary>
+
+      <div className="space-y-5 border-t border-gray-200 px-5 py-4 dark:border-gray-700">
+        <dl className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{label}</dt>
+                <dd className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{value}</dd>
+              </div>
+            ))}
+        </dl>
+
+        {message.transportHeaders && (
+          <div>
+            <div className="mb-2 flex items-center justify-between gap-3">
+              <h4 className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.transportHeaders}</h4>
+              <button
+                onClick={handleCopy}
+                className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+              >
+                <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                  <rect x="9" y="9" width="13" height="13" rx="2" />
+                  <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+                </svg>
+                {copied ? labels.copied : labels.copy}
+              </button>
+            </div>
+            <pre className="max-h-80 overflow-auto rounded-lg bg-gray-50 p-3 text-xs leading-relaxed text-gray-700 dark:bg-gray-900 dark:text-gray-300 font-mono whitespace-pre">
+              {message.transportHeaders}
+            </pre>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,667 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import FileDropZone from './FileDropZone';
+import RemoteContentNotice from './RemoteContentNotice';
+import MapiPropertyInspector from './MapiPropertyInspector';
+import { parseMsg, type MsgParseResult, type MsgAttachment } from '../../lib/msg-parser';
+import {
+  buildMeetingIcs,
+  buildEml,
+  type TnefRecipient,
+  type TnefMeeting,
+} from '../../lib/tnef-parser';
+import { sanitizeEmailHtml, previewDocument, resolveCidUrls, type EmailHtml } from '../../lib/email-html';
+import { downloadBlob, titleFileName } from '../../lib/download';
+
+interface MsgViewerProps {
+  labels: {
+    dropTitle: string;
+    dropDescription: string;
+    dropHint: string;
+    download: string;
+    downloadAllZip: string;
+    clearAll: string;
+    errorNotMsg: string;
+    errorParseFailed: string;
+    subject: string;
+    from: string;
+    to: string;
+    cc: string;
+    bcc: string;
+    sentDate: string;
+    receivedDate: string;
+    bodyText: string;
+    bodyHtml: string;
+    attachments: string;
+    noAttachments: string;
+    noBody: string;
+    downloadRtf: string;
+    embeddedMessage: string;
+    openMessage: string;
+    back: string;
+    propertiesTitle: string;
+    propertiesMessage: string;
+    propertyTag: string;
+    propertyName: string;
+    propertyType: string;
+    propertyValue: string;
+    event: string;
+    eventCanceled: string;
+    eventWhen: string;
+    eventLocation: string;
+    eventOrganizer: string;
+    eventRepeats: string;
+    allDay: string;
+    repeatsDaily: string;
+    repeatsWeekly: string;
+    repeatsMonthly: string;
+    repeatsYearly: string;
+    downloadIcs: string;
+    downloadEml: string;
+    inlineImages: string;
+    fileName: string;
+    fileSize: string;
+    parsing: string;
+    remoteBlocked: string;
+    loadRemote: string;
+    trackingPixels: string;
+    trackerTiny: string;
+    trackerKnownHost: string;
+    trackerUniqueId: string;
+  };
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+}
+
+function formatRecipients(recipients: TnefRecipient[]): string {
+  return recipients
+    .map((r) => (r.name && r.email && r.name !== r.email ? `${r.name} <${r.email}>` : r.name || r.email))
+    .filter(Boolean)
+    .join(', ');
+}
+
+function formatEventTime(meeting: TnefMeeting, allDayLabel: string): string {
+  if (!meeting.start) return '';
+  if (meeting.allDay) {
+    // All-day events are stored as local midnight, so show the date without a time
+    return `${meeting.start.toLocaleDateString()} (${allDayLabel})`;
+  }
+  const start = meeting.start.toLocaleString();
+  if (!meeting.end) return start;
+  const sameDay = meeting.start.toDateString() === meeting.end.toDateString();
+  return `${start} – ${sameDay ? meeting.end.toLocaleTimeString() : meeting.end.toLocaleString()}`;
+}
+
+export default function MsgViewer({ labels }: MsgViewerProps) {
+  const [result, setResult] = useState<MsgParseResult | null>(null);
+  // Attachment indices leading from the top-level message to the embedded message on screen
+  const [path, setPath] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [showHtml, setShowHtml] = useState(false);
+  const [sanitizedHtml, setSanitizedHtml] = useState('');
+  // Remote content is loaded only for the message it was allowed for
+  const [remoteAllowedFor, setRemoteAllowedFor] = useState<MsgParseResult | null>(null);
+  const [remoteReport, setRemoteReport] = useState<Pick<EmailHtml, 'remoteCount' | 'trackers'> | null>(null);
+
+  // Chain of messages from the top level down to the one being viewed
+  const trail = useMemo(() => {
+    if (!result) return [];
+    const messages = [result];
+    for (const index of path) {
+      const nested = messages[messages.length - 1].attachments[index]?.embeddedMessage;
+      if (!nested) break;
+      messages.push(nested);
+    }
+    return messages;
+  }, [result, path]);
+  const message = trail.length > 0 ? trail[trail.length - 1] : null;
+
+  // Inline body images are listed apart from real attachments; indices are kept for navigation
+  const indexedAttachments = useMemo(
+    () => (message ? message.attachments.map((att, index) => ({ att, index })) : []),
+    [message],
+  );
+  const fileAttachments = indexedAttachments.filter(({ att }) => !att.inline);
+  const inlineImages = indexedAttachments.filter(({ att }) => att.inline);
+
+  const allowRemote = remoteAllowedFor !== null && remoteAllowedFor === message;
+
+  // Sanitize HTML when the displayed message changes
+  useEffect(() => {
+    if (message?.bodyHtml) {
+      // Blob URLs for cid: images are created after sanitizing, since DOMPurify rejects blob: URLs
+      const cidUrls = new Map<string, string>();
+      for (const att of message.attachments) {
+        if (att.contentId && !att.embeddedMessage) {
+          cidUrls.set(att.contentId.toLowerCase(), URL.createObjectURL(new Blob([att.data.slice()], { type: att.mimeType })));
+        }
+      }
+      let cancelled = false;
+      sanitizeEmailHtml(message.bodyHtml, { allowRemote }).then((clean) => {
+        if (cancelled) return;
+        setSanitizedHtml(resolveCidUrls(clean.html, cidUrls));
+        setRemoteReport({ remoteCount: clean.remoteCount, trackers: clean.trackers });
+      });
+      return () => {
+        cancelled = true;
+        cidUrls.forEach((url) => URL.revokeObjectURL(url));
+      };
+    }
+  }, [message, allowRemote]);
+
+
+  const handleFilesSelected = useCallback(
+    async (files: File[]) => {
+      const file = files[0];
+      if (!file) return;
+
+      setError(null);
+      setResult(null);
+      setPath([]);
+      setShowHtml(false);
+      setSanitizedHtml('');
+      setIsParsing(true);
+
+      try {
+        const buffer = await file.arrayBuffer();
+        const parsed = parseMsg(buffer);
+        setResult(parsed);
+        // HTML-only bodies (e.g. de-encapsulated from RTF) open on the HTML view
+        setShowHtml(!parsed.body && !!parsed.bodyHtml);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : '';
+        if (message.includes('Not a valid Outlook .msg')) {
+          setError(labels.errorNotMsg);
+        } else {
+          setError(labels.errorParseFailed);
+        }
+      } finally {
+        setIsParsing(false);
+      }
+    },
+    [labels],
+  );
+
+  const handleDownloadAttachment = useCallback((attachment: MsgAttachment) => {
+    const blob = new Blob([attachment.data.slice()], { type: attachment.mimeType });
+    downloadBlob(blob, attachment.name);
+  }, []);
+
+  const handleDownloadAll = useCallback(async () => {
+    if (!message || message.attachments.length === 0) return;
+
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+
+    for (const att of message.attachments) {
+      // Keep the attachment's original modification time on the ZIP entry
+      zip.file(att.name, att.data, att.modifiedDate ? { date: att.modifiedDate } : undefined);
+    }
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, 'msg-attachments.zip');
+  }, [message]);
+
+  const handleDownloadRtf = useCallback(() => {
+    if (!message?.bodyRtf) return;
+
+    const blob = new Blob([message.bodyRtf], { type: 'application/rtf' });
+    downloadBlob(blob, titleFileName(message.subject, '.rtf', 'message.rtf'));
+  }, [message]);
+
+  const handleDownloadEml = useCallback(() => {
+    if (!message) return;
+
+    const blob = new Blob([buildEml(message)], { type: 'message/rfc822' });
+    downloadBlob(blob, titleFileName(message.subject, '.eml', 'message.eml'));
+  }, [message]);
+
+  const handleDownloadIcs = useCallback(() => {
+    if (!message?.meeting) return;
+
+    const blob = new Blob([buildMeetingIcs(message.meeting)], { type: 'text/calendar;charset=utf-8' });
+    downloadBlob(blob, titleFileName(message.subject, '.ics', 'event.ics'));
+  }, [message]);
+
+  const navigateTo = useCallback((nextPath: number[], target: MsgParseResult) => {
+    setPath(nextPath);
+    setSanitizedHtml('');
+    setShowHtml(!target.body && !!target.bodyHtml);
+  }, []);
+
+  const handleClear = useCallback(() => {
+    setResult(null);
+    setPath([]);
+    setError(null);
+    setShowHtml(false);
+    setSanitizedHtml('');
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {/* Drop zone */}
+      <FileDropZone
+        multiple={false}
+        onFilesSelected={handleFilesSelected}
+        title={labels.dropTitle}
+        description={labels.dropDescription}
+        hint={labels.dropHint}
+        disabled={isParsing}
+      />
+
+      {/* Parsing indicator */}
+      {isParsing && (
+        <div className="flex items-center justify-center gap-2 py-8 text-primary-600 dark:text-primary-400">
+          <svg className="h-5 w-5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+          <span className="text-sm font-medium">{labels.parsing}</span>
+        </div>
+      )}
+
+      {/* Error */}
+      {error && (
+        <div className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950/50">
+          <div className="flex items-center gap-2 text-red-700 dark:text-red-400">
+            <svg className="h-5 w-5 shrink-0" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="10" />
+              <line x1="15" y1="9" x2="9" y2="15" />
+              <line x1="9" y1="9" x2="15" y2="15" />
+            </svg>
+            <p className="text-sm font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {message && (
+        <div className="space-y-4">
+          {/* Embedded message navigation */}
+          {trail.length > 1 && (
+            <nav className="flex flex-wrap items-center gap-2 text-sm">
+              <button
+                onClick={() => navigateTo(path.slice(0, -1), trail[trail.length - 2])}
+                className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+              >
+                <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                  <polyline points="15 18 9 12 15 6" />
+                </svg>
+                {labels.back}
+              </button>
+              {trail.map((m, depth) => (
+                <span key={depth} className="inline-flex items-center gap-2 text-gray-500 dark:text-gray-400">
+                  {depth > 0 && <span>/</span>}
+                  {depth < trail.length - 1 ? (
+                    <button
+                      onClick={() => navigateTo(path.slice(0, depth), m)}
+                      className="max-w-[16rem] truncate text-primary-600 hover:underline dark:text-primary-400"
+                    >
+                      {m.subject || labels.embeddedMessage}
+                    </button>
+                  ) : (
+                    <span className="max-w-[16rem] truncate font-medium text-gray-900 dark:text-white">
+                      {m.subject || labels.embeddedMessage}
+                    </span>
+                  )}
+                </span>
+              ))}
+            </nav>
+          )}
+
+          {/* Email metadata */}
+          <div className="rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+            {message.subject && (
+              <div className="mb-3">
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.subject}</span>
+                <p className="mt-0.5 text-base font-semibold text-gray-900 dark:text-white">{message.subject}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {message.from && (
+                <div>
+                  <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.from}</span>
+                  <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{message.from}</p>
+                </div>
+              )}
+              {message.to.length > 0 && (
+                <div>
+                  <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.to}</span>
+                  <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{formatRecipients(message.to)}</p>
+                </div>
+              )}
+              {message.cc.length > 0 && (
+                <div>
+                  <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.cc}</span>
+                  <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{formatRecipients(message.cc)}</p>
+                </div>
+              )}
+              {message.bcc.length > 0 && (
+                <div>
+                  <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.bcc}</span>
+                  <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{formatRecipients(message.bcc)}</p>
+                </div>
+              )}
+              {message.sentDate && (
+                <div>
+                  <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.sentDate}</span>
+                  <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.sentDate.toLocaleString()}</p>
+                </div>
+              )}
+              {message.receivedDate && (
+                <div>
+                  <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.receivedDate}</span>
+                  <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.receivedDate.toLocaleString()}</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Meeting / appointment */}
+          {message.meeting && (
+            <div className="rounded-xl border border-primary-200 bg-primary-50/50 p-5 dark:border-primary-900 dark:bg-primary-950/30">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <svg className="h-5 w-5 text-primary-600 dark:text-primary-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                    <rect x="3" y="4" width="18" height="18" rx="2" />
+                    <line x1="16" y1="2" x2="16" y2="6" />
+                    <line x1="8" y1="2" x2="8" y2="6" />
+                    <line x1="3" y1="10" x2="21" y2="10" />
+                  </svg>
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                    {labels.event}
+                    {message.meeting.method === 'CANCEL' && (
+                      <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700 dark:bg-red-950 dark:text-red-400">
+                        {labels.eventCanceled}
+                      </span>
+                    )}
+                  </h3>
+                </div>
+                <button
+                  onClick={handleDownloadIcs}
+                  className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+                >
+                  <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                    <polyline points="7 10 12 15 17 10" />
+                    <line x1="12" y1="15" x2="12" y2="3" />
+                  </svg>
+                  {labels.downloadIcs}
+                </button>
+              </div>
+              <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+                {message.meeting.start && (
+                  <div>
+                    <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventWhen}</span>
+                    <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{formatEventTime(message.meeting, labels.allDay)}</p>
+                  </div>
+                )}
+                {message.meeting.location && (
+                  <div>
+                    <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventLocation}</span>
+                    <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{message.meeting.location}</p>
+                  </div>
+                )}
+                {message.meeting.organizer && (
+                  <div>
+                    <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventOrganizer}</span>
+                    <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">
+                      {formatRecipients([{ ...message.meeting.organizer, addressType: '', type: 'to' }])}
+                    </p>
+                  </div>
+                )}
+                {message.meeting.recurrence && (
+                  <div>
+                    <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventRepeats}</span>
+                    <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">
+                      {{
+                        DAILY: labels.repeatsDaily,
+                        WEEKLY: labels.repeatsWeekly,
+                        MONTHLY: labels.repeatsMonthly,
+                        YEARLY: labels.repeatsYearly,
+                      }[message.meeting.recurrence.frequency]}
+                      {message.meeting.recurrence.interval > 1 && ` ×${message.meeting.recurrence.interval}`}
+                      {message.meeting.recurrence.byDay.length > 0 && ` · ${message.meeting.recurrence.byDay.join(', ')}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Body */}
+          {(message.body || message.bodyHtml) && (
+            <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+              {/* Tab headers */}
+              {message.body && message.bodyHtml && (
+                <div className="flex border-b border-gray-200 dark:border-gray-700">
+                  <button
+                    onClick={() => setShowHtml(false)}
+                    className={`px-4 py-2.5 text-sm font-medium transition-colors ${
+                      !showHtml
+                        ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
+                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                    }`}
+                  >
+                    {labels.bodyText}
+                  </button>
+                  <button
+                    onClick={() => setShowHtml(true)}
+                    className={`px-4 py-2.5 text-sm font-medium transition-colors ${
+                      showHtml
+                        ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
+                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                    }`}
+                  >
+                    {labels.bodyHtml}
+                  </button>
+                </div>
+              )}
+
+              {showHtml && sanitizedHtml && remoteReport && (
+                <RemoteContentNotice
+                  remoteCount={remoteReport.remoteCount}
+                  trackers={remoteReport.trackers}
+                  allowed={allowRemote}
+                  onAllow={() => setRemoteAllowedFor(message)}
+                  labels={{
+                    blocked: labels.remoteBlocked,
+                    load: labels.loadRemote,
+                    trackers: labels.trackingPixels,
+                    tiny: labels.trackerTiny,
+                    knownHost: labels.trackerKnownHost,
+                    uniqueId: labels.trackerUniqueId,
+                  }}
+                />
+              )}
+
+              <div className="p-5">
+                {!showHtml && message.body ? (
+                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
+                    {message.body}
+                  </pre>
+                ) : showHtml && sanitizedHtml ? (
+                  <iframe
+                    srcDoc={previewDocument(sanitizedHtml, allowRemote)}
+                    sandbox="allow-popups"
+                    title="Email content"
+                    className="w-full min-h-[200px] rounded-lg border border-gray-100 bg-white dark:border-gray-600"
+                    style={{ height: '400px' }}
+                  />
+                ) : message.body ? (
+                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
+                    {message.body}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">{labels.noBody}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Whole-message downloads */}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleDownloadEml}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <rect x="2" y="4" width="20" height="16" rx="2" />
+                <path d="m22 7-8.97 5.7a1.94 1.94 0 0 1-2.06 0L2 7" />
+              </svg>
+              {labels.downloadEml}
+            </button>
+            {message.bodyRtf && (
+              <button
+                onClick={handleDownloadRtf}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8Z" />
+                  <path d="M14 2v6h6" />
+                  <path d="M16 13H8" />
+                  <path d="M16 17H8" />
+                  <path d="M10 9H8" />
+                </svg>
+                {labels.downloadRtf}
+              </button>
+            )}
+          </div>
+
+          {/* Attachments */}
+          <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+            <div className="flex items-center justify-between border-b border-gray-200 px-5 py-3 dark:border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                {labels.attachments} ({fileAttachments.length})
+              </h3>
+              <div className="flex gap-2">
+                {message.attachments.length > 1 && (
+                  <button
+                    onClick={handleDownloadAll}
+                    className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+                  >
+                    <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                      <polyline points="7 10 12 15 17 10" />
+                      <line x1="12" y1="15" x2="12" y2="3" />
+                    </svg>
+                    {labels.downloadAllZip}
+                  </button>
+                )}
+                <button
+                  onClick={handleClear}
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+                >
+                  {labels.clearAll}
+                </button>
+              </div>
+            </div>
+
+            {fileAttachments.length === 0 ? (
+              <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-gray-500">
+                {labels.noAttachments}
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                {fileAttachments.map(({ att, index: i }) => (
+                  <div key={i} className="flex items-center gap-3 px-5 py-3">
+                    {/* File type icon */}
+                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-gray-100 dark:bg-gray-700">
+                      <svg className="h-5 w-5 text-gray-400 dark:text-gray-500" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24">
+                        <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
+                        <path d="M14 2v4a2 2 0 0 0 2 2h4" />
+                      </svg>
+                    </div>
+                    {/* File info */}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium text-gray-900 dark:text-white">{att.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatFileSize(att.size)}
+                        {att.embeddedMessage && <> &middot; {labels.embeddedMessage}</>}
+                      </p>
+                    </div>
+                    {/* Open embedded message */}
+                    {att.embeddedMessage && (
+                      <button
+                        onClick={() => navigateTo([...path, i], att.embeddedMessage!)}
+                        className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                          <rect x="2" y="4" width="20" height="16" rx="2" />
+                          <path d="m22 7-10 6L2 7" />
+                        </svg>
+                        {labels.openMessage}
+                      </button>
+                    )}
+                    {/* Download button */}
+                    <button
+                      onClick={() => handleDownloadAttachment(att)}
+                      className="inline-flex items-center gap-1 rounded-lg bg-primary-50 px-3 py-1.5 text-xs font-medium text-primary-700 hover:bg-primary-100 dark:bg-primary-950 dark:text-primary-300 dark:hover:bg-primary-900 transition-colors"
+                    >
+                      <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                        <polyline points="7 10 12 15 17 10" />
+                        <line x1="12" y1="15" x2="12" y2="3" />
+                      </svg>
+                      {labels.download}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Inline images referenced by the HTML body */}
+          {inlineImages.length > 0 && (
+            <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+              <div className="border-b border-gray-200 px-5 py-3 dark:border-gray-700">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {labels.inlineImages} ({inlineImages.length})
+                </h3>
+              </div>
+              <div className="flex flex-wrap gap-2 px-5 py-3">
+                {inlineImages.map(({ att, index }) => (
+                  <button
+                    key={index}
+                    onClick={() => handleDownloadAttachment(att)}
+                    title={att.contentId}
+                    className="inline-flex max-w-full items-center gap-1.5 rounded-lg border border-gray-200 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    <svg className="h-3.5 w-3.5 shrink-0 text-gray-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                      <rect x="3" y="3" width="18" height="18" rx="2" />
+                      <circle cx="9" cy="9" r="2" />
+                      <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21" />
+                    </svg>
+                    <span className="truncate">{att.name}</span>
+                    <span className="shrink-0 text-gray-400 dark:text-gray-500">{formatFileSize(att.size)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* All MAPI properties (debugging aid) */}
+          <MapiPropertyInspector
+            sections={[
+              { title: labels.propertiesMessage, properties: message.properties },
+              ...message.attachments.map((att) => ({ title: att.name, properties: att.properties })),
+            ]}
+            labels={{
+              title: labels.propertiesTitle,
+              tag: labels.propertyTag,
+              name: labels.propertyName,
+              type: labels.propertyType,
+              value: labels.propertyValue,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
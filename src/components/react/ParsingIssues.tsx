@@ -0,0 +1,63 @@
+import type { TnefWarning } from '../../lib/tnef-parser';
+
+interface ParsingIssuesProps {
+  warnings: TnefWarning[];
+  labels: {
+    title: string;
+    offset: string;
+    attribute: string;
+    reason: string;
+  };
+}
+
+function formatHex(n: number, width: number): string {
+  return `0x${n.toString(16).toUpperCase().padStart(width, '0')}`;
+}
+
+export default function ParsingIssues({ warnings, labels }: ParsingIssuesProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <details className="group rounded-xl border border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30 overflow-hidden">
+      <summary className="flex cursor-pointer items-center justify-between gap-4 px-5 py-3 text-sm font-semibold text-amber-800 dark:text-amber-300 select-none hover:bg-amber-100/60 dark:hover:bg-amber-900/30">
+        <span className="flex items-center gap-2">
+          <svg className="h-4 w-4 shrink-0" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+            <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z" />
+            <line x1="12" y1="9" x2="12" y2="13" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          {labels.title} ({warnings.length})
+        </span>
+        <svg className="h-4 w-4 shrink-0 transition-transform duration-200 group-open:rotate-180" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+          <polyline points="6 9 12 15 18 9" />
+        </svg>
+      </summary>
+
+      <div className="overflow-x-auto border-t border-amber-200 px-5 py-4 dark:border-amber-800">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="border-b border-amber-200 text-amber-700 dark:border-amber-800 dark:text-amber-400">
+              <th className="py-1.5 pr-3 font-medium">{labels.offset}</th>
+              <th className="py-1.5 pr-3 font-medium">{labels.attribute}</th>
+              <th className="py-1.5 font-medium">{labels.reason}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-amber-100 dark:divide-amber-900">
+            {warnings.map((w, i) => (
+              <tr key={i} className="align-top text-gray-700 dark:text-gray-300">
+                <td className="whitespace-nowrap py-1.5 pr-3 font-mono">
+                  {formatHex(w.offset, 8)}
+                  {w.depth > 0 && <span className="text-gray-400 dark:text-gray-500"> ({'›'.repeat(w.depth)})</span>}
+                </td>
+                <td className="whitespace-nowrap py-1.5 pr-3 font-mono">
+                  {w.level ? `L${w.level} ${formatHex(w.attrId, 4)}` : '—'}
+                </td>
+                <td className="py-1.5 break-words">{w.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,68 @@
+import type { TrackingPixel, TrackerReason } from '../../lib/email-html';
+
+interface RemoteContentNoticeProps {
+  remoteCount: number;
+  trackers: TrackingPixel[];
+  /** Remote content is currently loaded */
+  allowed: boolean;
+  onAllow: () => void;
+  labels: {
+    /** Shown while remote content is blocked; {count} is replaced with the number of resources found, a lower bound */
+    blocked: string;
+    load: string;
+    trackers: string;
+    tiny: string;
+    knownHost: string;
+    uniqueId: string;
+  };
+}
+
+export default function RemoteContentNotice({ remoteCount, trackers, allowed, onAllow, labels }: RemoteContentNoticeProps) {
+  if (remoteCount === 0 || (allowed && trackers.length === 0)) return null;
+
+  const reasonLabels: Record<TrackerReason, string> = {
+    tiny: labels.tiny,
+    'known-host': labels.knownHost,
+    'unique-id': labels.uniqueId,
+  };
+
+  return (
+    <div className="border-b border-gray-200 bg-gray-50 px-5 py-3 text-sm dark:border-gray-700 dark:bg-gray-900/40">
+      {!allowed && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <svg className="h-4 w-4 shrink-0 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+              <path d="M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z" />
+            </svg>
+            {labels.blocked.replace('{count}', String(remoteCount))}
+          </span>
+          <button
+            onClick={onAllow}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-white dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+          >
+            {labels.load}
+          </button>
+        </div>
+      )}
+
+      {trackers.length > 0 && (
+        <details className={`group ${allowed ? '' : 'mt-2'}`}>
+          <summary className="cursor-pointer select-none text-xs font-medium text-amber-700 dark:text-amber-400">
+            {labels.trackers} ({trackers.length})
+          </summary>
+          <ul className="mt-2 space-y-1 text-xs">
+            {trackers.map((tracker, i) => (
+              <li key={i} className="flex flex-wrap items-baseline gap-x-2 text-gray-600 dark:text-gray-400">
+                <span className="font-mono text-gray-800 dark:text-gray-200">{tracker.host}</span>
+                <span>{tracker.reasons.map((r) => reasonLabels[r]).join(', ')}</span>
+                <span className="min-w-0 flex-1 truncate font-mono text-gray-400 dark:text-gray-500" title={tracker.url}>
+                  {tracker.url}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
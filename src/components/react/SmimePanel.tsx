@@ -0,0 +1,235 @@
+import { useState, useCallback, type ReactNode } from 'react';
+import { SmimeError, type SmimeLayer, type SignerResult, type CertificateInfo } from '../../lib/smime';
+
+interface SmimePanelProps {
+  /** Outermost layer first */
+  layers: SmimeLayer[];
+  /** The innermost layer is encrypted and has not been decrypted yet */
+  locked: boolean;
+  /** Decrypt the innermost layer; rejects with SmimeError when the key file does not fit */
+  onDecrypt: (pkcs12: Uint8Array, password: string) => Promise<void>;
+  labels: {
+    signed: string;
+    opaque: string;
+    signatureValid: string;
+    signatureInvalid: string;
+    unverified: string;
+    signingTime: string;
+    chain: string;
+    issuer: string;
+    validity: string;
+    expired: string;
+    notYetValid: string;
+    issuerVerified: string;
+    issuerInvalid: string;
+    issuerUnknown: string;
+    selfSigned: string;
+    untrusted: string;
+    /** {cipher} is replaced with the content cipher */
+    encrypted: string;
+    recipients: string;
+    decrypted: string;
+    keyFile: string;
+    password: string;
+    decrypt: string;
+    decrypting: string;
+    localOnly: string;
+    wrongPassword: string;
+    noMatchingKey: string;
+    unsupported: string;
+    decryptFailed: string;
+  };
+}
+
+const BADGE = {
+  good: 'bg-green-100 text-green-700 dark:bg-green-900/60 dark:text-green-300',
+  bad: 'bg-red-100 text-red-700 dark:bg-red-900/60 dark:text-red-300',
+  warn: 'bg-amber-100 text-amber-700 dark:bg-amber-900/60 dark:text-amber-300',
+  neutral: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+function Badge({ tone, children }: { tone: keyof typeof BADGE; children: ReactNode }) {
+  return <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${BADGE[tone]}`}>{children}</span>;
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString() : '?';
+}
+
+function CertificateRow({ cert, labels }: { cert: CertificateInfo; labels: SmimePanelProps['labels'] }) {
+  const now = Date.now();
+  const expired = cert.notAfter !== null && cert.notAfter.getTime() < now;
+  const notYetValid = cert.notBefore !== null && cert.notBefore.getTime() > now;
+  return (
+    <li className="rounded-lg border border-gray-100 p-3 dark:border-gray-700">
+      <p className="font-mono text-xs font-medium text-gray-900 dark:text-white break-all">{cert.subject}</p>
+      {cert.emails.length > 0 && <p className="mt-0.5 text-xs text-gray-600 dark:text-gray-300 break-all">{cert.emails.join(', ')}</p>}
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        <dt className="text-gray-500 dark:text-gray-400">{labels.issuer}</dt>
+        <dd className="font-mono text-gray-700 dark:text-gray-300 break-all">{cert.issuer}</dd>
+        <dt className="text-gray-500 dark:text-gray-400">{labels.validity}</dt>
+        <dd className="flex flex-wrap items-center gap-2 text-gray-700 dark:text-gray-300">
+          {formatDate(cert.notBefore)} – {formatDate(cert.notAfter)}
+          {expired && <Badge tone="warn">{labels.expired}</Badge>}
+          {notYetValid && <Badge tone="warn">{labels.notYetValid}</Badge>}
+        </dd>
+      </dl>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {cert.issuerSignatureValid === true && <Badge tone="good">{labels.issuerVerified}</Badge>}
+        {cert.issuerSignatureValid === false && <Badge tone="bad">{labels.issuerInvalid}</Badge>}
+        {cert.issuerSignatureValid === null && <Badge tone="neutral">{labels.issuerUnknown}</Badge>}
+        {cert.selfSigned && <Badge tone="neutral">{labels.selfSigned}</Badge>}
+      </div>
+    </li>
+  );
+}
+
+function SignerBlock({ signer, labels }: { signer: SignerResult; labels: SmimePanelProps['labels'] }) {
+  const cert = signer.chain[0];
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+        {signer.valid === true && <Badge tone="good">{labels.signatureValid}</Badge>}
+        {signer.valid === false && <Badge tone="bad">{labels.signatureInvalid}</Badge>}
+        {signer.valid === null && <Badge tone="warn">{labels.unverified}</Badge>}
+        {cert && <span className="font-medium text-gray-900 dark:text-white break-all">{cert.subject}</span>}
+      </div>
+      {signer.error && <p className="text-xs text-red-600 dark:text-red-400">{signer.error}</p>}
+      {signer.signingTime && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {labels.signingTime}: {signer.signingTime.toLocaleString()}
+        </p>
+      )}
+      {signer.chain.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-xs font-medium text-gray-600 dark:text-gray-300">
+            {labels.chain} ({signer.chain.length})
+          </summary>
+          <ol className="mt-2 space-y-2">
+            {signer.chain.map((c, i) => (
+              <CertificateRow key={i} cert={c} labels={labels} />
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default function SmimePanel({ layers, locked, onDecrypt, labels }: SmimePanelProps) {
+  const [keyFile, setKeyFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDecrypt = useCallback(async () => {
+    if (!keyFile) return;
+    setError(null);
+    setIsDecrypting(true);
+    try {
+      await onDecrypt(new Uint8Array(await keyFile.arrayBuffer()), password);
+    } catch (e) {
+      if (e instanceof SmimeError) {
+        setError(
+          e.reason === 'wrong-password'
+            ? labels.wrongPassword
+            : e.reason === 'no-matching-key'
+              ? labels.noMatchingKey
+              : `${labels.unsupported}: ${e.message}`,
+        );
+      } else {
+        setError(labels.decryptFailed);
+      }
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [keyFile, password, onDecrypt, labels]);
+
+  const hasSignature = layers.some((layer) => layer.type === 'signed');
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-5 space-y-4 dark:border-gray-700 dark:bg-gray-800">
+      {layers.map((layer, i) => {
+        if (layer.type === 'signed') {
+          return (
+            <div key={i}>
+              <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+                <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                  <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                </svg>
+                {labels.signed}
+                {layer.opaque && <Badge tone="neutral">{labels.opaque}</Badge>}
+              </h4>
+              {layer.signers.map((signer, j) => (
+                <SignerBlock key={j} signer={signer} labels={labels} />
+              ))}
+            </div>
+          );
+        }
+        const isLocked = locked && i === layers.length - 1;
+        return (
+          <div key={i}>
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+              <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+                <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+              </svg>
+              {labels.encrypted.replace('{cipher}', layer.cipher)}
+              {!isLocked && <Badge tone="good">{labels.decrypted}</Badge>}
+            </h4>
+            {layer.recipients.length > 0 && (
+              <details className="mt-2">
+                <summary className="cursor-pointer text-xs font-medium text-gray-600 dark:text-gray-300">
+                  {labels.recipients} ({layer.recipients.length})
+                </summary>
+                <ul className="mt-2 space-y-1">
+                  {layer.recipients.map((r, j) => (
+                    <li key={j} className="font-mono text-xs text-gray-600 dark:text-gray-300 break-all">
+                      {r.keyId ? `keyId ${r.keyId}` : `${r.issuer} · #${r.serialNumber}`}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {isLocked && (
+              <div className="mt-3 space-y-2">
+                <div className="flex flex-wrap items-end gap-3">
+                  <label className="block text-xs text-gray-500 dark:text-gray-400">
+                    {labels.keyFile}
+                    <input
+                      type="file"
+                      accept=".p12,.pfx"
+                      onChange={(e) => setKeyFile(e.target.files?.[0] ?? null)}
+                      className="mt-1 block text-xs text-gray-700 file:mr-2 file:rounded-lg file:border-0 file:bg-gray-100 file:px-3 file:py-1.5 file:text-xs file:font-medium dark:text-gray-300 dark:file:bg-gray-700 dark:file:text-gray-300"
+                    />
+                  </label>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400">
+                    {labels.password}
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleDecrypt()}
+                      autoComplete="off"
+                      className="mt-1 block rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+                    />
+                  </label>
+                  <button
+                    onClick={handleDecrypt}
+                    disabled={!keyFile || isDecrypting}
+                    className="inline-flex items-center gap-1 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                  >
+                    {isDecrypting ? labels.decrypting : labels.decrypt}
+                  </button>
+                </div>
+                {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+                <p className="text-xs text-gray-400 dark:text-gray-500">{labels.localOnly}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {hasSignature && <p className="text-xs text-gray-400 dark:text-gray-500">{labels.untrusted}</p>}
+    </div>
+  );
+}
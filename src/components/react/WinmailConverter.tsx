@@ -1,6 +1,27 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import FileDropZone from './FileDropZone';
-import { parseTnef, type TnefParseResult, type TnefAttachment } from '../../lib/tnef-parser';
+import RemoteContentNotice from './RemoteContentNotice';
+import MapiPropertyInspector from './MapiPropertyInspector';
+import ParsingIssues from './ParsingIssues';
+import MessageDetails from './MessageDetails';
+import AttachmentIcon from './AttachmentIcon';
+import {
+  buildMeetingIcs,
+  buildVcard,
+  buildTaskIcs,
+  buildEml,
+  ANSI_ENCODINGS,
+  type TnefParseResult,
+  type TnefEncodingSource,
+  type TnefAttachment,
+  type TnefRecipient,
+  type TnefMeeting,
+  type TnefContactAddress,
+  type TnefProgress,
+} from '../../lib/tnef-parser';
+import { parseTnefAsync } from '../../lib/tnef-parser/async';
+import { sanitizeEmailHtml, previewDocument, resolveCidUrls, type EmailHtml } from '../../lib/email-html';
+import { downloadBlob, titleFileName } from '../../lib/download';
 
 interface WinmailConverterProps {
   labels: {
@@ -14,14 +35,115 @@ interface WinmailConverterProps {
     errorParseFailed: string;
     subject: string;
     from: string;
+    to: string;
+    cc: string;
+    bcc: string;
+    sentDate: string;
+    receivedDate: string;
     bodyText: string;
     bodyHtml: string;
     attachments: string;
     noAttachments: string;
     noBody: string;
+    downloadRtf: string;
+    embeddedMessage: string;
+    openMessage: string;
+    back: string;
+    propertiesTitle: string;
+    propertiesMessage: string;
+    propertyTag: string;
+    propertyName: string;
+    propertyType: string;
+    propertyValue: string;
+    event: string;
+    eventCanceled: string;
+    eventWhen: string;
+    eventLocation: string;
+    eventOrganizer: string;
+    eventRepeats: string;
+    allDay: string;
+    repeatsDaily: string;
+    repeatsWeekly: string;
+    repeatsMonthly: string;
+    repeatsYearly: string;
+    downloadIcs: string;
+    contact: string;
+    contactCompany: string;
+    contactEmail: string;
+    contactPhone: string;
+    contactAddress: string;
+    contactBirthday: string;
+    contactWebPage: string;
+    phoneWork: string;
+    phoneHome: string;
+    phoneMobile: string;
+    phoneFax: string;
+    phoneOther: string;
+    addressWork: string;
+    addressHome: string;
+    addressOther: string;
+    downloadVcf: string;
+    task: string;
+    taskStart: string;
+    taskDue: string;
+    taskStatus: string;
+    taskProgress: string;
+    taskOwner: string;
+    taskNotStarted: string;
+    taskInProgress: string;
+    taskCompleted: string;
+    taskWaiting: string;
+    taskDeferred: string;
+    downloadTodo: string;
+    downloadEml: string;
+    inlineImages: string;
+    parsingIssues: string;
+    issueOffset: string;
+    issueAttribute: string;
+    issueReason: string;
+    details: string;
+    messageClass: string;
+    importance: string;
+    sensitivity: string;
+    priority: string;
+    messageId: string;
+    conversationTopic: string;
+    readReceipt: string;
+    deliveryReceipt: string;
+    transportHeaders: string;
+    copy: string;
+    copied: string;
+    yes: string;
+    no: string;
+    importanceLow: string;
+    importanceNormal: string;
+    importanceHigh: string;
+    sensitivityNone: string;
+    sensitivityPersonal: string;
+    sensitivityPrivate: string;
+    sensitivityConfidential: string;
+    priorityNonurgent: string;
+    priorityNormal: string;
+    priorityUrgent: string;
+    encoding: string;
+    encodingAuto: string;
+    encodingFromCodepage: string;
+    encodingDetected: string;
+    encodingDefault: string;
+    encodingHint: string;
     fileName: string;
     fileSize: string;
     parsing: string;
+    attachmentsFound: string;
+    files: string;
+    noSubject: string;
+    downloadEverything: string;
+    remoteBlocked: string;
+    loadRemote: string;
+    trackingPixels: string;
+    trackerTiny: string;
+    trackerKnownHost: string;
+    trackerUniqueId: string;
   };
 }
 
@@ -33,300 +155,1042 @@ function formatFileSize(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
 }
 
-function sanitizeHtml(html: string): string {
-  // Lazy import of DOMPurify would be ideal, but we need it synchronously
-  // Use a basic sanitizer as fallback; DOMPurify is loaded dynamically below
-  return html;
+/** Display name of a TextDecoder encoding label, e.g. windows-1252 → Windows-1252 */
+function encodingName(encoding: string): string {
+  if (encoding === 'shift_jis') return 'Shift_JIS';
+  if (encoding === 'big5') return 'Big5';
+  if (encoding.startsWith('windows-')) return `Windows-${encoding.slice(8)}`;
+  return encoding.toUpperCase();
+}
+
+function formatRecipients(recipients: TnefRecipient[]): string {
+  return recipients
+    .map((r) => (r.name && r.email && r.name !== r.email ? `${r.name} <${r.email}>` : r.name || r.email))
+    .filter(Boolean)
+    .join(', ');
+}
+
+function formatEventTime(meeting: TnefMeeting, allDayLabel: string): string {
+  if (!meeting.start) return '';
+  if (meeting.allDay) {
+    // All-day events are stored as local midnight, so show the date without a time
+    return `${meeting.start.toLocaleDateString()} (${allDayLabel})`;
+  }
+  const start = meeting.start.toLocaleString();
+  if (!meeting.end) return start;
+  const sameDay = meeting.start.toDateString() === meeting.end.toDateString();
+  return `${start} – ${sameDay ? meeting.end.toLocaleTimeString() : meeting.end.toLocaleString()}`;
+}
+
+/** Street, city line and country of an address, skipping empty parts */
+function formatAddress(a: TnefContactAddress): string {
+  const cityLine = [a.postalCode, a.city, a.region].filter(Boolean).join(' ');
+  return [a.poBox, a.street, cityLine, a.country].filter(Boolean).join('\n');
+}
+
+/** A file or folder name for the ZIP: no path separators or characters Windows rejects */
+function safeFileName(name: string, fallback: string): string {
+  const safe = name.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').substring(0, 100).replace(/[. ]+$/, '').trim();
+  return safe || fallback;
+}
+
+/** Make a name unique within a folder by numbering repeats before the extension: a.txt, a (2).txt */
+function uniqueName(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.substring(0, dot) : name;
+  const ext = dot > 0 ? name.substring(dot) : '';
+  let candidate = name;
+  // Compared case-insensitively, since Windows and macOS file systems are
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/** One dropped winmail.dat; files stay in the session until cleared */
+interface WinmailFile {
+  id: number;
+  name: string;
+  size: number;
+  /** Kept so that ANSI strings can be re-decoded with another encoding */
+  buffer: ArrayBuffer | null;
+  result: TnefParseResult | null;
+  error: string | null;
+  /** '' decodes ANSI strings with the encoding chosen by the parser */
+  encoding: string;
+  autoEncoding: { encoding: string; source: TnefEncodingSource } | null;
 }
 
 export default function WinmailConverter({ labels }: WinmailConverterProps) {
-  const [result, setResult] = useState<TnefParseResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [files, setFiles] = useState<WinmailFile[]>([]);
+  // The expanded file; only one message is shown in full at a time
+  const [activeId, setActiveId] = useState<number | null>(null);
+  // Attachment indices leading from the top-level message to the embedded message on screen
+  const [path, setPath] = useState<number[]>([]);
   const [isParsing, setIsParsing] = useState(false);
+  const [progress, setProgress] = useState<TnefProgress | null>(null);
+  // Position of the file being parsed within the current selection
+  const [queue, setQueue] = useState<{ current: number; total: number } | null>(null);
   const [showHtml, setShowHtml] = useState(false);
   const [sanitizedHtml, setSanitizedHtml] = useState('');
-  const iframeRef = useRef<HTMLIFrameElement>(null);
+  // Remote content is loaded only for the message it was allowed for
+  const [remoteAllowedFor, setRemoteAllowedFor] = useState<TnefParseResult | null>(null);
+  const [remoteReport, setRemoteReport] = useState<Pick<EmailHtml, 'remoteCount' | 'trackers'> | null>(null);
+  const nextIdRef = useRef(0);
 
-  // Sanitize HTML when result changes
-  useEffect(() => {
-    if (result?.bodyHtml) {
-      import('dompurify').then((mod) => {
-        const DOMPurify = mod.default;
-        const clean = DOMPurify.sanitize(result.bodyHtml, {
-          ALLOW_TAGS: [
-            'p', 'br', 'b', 'i', 'u', 'strong', 'em', 'a', 'ul', 'ol', 'li',
-            'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'thead', 'tbody',
-            'tr', 'td', 'th', 'div', 'span', 'img', 'blockquote', 'pre', 'code', 'hr',
-          ],
-          ALLOW_ATTR: ['href', 'src', 'alt', 'title', 'style', 'class', 'width', 'height', 'colspan', 'rowspan'],
-          FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'form', 'input'],
-        });
-        setSanitizedHtml(clean);
-      });
+  const active = files.find((f) => f.id === activeId) ?? null;
+  const result = active?.result ?? null;
+  const encoding = active?.encoding ?? '';
+  const autoEncoding = active?.autoEncoding ?? null;
+
+  // Chain of messages from the top level down to the one being viewed
+  const trail = useMemo(() => {
+    if (!result) return [];
+    const messages = [result];
+    for (const index of path) {
+      const nested = messages[messages.length - 1].attachments[index]?.embeddedMessage;
+      if (!nested) break;
+      messages.push(nested);
     }
-  }, [result?.bodyHtml]);
+    return messages;
+  }, [result, path]);
+  const message = trail.length > 0 ? trail[trail.length - 1] : null;
+
+  // Inline body images are listed apart from real attachments; indices are kept for navigation
+  const indexedAttachments = useMemo(
+    () => (message ? message.attachments.map((att, index) => ({ att, index })) : []),
+    [message],
+  );
+  const fileAttachments = indexedAttachments.filter(({ att }) => !att.inline);
+  const inlineImages = indexedAttachments.filter(({ att }) => att.inline);
+
+  const allowRemote = remoteAllowedFor !== null && remoteAllowedFor === message;
 
-  // Write sanitized HTML to sandbox iframe
+  // Sanitize HTML when the displayed message changes
   useEffect(() => {
-    if (showHtml && sanitizedHtml && iframeRef.current) {
-      const doc = iframeRef.current.contentDocument;
-      if (doc) {
-        doc.open();
-        doc.write(`<!DOCTYPE html><html><head><meta charset="utf-8"><style>
-          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; font-size: 14px; color: #333; padding: 16px; margin: 0; line-height: 1.6; }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-          table { border-collapse: collapse; } td, th { border: 1px solid #ddd; padding: 4px 8px; }
-        </style></head><body>${sanitizedHtml}</body></html>`);
-        doc.close();
+    if (message?.bodyHtml) {
+      // Blob URLs for cid: images are created after sanitizing, since DOMPurify rejects blob: URLs
+      const cidUrls = new Map<string, string>();
+      for (const att of message.attachments) {
+        if (att.contentId && !att.embeddedMessage) {
+          cidUrls.set(att.contentId.toLowerCase(), URL.createObjectURL(new Blob([att.data.slice()], { type: att.mimeType })));
+        }
       }
+      let cancelled = false;
+      sanitizeEmailHtml(message.bodyHtml, { allowRemote }).then((clean) => {
+        if (cancelled) return;
+        setSanitizedHtml(resolveCidUrls(clean.html, cidUrls));
+        setRemoteReport({ remoteCount: clean.remoteCount, trackers: clean.trackers });
+      });
+      return () => {
+        cancelled = true;
+        cidUrls.forEach((url) => URL.revokeObjectURL(url));
+      };
     }
-  }, [showHtml, sanitizedHtml]);
+  }, [message, allowRemote]);
+
 
+  const openFile = useCallback((file: WinmailFile) => {
+    if (!file.result) return;
+    setActiveId(file.id);
+    setPath([]);
+    setSanitizedHtml('');
+    // HTML-only bodies (e.g. de-encapsulated from RTF) open on the HTML view
+    setShowHtml(!file.result.body && !!file.result.bodyHtml);
+  }, []);
+
+  // Files are parsed one after another and added to the session; the first one opens if none is open
   const handleFilesSelected = useCallback(
-    async (files: File[]) => {
-      const file = files[0];
-      if (!file) return;
-
-      setError(null);
-      setResult(null);
-      setShowHtml(false);
-      setSanitizedHtml('');
+    async (selected: File[]) => {
+      if (selected.length === 0) return;
       setIsParsing(true);
+      let opened = activeId !== null;
 
-      try {
-        const buffer = await file.arrayBuffer();
-        const parsed = parseTnef(buffer);
-        setResult(parsed);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : '';
-        if (message.includes('Not a valid TNEF')) {
-          setError(labels.errorNotTnef);
-        } else {
-          setError(labels.errorParseFailed);
+      for (let i = 0; i < selected.length; i++) {
+        const file = selected[i];
+        setQueue({ current: i + 1, total: selected.length });
+        setProgress(null);
+        const entry: WinmailFile = {
+          id: nextIdRef.current++,
+          name: file.name,
+          size: file.size,
+          buffer: null,
+          result: null,
+          error: null,
+          encoding: '',
+          autoEncoding: null,
+        };
+        try {
+          const buffer = await file.arrayBuffer();
+          const parsed = await parseTnefAsync(buffer, { validateChecksums: true, onProgress: setProgress });
+          entry.buffer = buffer;
+          entry.result = parsed;
+          entry.autoEncoding = { encoding: parsed.ansiEncoding, source: parsed.ansiEncodingSource };
+        } catch (err) {
+          const message = err instanceof Error ? err.message : '';
+          entry.error = message.includes('Not a valid TNEF') ? labels.errorNotTnef : labels.errorParseFailed;
+        }
+        setFiles((prev) => [...prev, entry]);
+        if (!opened && entry.result) {
+          openFile(entry);
+          opened = true;
         }
-      } finally {
-        setIsParsing(false);
       }
+
+      setQueue(null);
+      setIsParsing(false);
     },
-    [labels],
+    [labels, activeId, openFile],
   );
 
+  // Re-decode the legacy ANSI strings; the message structure is unchanged, so the current path stays valid
+  const handleEncodingChange = useCallback(async (value: string) => {
+    if (!active?.buffer) return;
+    const { id, buffer } = active;
+    const update = (changes: Partial<WinmailFile>) =>
+      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+    update({ encoding: value });
+    setIsParsing(true);
+    setProgress(null);
+    try {
+      update({
+        result: await parseTnefAsync(buffer, {
+          validateChecksums: true,
+          ansiEncoding: value || undefined,
+          onProgress: setProgress,
+        }),
+      });
+    } catch {
+      update({ error: labels.errorParseFailed });
+    } finally {
+      setIsParsing(false);
+    }
+  }, [active, labels]);
+
   const handleDownloadAttachment = useCallback((attachment: TnefAttachment) => {
     const blob = new Blob([attachment.data], { type: attachment.mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = attachment.name;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, attachment.name);
   }, []);
 
   const handleDownloadAll = useCallback(async () => {
-    if (!result || result.attachments.length === 0) return;
+    if (!message || message.attachments.length === 0) return;
+
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+
+    const names = new Set<string>();
+    for (const att of message.attachments) {
+      // Keep the attachment's original modification time on the ZIP entry
+      zip.file(uniqueName(safeFileName(att.name, 'attachment'), names), att.data, att.modifiedDate ? { date: att.modifiedDate } : undefined);
+    }
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, 'winmail-attachments.zip');
+  }, [message]);
+
+  // One folder per message, named after its subject, with the message as .eml and its attachments
+  const handleDownloadEverything = useCallback(async () => {
+    const parsed = files.filter((f) => f.result);
+    if (parsed.length === 0) return;
 
     const JSZip = (await import('jszip')).default;
     const zip = new JSZip();
 
-    for (const att of result.attachments) {
-      zip.file(att.name, att.data);
+    const folders = new Set<string>();
+    for (const file of parsed) {
+      const m = file.result!;
+      const fileStem = file.name.replace(/\.[^.]*$/, '');
+      const folderName = uniqueName(safeFileName(m.subject || fileStem, 'message'), folders);
+      const folder = zip.folder(folderName)!;
+      const names = new Set<string>();
+      folder.file(uniqueName(`${folderName}.eml`, names), buildEml(m), m.sentDate ? { date: m.sentDate } : undefined);
+      for (const att of m.attachments) {
+        folder.file(uniqueName(safeFileName(att.name, 'attachment'), names), att.data, att.modifiedDate ? { date: att.modifiedDate } : undefined);
+      }
     }
 
     const zipBlob = await zip.generateAsync({ type: 'blob' });
-    const url = URL.createObjectURL(zipBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'winmail-attachments.zip';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [result]);
+    downloadBlob(zipBlob, 'winmail-messages.zip');
+  }, [files]);
+
+  const handleDownloadRtf = useCallback(() => {
+    if (!message?.bodyRtf) return;
+
+    const blob = new Blob([message.bodyRtf], { type: 'application/rtf' });
+    downloadBlob(blob, titleFileName(message.subject, '.rtf', 'message.rtf'));
+  }, [message]);
+
+  const handleDownloadEml = useCallback(() => {
+    if (!message) return;
+
+    const blob = new Blob([buildEml(message)], { type: 'message/rfc822' });
+    downloadBlob(blob, titleFileName(message.subject, '.eml', 'message.eml'));
+  }, [message]);
+
+  const handleDownloadIcs = useCallback(() => {
+    if (!message?.meeting) return;
+
+    const blob = new Blob([buildMeetingIcs(message.meeting)], { type: 'text/calendar;charset=utf-8' });
+    downloadBlob(blob, titleFileName(message.subject, '.ics', 'event.ics'));
+  }, [message]);
+
+  const handleDownloadVcf = useCallback(() => {
+    if (!message?.contact) return;
+
+    const blob = new Blob([buildVcard(message.contact)], { type: 'text/vcard;charset=utf-8' });
+    downloadBlob(blob, titleFileName(message.contact.displayName || message.subject, '.vcf', 'contact.vcf'));
+  }, [message]);
+
+  const handleDownloadTodo = useCallback(() => {
+    if (!message?.task) return;
+
+    const blob = new Blob([buildTaskIcs(message.task)], { type: 'text/calendar;charset=utf-8' });
+    downloadBlob(blob, titleFileName(message.subject, '.ics', 'task.ics'));
+  }, [message]);
+
+  const navigateTo = useCallback((nextPath: number[], target: TnefParseResult) => {
+    setPath(nextPath);
+    setSanitizedHtml('');
+    setShowHtml(!target.body && !!target.bodyHtml);
+  }, []);
 
   const handleClear = useCallback(() => {
-    setResult(null);
-    setError(null);
+    setFiles([]);
+    setActiveId(null);
+    setPath([]);
     setShowHtml(false);
     setSanitizedHtml('');
   }, []);
 
-  return (
-    <div className="space-y-6">
-      {/* Drop zone */}
-      <FileDropZone
-        multiple={false}
-        onFilesSelected={handleFilesSelected}
-        title={labels.dropTitle}
-        description={labels.dropDescription}
-        hint={labels.dropHint}
-        disabled={isParsing}
+  // Full view of the expanded message, shown inside its file's card
+  const messageView = message && (
+    <div className="space-y-4">
+      {/* Embedded message navigation */}
+      {trail.length > 1 && (
+        <nav className="flex flex-wrap items-center gap-2 text-sm">
+          <button
+            onClick={() => navigateTo(path.slice(0, -1), trail[trail.length - 2])}
+            className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+          >
+            <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+              <polyline points="15 18 9 12 15 6" />
+            </svg>
+            {labels.back}
+          </button>
+          {trail.map((m, depth) => (
+            <span key={depth} className="inline-flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              {depth > 0 && <span>/</span>}
+              {depth < trail.length - 1 ? (
+                <button
+                  onClick={() => navigateTo(path.slice(0, depth), m)}
+                  className="max-w-[16rem] truncate text-primary-600 hover:underline dark:text-primary-400"
+                >
+                  {m.subject || labels.embeddedMessage}
+                </button>
+              ) : (
+                <span className="max-w-[16rem] truncate font-medium text-gray-900 dark:text-white">
+                  {m.subject || labels.embeddedMessage}
+                </span>
+              )}
+            </span>
+          ))}
+        </nav>
+      )}
+
+      {/* Damaged or unsupported data found while parsing */}
+      <ParsingIssues
+        warnings={message.warnings}
+        labels={{
+          title: labels.parsingIssues,
+          offset: labels.issueOffset,
+          attribute: labels.issueAttribute,
+          reason: labels.issueReason,
+        }}
       />
 
-      {/* Parsing indicator */}
-      {isParsing && (
-        <div className="flex items-center justify-center gap-2 py-8 text-primary-600 dark:text-primary-400">
-          <svg className="h-5 w-5 animate-spin" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-          </svg>
-          <span className="text-sm font-medium">{labels.parsing}</span>
+      {/* Encoding of legacy ANSI strings */}
+      {autoEncoding && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+          <label htmlFor="winmail-encoding" className="font-medium text-gray-700 dark:text-gray-300">
+            {labels.encoding}
+          </label>
+          <select
+            id="winmail-encoding"
+            value={encoding}
+            disabled={isParsing}
+            onChange={(e) => handleEncodingChange(e.target.value)}
+            className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300"
+          >
+            <option value="">
+              {labels.encodingAuto} ({encodingName(autoEncoding.encoding)}, {{
+                override: labels.encodingAuto,
+                codepage: labels.encodingFromCodepage,
+                detected: labels.encodingDetected,
+                default: labels.encodingDefault,
+              }[autoEncoding.source]})
+            </option>
+            {ANSI_ENCODINGS.map((e) => (
+              <option key={e} value={e}>{encodingName(e)}</option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-400 dark:text-gray-500">{labels.encodingHint}</span>
         </div>
       )}
 
-      {/* Error */}
-      {error && (
-        <div className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950/50">
-          <div className="flex items-center gap-2 text-red-700 dark:text-red-400">
-            <svg className="h-5 w-5 shrink-0" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
-              <circle cx="12" cy="12" r="10" />
-              <line x1="15" y1="9" x2="9" y2="15" />
-              <line x1="9" y1="9" x2="15" y2="15" />
-            </svg>
-            <p className="text-sm font-medium">{error}</p>
+      {/* Email metadata */}
+      <div className="rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+        {message.subject && (
+          <div className="mb-3">
+            <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.subject}</span>
+            <p className="mt-0.5 text-base font-semibold text-gray-900 dark:text-white">{message.subject}</p>
+          </div>
+        )}
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {message.from && (
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.from}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{message.from}</p>
+            </div>
+          )}
+          {message.to.length > 0 && (
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.to}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{formatRecipients(message.to)}</p>
+            </div>
+          )}
+          {message.cc.length > 0 && (
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.cc}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{formatRecipients(message.cc)}</p>
+            </div>
+          )}
+          {message.bcc.length > 0 && (
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.bcc}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{formatRecipients(message.bcc)}</p>
+            </div>
+          )}
+          {message.sentDate && (
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.sentDate}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.sentDate.toLocaleString()}</p>
+            </div>
+          )}
+          {message.receivedDate && (
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.receivedDate}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.receivedDate.toLocaleString()}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Meeting / appointment */}
+      {message.meeting && (
+        <div className="rounded-xl border border-primary-200 bg-primary-50/50 p-5 dark:border-primary-900 dark:bg-primary-950/30">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <svg className="h-5 w-5 text-primary-600 dark:text-primary-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <rect x="3" y="4" width="18" height="18" rx="2" />
+                <line x1="16" y1="2" x2="16" y2="6" />
+                <line x1="8" y1="2" x2="8" y2="6" />
+                <line x1="3" y1="10" x2="21" y2="10" />
+              </svg>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                {labels.event}
+                {message.meeting.method === 'CANCEL' && (
+                  <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700 dark:bg-red-950 dark:text-red-400">
+                    {labels.eventCanceled}
+                  </span>
+                )}
+              </h3>
+            </div>
+            <button
+              onClick={handleDownloadIcs}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+            >
+              <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="7 10 12 15 17 10" />
+                <line x1="12" y1="15" x2="12" y2="3" />
+              </svg>
+              {labels.downloadIcs}
+            </button>
+          </div>
+          <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {message.meeting.start && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventWhen}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{formatEventTime(message.meeting, labels.allDay)}</p>
+              </div>
+            )}
+            {message.meeting.location && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventLocation}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{message.meeting.location}</p>
+              </div>
+            )}
+            {message.meeting.organizer && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventOrganizer}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">
+                  {formatRecipients([{ ...message.meeting.organizer, addressType: '', type: 'to' }])}
+                </p>
+              </div>
+            )}
+            {message.meeting.recurrence && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.eventRepeats}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">
+                  {{
+                    DAILY: labels.repeatsDaily,
+                    WEEKLY: labels.repeatsWeekly,
+                    MONTHLY: labels.repeatsMonthly,
+                    YEARLY: labels.repeatsYearly,
+                  }[message.meeting.recurrence.frequency]}
+                  {message.meeting.recurrence.interval > 1 && ` ×${message.meeting.recurrence.interval}`}
+                  {message.meeting.recurrence.byDay.length > 0 && ` · ${message.meeting.recurrence.byDay.join(', ')}`}
+                </p>
+              </div>
+            )}
           </div>
         </div>
       )}
 
-      {/* Results */}
-      {result && (
-        <div className="space-y-4">
-          {/* Email metadata */}
-          <div className="rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
-            {result.subject && (
-              <div className="mb-3">
-                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.subject}</span>
-                <p className="mt-0.5 text-base font-semibold text-gray-900 dark:text-white">{result.subject}</p>
+      {/* Contact (IPM.Contact) */}
+      {message.contact && (
+        <div className="rounded-xl border border-primary-200 bg-primary-50/50 p-5 dark:border-primary-900 dark:bg-primary-950/30">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <svg className="h-5 w-5 text-primary-600 dark:text-primary-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path d="M19 21v-2a4 4 0 0 0-4-4H9a4 4 0 0 0-4 4v2" />
+                <circle cx="12" cy="7" r="4" />
+              </svg>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                {labels.contact}
+                {message.contact.displayName && (
+                  <span className="ml-2 font-normal text-gray-600 dark:text-gray-300">{message.contact.displayName}</span>
+                )}
+              </h3>
+            </div>
+            <button
+              onClick={handleDownloadVcf}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+            >
+              <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="7 10 12 15 17 10" />
+                <line x1="12" y1="15" x2="12" y2="3" />
+              </svg>
+              {labels.downloadVcf}
+            </button>
+          </div>
+          <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {(message.contact.company || message.contact.jobTitle) && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.contactCompany}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">
+                  {[message.contact.jobTitle, message.contact.department, message.contact.company].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+            )}
+            {message.contact.emails.length > 0 && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.contactEmail}</span>
+                {message.contact.emails.map((email) => (
+                  <p key={email} className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{email}</p>
+                ))}
+              </div>
+            )}
+            {message.contact.phones.length > 0 && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.contactPhone}</span>
+                {message.contact.phones.map((phone, i) => (
+                  <p key={i} className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">
+                    {phone.number}
+                    <span className="ml-1.5 text-xs text-gray-400 dark:text-gray-500">
+                      {{
+                        work: labels.phoneWork,
+                        main: labels.phoneWork,
+                        home: labels.phoneHome,
+                        mobile: labels.phoneMobile,
+                        'work-fax': labels.phoneFax,
+                        'home-fax': labels.phoneFax,
+                        pager: labels.phoneOther,
+                        car: labels.phoneOther,
+                        other: labels.phoneOther,
+                      }[phone.type]}
+                    </span>
+                  </p>
+                ))}
               </div>
             )}
-            {result.from && (
+            {message.contact.addresses.map((address) => (
+              <div key={address.type}>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">
+                  {labels.contactAddress} ({{
+                    work: labels.addressWork,
+                    home: labels.addressHome,
+                    other: labels.addressOther,
+                  }[address.type]})
+                </span>
+                <p className="mt-0.5 whitespace-pre-line text-sm text-gray-700 dark:text-gray-300">{formatAddress(address)}</p>
+              </div>
+            ))}
+            {message.contact.birthday && (
               <div>
-                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.from}</span>
-                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{result.from}</p>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.contactBirthday}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.contact.birthday.toLocaleDateString()}</p>
+              </div>
+            )}
+            {message.contact.webPage && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.contactWebPage}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{message.contact.webPage}</p>
               </div>
             )}
           </div>
+        </div>
+      )}
 
-          {/* Body */}
-          {(result.body || result.bodyHtml) && (
-            <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
-              {/* Tab headers */}
-              {result.body && result.bodyHtml && (
-                <div className="flex border-b border-gray-200 dark:border-gray-700">
-                  <button
-                    onClick={() => setShowHtml(false)}
-                    className={`px-4 py-2.5 text-sm font-medium transition-colors ${
-                      !showHtml
-                        ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
-                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
-                    }`}
-                  >
-                    {labels.bodyText}
-                  </button>
-                  <button
-                    onClick={() => setShowHtml(true)}
-                    className={`px-4 py-2.5 text-sm font-medium transition-colors ${
-                      showHtml
-                        ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
-                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
-                    }`}
-                  >
-                    {labels.bodyHtml}
-                  </button>
+      {/* Task (IPM.Task) */}
+      {message.task && (
+        <div className="rounded-xl border border-primary-200 bg-primary-50/50 p-5 dark:border-primary-900 dark:bg-primary-950/30">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <svg className="h-5 w-5 text-primary-600 dark:text-primary-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path d="M9 11l3 3L22 4" />
+                <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+              </svg>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{labels.task}</h3>
+            </div>
+            <button
+              onClick={handleDownloadTodo}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+            >
+              <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="7 10 12 15 17 10" />
+                <line x1="12" y1="15" x2="12" y2="3" />
+              </svg>
+              {labels.downloadTodo}
+            </button>
+          </div>
+          <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {message.task.start && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.taskStart}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.task.start.toLocaleDateString()}</p>
+              </div>
+            )}
+            {message.task.due && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.taskDue}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">{message.task.due.toLocaleDateString()}</p>
+              </div>
+            )}
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.taskStatus}</span>
+              <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300">
+                {{
+                  'not-started': labels.taskNotStarted,
+                  'in-progress': labels.taskInProgress,
+                  completed: labels.taskCompleted,
+                  waiting: labels.taskWaiting,
+                  deferred: labels.taskDeferred,
+                }[message.task.status]}
+              </p>
+            </div>
+            <div>
+              <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.taskProgress}</span>
+              <div className="mt-1.5 flex items-center gap-2">
+                <div className="h-1.5 w-32 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+                  <div className="h-full bg-primary-600" style={{ width: `${message.task.percentComplete}%` }} />
                 </div>
-              )}
-
-              <div className="p-5">
-                {!showHtml && result.body ? (
-                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
-                    {result.body}
-                  </pre>
-                ) : showHtml && sanitizedHtml ? (
-                  <iframe
-                    ref={iframeRef}
-                    sandbox="allow-popups"
-                    title="Email content"
-                    className="w-full min-h-[200px] rounded-lg border border-gray-100 bg-white dark:border-gray-600"
-                    style={{ height: '400px' }}
-                  />
-                ) : result.body ? (
-                  <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
-                    {result.body}
-                  </pre>
-                ) : (
-                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">{labels.noBody}</p>
-                )}
+                <span className="text-sm text-gray-700 dark:text-gray-300">{message.task.percentComplete}%</span>
               </div>
             </div>
+            {message.task.owner && (
+              <div>
+                <span className="text-xs font-medium uppercase text-gray-400 dark:text-gray-500">{labels.taskOwner}</span>
+                <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-300 break-all">{message.task.owner}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Body */}
+      {(message.body || message.bodyHtml) && (
+        <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+          {/* Tab headers */}
+          {message.body && message.bodyHtml && (
+            <div className="flex border-b border-gray-200 dark:border-gray-700">
+              <button
+                onClick={() => setShowHtml(false)}
+                className={`px-4 py-2.5 text-sm font-medium transition-colors ${
+                  !showHtml
+                    ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                }`}
+              >
+                {labels.bodyText}
+              </button>
+              <button
+                onClick={() => setShowHtml(true)}
+                className={`px-4 py-2.5 text-sm font-medium transition-colors ${
+                  showHtml
+                    ? 'border-b-2 border-primary-600 text-primary-600 dark:text-primary-400'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                }`}
+              >
+                {labels.bodyHtml}
+              </button>
+            </div>
           )}
 
-          {/* Attachments */}
-          <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
-            <div className="flex items-center justify-between border-b border-gray-200 px-5 py-3 dark:border-gray-700">
-              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
-                {labels.attachments} ({result.attachments.length})
-              </h3>
-              <div className="flex gap-2">
-                {result.attachments.length > 1 && (
+          {showHtml && sanitizedHtml && remoteReport && (
+            <RemoteContentNotice
+              remoteCount={remoteReport.remoteCount}
+              trackers={remoteReport.trackers}
+              allowed={allowRemote}
+              onAllow={() => setRemoteAllowedFor(message)}
+              labels={{
+                blocked: labels.remoteBlocked,
+                load: labels.loadRemote,
+                trackers: labels.trackingPixels,
+                tiny: labels.trackerTiny,
+                knownHost: labels.trackerKnownHost,
+                uniqueId: labels.trackerUniqueId,
+              }}
+            />
+          )}
+
+          <div className="p-5">
+            {!showHtml && message.body ? (
+              <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
+                {message.body}
+              </pre>
+            ) : showHtml && sanitizedHtml ? (
+              <iframe
+                srcDoc={previewDocument(sanitizedHtml, allowRemote)}
+                sandbox="allow-popups"
+                title="Email content"
+                className="w-full min-h-[200px] rounded-lg border border-gray-100 bg-white dark:border-gray-600"
+                style={{ height: '400px' }}
+              />
+            ) : message.body ? (
+              <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 leading-relaxed font-sans">
+                {message.body}
+              </pre>
+            ) : (
+              <p className="text-sm text-gray-400 dark:text-gray-500 italic">{labels.noBody}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Whole-message downloads */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDownloadEml}
+          className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+        >
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+            <rect x="2" y="4" width="20" height="16" rx="2" />
+            <path d="m22 7-8.97 5.7a1.94 1.94 0 0 1-2.06 0L2 7" />
+          </svg>
+          {labels.downloadEml}
+        </button>
+        {message.bodyRtf && (
+          <button
+            onClick={handleDownloadRtf}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8Z" />
+              <path d="M14 2v6h6" />
+              <path d="M16 13H8" />
+              <path d="M16 17H8" />
+              <path d="M10 9H8" />
+            </svg>
+            {labels.downloadRtf}
+          </button>
+        )}
+      </div>
+
+      {/* Attachments */}
+      <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+        <div className="flex items-center justify-between border-b border-gray-200 px-5 py-3 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+            {labels.attachments} ({fileAttachments.length})
+          </h3>
+          <div className="flex gap-2">
+            {message.attachments.length > 1 && (
+              <button
+                onClick={handleDownloadAll}
+                className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+              >
+                <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                  <polyline points="7 10 12 15 17 10" />
+                  <line x1="12" y1="15" x2="12" y2="3" />
+                </svg>
+                {labels.downloadAllZip}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {fileAttachments.length === 0 ? (
+          <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-gray-500">
+            {labels.noAttachments}
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {fileAttachments.map(({ att, index: i }) => (
+              <div key={i} className="flex items-center gap-3 px-5 py-3">
+                {/* Outlook's own icon for the attachment, or one for its file type */}
+                <AttachmentIcon attachment={att} ansiEncoding={message.ansiEncoding} />
+                {/* File info */}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-gray-900 dark:text-white">{att.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatFileSize(att.size)}
+                    {att.embeddedMessage && <> &middot; {labels.embeddedMessage}</>}
+                  </p>
+                </div>
+                {/* Open embedded message */}
+                {att.embeddedMessage && (
                   <button
-                    onClick={handleDownloadAll}
-                    className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 transition-colors"
+                    onClick={() => navigateTo([...path, i], att.embeddedMessage!)}
+                    className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
                   >
                     <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
-                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                      <polyline points="7 10 12 15 17 10" />
-                      <line x1="12" y1="15" x2="12" y2="3" />
+                      <rect x="2" y="4" width="20" height="16" rx="2" />
+                      <path d="m22 7-10 6L2 7" />
                     </svg>
-                    {labels.downloadAllZip}
+                    {labels.openMessage}
                   </button>
                 )}
+                {/* Download button */}
                 <button
-                  onClick={handleClear}
-                  className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+                  onClick={() => handleDownloadAttachment(att)}
+                  className="inline-flex items-center gap-1 rounded-lg bg-primary-50 px-3 py-1.5 text-xs font-medium text-primary-700 hover:bg-primary-100 dark:bg-primary-950 dark:text-primary-300 dark:hover:bg-primary-900 transition-colors"
                 >
-                  {labels.clearAll}
+                  <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                    <polyline points="7 10 12 15 17 10" />
+                    <line x1="12" y1="15" x2="12" y2="3" />
+                  </svg>
+                  {labels.download}
                 </button>
               </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Inline images referenced by the HTML body */}
+      {inlineImages.length > 0 && (
+        <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+          <div className="border-b border-gray-200 px-5 py-3 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {labels.inlineImages} ({inlineImages.length})
+            </h3>
+          </div>
+          <div className="flex flex-wrap gap-2 px-5 py-3">
+            {inlineImages.map(({ att, index }) => (
+              <button
+                key={index}
+                onClick={() => handleDownloadAttachment(att)}
+                title={att.contentId}
+                className="inline-flex max-w-full items-center gap-1.5 rounded-lg border border-gray-200 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+              >
+                <svg className="h-3.5 w-3.5 shrink-0 text-gray-400" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                  <rect x="3" y="3" width="18" height="18" rx="2" />
+                  <circle cx="9" cy="9" r="2" />
+                  <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21" />
+                </svg>
+                <span className="truncate">{att.name}</span>
+                <span className="shrink-0 text-gray-400 dark:text-gray-500">{formatFileSize(att.size)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Transport headers, importance, sensitivity and other envelope details */}
+      <MessageDetails
+        message={message}
+        labels={{
+          title: labels.details,
+          messageClass: labels.messageClass,
+          importance: labels.importance,
+          sensitivity: labels.sensitivity,
+          priority: labels.priority,
+          messageId: labels.messageId,
+          conversationTopic: labels.conversationTopic,
+          readReceipt: labels.readReceipt,
+          deliveryReceipt: labels.deliveryReceipt,
+          transportHeaders: labels.transportHeaders,
+          copy: labels.copy,
+          copied: labels.copied,
+          yes: labels.yes,
+          no: labels.no,
+          importanceLow: labels.importanceLow,
+          importanceNormal: labels.importanceNormal,
+          importanceHigh: labels.importanceHigh,
+          sensitivityNone: labels.sensitivityNone,
+          sensitivityPersonal: labels.sensitivityPersonal,
+          sensitivityPrivate: labels.sensitivityPrivate,
+          sensitivityConfidential: labels.sensitivityConfidential,
+          priorityNonurgent: labels.priorityNonurgent,
+          priorityNormal: labels.priorityNormal,
+          priorityUrgent: labels.priorityUrgent,
+        }}
+      />
+
+      {/* All MAPI properties (debugging aid) */}
+      <MapiPropertyInspector
+        sections={[
+          { title: labels.propertiesMessage, properties: message.properties },
+          ...message.attachments.map((att) => ({ title: att.name, properties: att.properties })),
+        ]}
+        labels={{
+          title: labels.propertiesTitle,
+          tag: labels.propertyTag,
+          name: labels.propertyName,
+          type: labels.propertyType,
+          value: labels.propertyValue,
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Drop zone */}
+      <FileDropZone
+        multiple
+        onFilesSelected={handleFilesSelected}
+        title={labels.dropTitle}
+        description={labels.dropDescription}
+        hint={labels.dropHint}
+        disabled={isParsing}
+      />
+
+      {/* Parsing progress */}
+      {isParsing && (
+        <div className="space-y-2 py-6">
+          <div className="flex flex-wrap items-baseline justify-between gap-2 text-sm">
+            <span className="font-medium text-primary-600 dark:text-primary-400">
+              {labels.parsing}
+              {queue && queue.total > 1 && ` (${queue.current}/${queue.total})`}
+              {progress && progress.totalBytes > 0 && ` ${Math.floor((progress.bytesProcessed / progress.totalBytes) * 100)}%`}
+            </span>
+            {progress && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatFileSize(progress.bytesProcessed)} / {formatFileSize(progress.totalBytes)}
+                {' · '}
+                {labels.attachmentsFound}: {progress.attachmentsFound}
+              </span>
+            )}
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+            <div
+              className="h-full rounded-full bg-primary-600 transition-[width] duration-200"
+              style={{ width: `${progress && progress.totalBytes > 0 ? (progress.bytesProcessed / progress.totalBytes) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* One collapsible card per file */}
+      {files.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {labels.files} ({files.length})
+            </h2>
+            <div className="flex gap-2">
+              {files.some((f) => f.result) && (
+                <button
+                  onClick={handleDownloadEverything}
+                  disabled={isParsing}
+                  className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                >
+                  <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                    <polyline points="7 10 12 15 17 10" />
+                    <line x1="12" y1="15" x2="12" y2="3" />
+                  </svg>
+                  {labels.downloadEverything}
+                </button>
+              )}
+              <button
+                onClick={handleClear}
+                disabled={isParsing}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 transition-colors"
+              >
+                {labels.clearAll}
+              </button>
             </div>
+          </div>
 
-            {result.attachments.length === 0 ? (
-              <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-gray-500">
-                {labels.noAttachments}
-              </div>
-            ) : (
-              <div className="divide-y divide-gray-100 dark:divide-gray-700">
-                {result.attachments.map((att, i) => (
-                  <div key={i} className="flex items-center gap-3 px-5 py-3">
-                    {/* File type icon */}
-                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-gray-100 dark:bg-gray-700">
-                      <svg className="h-5 w-5 text-gray-400 dark:text-gray-500" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24">
-                        <path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z" />
-                        <path d="M14 2v4a2 2 0 0 0 2 2h4" />
-                      </svg>
-                    </div>
-                    {/* File info */}
-                    <div className="min-w-0 flex-1">
-                      <p className="truncate text-sm font-medium text-gray-900 dark:text-white">{att.name}</p>
-                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(att.size)}</p>
-                    </div>
-                    {/* Download button */}
-                    <button
-                      onClick={() => handleDownloadAttachment(att)}
-                      className="inline-flex items-center gap-1 rounded-lg bg-primary-50 px-3 py-1.5 text-xs font-medium text-primary-700 hover:bg-primary-100 dark:bg-primary-950 dark:text-primary-300 dark:hover:bg-primary-900 transition-colors"
-                    >
-                      <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
-                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                        <polyline points="7 10 12 15 17 10" />
-                        <line x1="12" y1="15" x2="12" y2="3" />
-                      </svg>
-                      {labels.download}
-                    </button>
+          {files.map((file) => {
+            const isOpen = file.id === activeId && !!message;
+            const attachmentNames = file.result ? file.result.attachments.filter((a) => !a.inline).map((a) => a.name) : [];
+            return (
+              <div
+                key={file.id}
+                className={`rounded-xl border bg-white dark:bg-gray-800 ${
+                  file.error ? 'border-red-200 dark:border-red-800' : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => (isOpen ? setActiveId(null) : openFile(file))}
+                  disabled={!file.result}
+                  aria-expanded={isOpen}
+                  className="flex w-full items-start gap-3 px-5 py-4 text-left disabled:cursor-default"
+                >
+                  <svg
+                    className={`mt-0.5 h-4 w-4 shrink-0 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''} ${file.result ? '' : 'invisible'}`}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    viewBox="0 0 24 24"
+                  >
+                    <polyline points="9 18 15 12 9 6" />
+                  </svg>
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm font-semibold text-gray-900 dark:text-white">
+                      {file.result ? file.result.subject || labels.noSubject : file.name}
+                    </span>
+                    {file.result ? (
+                      <>
+                        <span className="block truncate text-xs text-gray-500 dark:text-gray-400">
+                          {file.result.from && <>{file.result.from} &middot; </>}
+                          {file.name} &middot; {formatFileSize(file.size)}
+                        </span>
+                        {attachmentNames.length > 0 && !isOpen && (
+                          <span className="block mt-1 truncate text-xs text-gray-400 dark:text-gray-500">
+                            {labels.attachments} ({attachmentNames.length}): {attachmentNames.join(', ')}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="block text-xs font-medium text-red-700 dark:text-red-400">{file.error}</span>
+                    )}
+                  </span>
+                </button>
+                {isOpen && (
+                  <div className="border-t border-gray-200 p-5 dark:border-gray-700">
+                    {messageView}
                   </div>
-                ))}
+                )}
               </div>
-            )}
-          </div>
+            );
+          })}
         </div>
       )}
     </div>
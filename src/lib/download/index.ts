@@ -0,0 +1,23 @@
+/*
+ * Saving generated files from the browser: a temporary object URL clicked through a hidden link.
+ */
+
+/** Characters Windows and macOS do not allow in file names */
+const UNSAFE_FILE_NAME = /[<>:"/\\|?*]/g;
+
+/** Offer a blob to the user as a download named `filename` */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** A file name made from a message subject (or other title), or `fallback` when it is empty */
+export function titleFileName(title: string, extension: string, fallback: string): string {
+  return title ? title.replace(UNSAFE_FILE_NAME, '_').substring(0, 100) + extension : fallback;
+}
@@ -0,0 +1,279 @@
+/*
+ * DKIM (RFC 6376, RFC 8463) checked offline. The body hash needs nothing but the message; the header
+ * signature needs the signer's public key, which lives in DNS and has to be supplied by the caller.
+ * Messages are handled as binary strings (one char per byte) so canonicalization never re-encodes text.
+ */
+
+/** One DKIM-Signature header */
+export interface DkimSignature {
+  /** Position among the message's DKIM-Signature headers, top first */
+  index: number;
+  domain: string;
+  selector: string;
+  /** a= tag, e.g. rsa-sha256 */
+  algorithm: string;
+  headerCanonicalization: 'simple' | 'relaxed';
+  bodyCanonicalization: 'simple' | 'relaxed';
+  /** h= tag, in signing order */
+  signedHeaders: string[];
+  /** l= tag; only this many bytes of the canonicalized body are covered */
+  bodyLength: number | null;
+  /** i= tag, the agent or user identity; defaults to @domain */
+  identity: string;
+  timestamp: Date | null;
+  expiration: Date | null;
+  /** bh= tag, base64 */
+  bodyHash: string;
+  /** b= tag, base64 */
+  signature: string;
+}
+
+/** A signature and whether the body still matches its bh= */
+export interface DkimBodyCheck {
+  signature: DkimSignature;
+  /** null when the hash could not be computed (unsupported algorithm or malformed header) */
+  bodyHashMatches: boolean | null;
+  /** Base64 hash of the body as received, or '' */
+  computedBodyHash: string;
+  /** Why the body was not checked */
+  error: string;
+}
+
+/** A header field as it appears in the message, folding included */
+interface RawField {
+  name: string;
+  raw: string;
+}
+
+/** A message split into header fields and body, line endings normalized to CRLF */
+interface SplitMessage {
+  fields: RawField[];
+  body: string;
+}
+
+const HASH_BY_ALGORITHM: Record<string, 'SHA-256' | 'SHA-1'> = {
+  'rsa-sha256': 'SHA-256',
+  'rsa-sha1': 'SHA-1',
+  'ed25519-sha256': 'SHA-256',
+};
+
+/** ASN.1 prefix of a SubjectPublicKeyInfo for rsaEncryption, up to the BIT STRING contents */
+const RSA_ALGORITHM_ID = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+/**
+ * Parse every DKIM-Signature header and compare its bh= with the hash of the body as received.
+ * A mismatch means the body was changed after signing (or the signer's l= or canonicalization differs).
+ */
+export async function checkDkimBodies(message: Uint8Array): Promise<DkimBodyCheck[]> {
+  const { fields, body } = splitMessage(message);
+  const checks: DkimBodyCheck[] = [];
+  for (const [index, field] of dkimFields(fields).entries()) {
+    const signature = parseDkimSignature(fieldValue(field), index);
+    const hash = HASH_BY_ALGORITHM[signature.algorithm];
+    if (!hash) {
+      checks.push({ signature, bodyHashMatches: null, computedBodyHash: '', error: `Unsupported algorithm "${signature.algorithm}"` });
+      continue;
+    }
+    let canonical = canonicalizeBody(body, signature.bodyCanonicalization);
+    if (signature.bodyLength !== null) canonical = canonical.slice(0, signature.bodyLength);
+    const computedBodyHash = toBase64(await digest(hash, binaryBytes(canonical)));
+    checks.push({ signature, bodyHashMatches: computedBodyHash === signature.bodyHash, computedBodyHash, error: '' });
+  }
+  return checks;
+}
+
+/** The DNS name that holds a signature's public key */
+export function dkimKeyName(signature: DkimSignature): string {
+  return `${signature.selector}._domainkey.${signature.domain}`;
+}
+
+/**
+ * Verify the header signature of `signature` with a public key record pasted from DNS
+ * ("v=DKIM1; k=rsa; p=…", quoted TXT strings, or just the base64 key).
+ * Resolves to whether the signature matches; throws for unusable keys or algorithms.
+ */
+export async function verifyDkimSignature(message: Uint8Array, signature: DkimSignature, keyRecord: string): Promise<boolean> {
+  const hash = HASH_BY_ALGORITHM[signature.algorithm];
+  if (!hash) throw new Error(`Unsupported algorithm "${signature.algorithm}"`);
+  const key = parseKeyRecord(keyRecord);
+  const keyType = signature.algorithm.split('-')[0];
+  if (key.type !== keyType) throw new Error(`The key is ${key.type} but the signature uses ${signature.algorithm}`);
+
+  const { fields } = splitMessage(message);
+  const field = dkimFields(fields)[signature.index];
+  if (!field) throw new Error('Signature header not found');
+  const data = binaryBytes(signedHeaderData(fields, field, signature));
+  const sig = fromBase64(signature.signature);
+
+  if (keyType === 'ed25519') {
+    // RFC 8463: Ed25519 signs the SHA-256 hash of the header data rather than the data itself
+    const cryptoKey = await crypto.subtle.importKey('raw', key.data, { name: 'Ed25519' }, false, ['verify']);
+    return crypto.subtle.verify({ name: 'Ed25519' }, cryptoKey, sig, await digest('SHA-256', data));
+  }
+  const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash };
+  let cryptoKey: CryptoKey;
+  try {
+    cryptoKey = await crypto.subtle.importKey('spki', key.data, algorithm, false, ['verify']);
+  } catch {
+    // Some records publish a bare PKCS#1 RSAPublicKey instead of a SubjectPublicKeyInfo
+    cryptoKey = await crypto.subtle.importKey('spki', wrapPkcs1(key.data), algorithm, false, ['verify']);
+  }
+  return crypto.subtle.verify(algorithm, cryptoKey, sig, data);
+}
+
+/** Parse a tag=value list (DKIM signatures, key records, ARC-Seal) into lower-case tags */
+export function parseTagList(value: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const part of value.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    const name = part.slice(0, eq).trim().toLowerCase();
+    if (name && !tags.has(name)) tags.set(name, part.slice(eq + 1).replace(/\s+/g, ' ').trim());
+  }
+  return tags;
+}
+
+function parseDkimSignature(value: string, index: number): DkimSignature {
+  const tags = parseTagList(value);
+  const [headerCanon = 'simple', bodyCanon = 'simple'] = (tags.get('c') ?? 'simple/simple').toLowerCase().split('/');
+  const domain = tags.get('d') ?? '';
+  const seconds = (tag: string) => {
+    const n = Number(tags.get(tag));
+    return tags.has(tag) && Number.isFinite(n) ? new Date(n * 1000) : null;
+  };
+  const length = Number(tags.get('l'));
+  return {
+    index,
+    domain,
+    selector: tags.get('s') ?? '',
+    algorithm: (tags.get('a') ?? '').toLowerCase(),
+    headerCanonicalization: headerCanon === 'relaxed' ? 'relaxed' : 'simple',
+    bodyCanonicalization: bodyCanon === 'relaxed' ? 'relaxed' : 'simple',
+    signedHeaders: (tags.get('h') ?? '').split(':').map((h) => h.trim()).filter(Boolean),
+    bodyLength: tags.has('l') && Number.isInteger(length) && length >= 0 ? length : null,
+    identity: tags.get('i') ?? `@${domain}`,
+    timestamp: seconds('t'),
+    expiration: seconds('x'),
+    bodyHash: (tags.get('bh') ?? '').replace(/\s+/g, ''),
+    signature: (tags.get('b') ?? '').replace(/\s+/g, ''),
+  };
+}
+
+/** Parse a DNS key record into its key type and decoded p= */
+function parseKeyRecord(record: string): { type: string; data: Uint8Array<ArrayBuffer> } {
+  // TXT records are often copied as quoted strings: "v=DKIM1; k=rsa; " "p=MIIB…"
+  const text = record.replace(/"\s*"/g, '').replace(/"/g, '').trim();
+  const tags = text.includes('=') && /(?:^|;)\s*p\s*=/i.test(text) ? parseTagList(text) : new Map([['p', text]]);
+  const p = (tags.get('p') ?? '').replace(/\s+/g, '');
+  if (!p) throw new Error('The key record has no key (p= is empty, so the key was revoked)');
+  try {
+    return { type: (tags.get('k') ?? 'rsa').toLowerCase(), data: fromBase64(p) };
+  } catch {
+    throw new Error('The key is not valid base64');
+  }
+}
+
+/** The data covered by b=: the h= headers, then this DKIM-Signature with b= emptied and no final CRLF */
+function signedHeaderData(fields: RawField[], signatureField: RawField, signature: DkimSignature): string {
+  const canonicalize = signature.headerCanonicalization === 'relaxed' ? relaxedHeader : (f: RawField) => `${f.raw}\r\n`;
+  // Repeated names are taken bottom-up; a name listed more often than it occurs signs nothing
+  const used = new Set<RawField>();
+  let data = '';
+  for (const name of signature.signedHeaders) {
+    const lower = name.toLowerCase();
+    for (let i = fields.length - 1; i >= 0; i--) {
+      const field = fields[i];
+      if (field.name.toLowerCase() === lower && !used.has(field)) {
+        used.add(field);
+        data += canonicalize(field);
+        break;
+      }
+    }
+  }
+  // Empty the b= value (not bh=) in the tag list, keeping everything else byte for byte
+  const colon = signatureField.raw.indexOf(':');
+  const emptied: RawField = {
+    name: signatureField.name,
+    raw: signatureField.raw.slice(0, colon + 1) + fieldValue(signatureField).replace(/((?:^|;)\s*b\s*=)[^;]*/i, '$1'),
+  };
+  return data + canonicalize(emptied).replace(/\r\n$/, '');
+}
+
+function relaxedHeader(field: RawField): string {
+  const value = fieldValue(field).replace(/\r\n/g, '').replace(/[ \t]+/g, ' ').trim();
+  return `${field.name.trim().toLowerCase()}:${value}\r\n`;
+}
+
+/** RFC 6376 section 3.4.3 and 3.4.4 */
+function canonicalizeBody(body: string, mode: 'simple' | 'relaxed'): string {
+  if (mode === 'simple') return body.replace(/(?:\r\n)*$/, '') + '\r\n';
+  const relaxed = body
+    .split('\r\n')
+    .map((line) => line.replace(/[ \t]+$/, '').replace(/[ \t]+/g, ' '))
+    .join('\r\n')
+    .replace(/(?:\r\n)*$/, '');
+  return relaxed ? `${relaxed}\r\n` : '';
+}
+
+function splitMessage(message: Uint8Array): SplitMessage {
+  let text = '';
+  for (let i = 0; i < message.length; i += 0x8000) {
+    text += String.fromCharCode(...message.subarray(i, i + 0x8000));
+  }
+  text = text.replace(/\r?\n/g, '\r\n');
+  const end = text.indexOf('\r\n\r\n');
+  const head = end >= 0 ? text.slice(0, end) : text;
+  const body = end >= 0 ? text.slice(end + 4) : '';
+
+  const fields: RawField[] = [];
+  for (const line of head.split('\r\n')) {
+    if (/^[ \t]/.test(line) && fields.length > 0) {
+      fields[fields.length - 1].raw += `\r\n${line}`;
+    } else if (line.includes(':')) {
+      fields.push({ name: line.slice(0, line.indexOf(':')).trim(), raw: line });
+    }
+  }
+  return { fields, body };
+}
+
+function dkimFields(fields: RawField[]): RawField[] {
+  return fields.filter((f) => f.name.toLowerCase() === 'dkim-signature');
+}
+
+function fieldValue(field: RawField): string {
+  return field.raw.slice(field.raw.indexOf(':') + 1);
+}
+
+/** Wrap a PKCS#1 RSAPublicKey in a SubjectPublicKeyInfo */
+function wrapPkcs1(key: Uint8Array): Uint8Array<ArrayBuffer> {
+  const bitString = [0x03, ...derLength(key.length + 1), 0x00, ...key];
+  const body = [...RSA_ALGORITHM_ID, ...bitString];
+  return new Uint8Array([0x30, ...derLength(body.length), ...body]);
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+async function digest(hash: 'SHA-256' | 'SHA-1', data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await crypto.subtle.digest(hash, data));
+}
+
+function binaryBytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return binaryBytes(atob(text));
+}
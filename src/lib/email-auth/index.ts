@@ -0,0 +1,9 @@
+/*
+ * Email authentication: offline DKIM checks and a summary of the Authentication-Results,
+ * Received-SPF and ARC headers added by the servers that handled the message.
+ */
+
+export { checkDkimBodies, verifyDkimSignature, dkimKeyName } from './dkim';
+export type { DkimSignature, DkimBodyCheck } from './dkim';
+export { summarizeAuthentication, hasAuthentication } from './results';
+export type { AuthenticationSummary, AuthenticationResults, AuthMethodResult, ReceivedSpf, ArcSet } from './results';
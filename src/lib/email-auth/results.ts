@@ -0,0 +1,160 @@
+/*
+ * The verdicts receiving servers recorded in the message: Authentication-Results (RFC 8601),
+ * Received-SPF (RFC 7208 section 9.1) and the ARC headers (RFC 8617). These are claims made by
+ * whoever added them; only headers from a server you trust are meaningful.
+ */
+
+import { stripComments } from '../email-headers';
+import { parseTagList } from './dkim';
+
+/** One method=result entry, e.g. dkim=pass header.d=example.com */
+export interface AuthMethodResult {
+  method: string;
+  result: string;
+  /** reason= or the comment after the result */
+  reason: string;
+  /** ptype.property=value pairs such as header.from or smtp.mailfrom */
+  properties: { name: string; value: string }[];
+}
+
+/** A parsed Authentication-Results header */
+export interface AuthenticationResults {
+  /** The server that performed the checks */
+  authservId: string;
+  results: AuthMethodResult[];
+}
+
+/** A parsed Received-SPF header */
+export interface ReceivedSpf {
+  result: string;
+  comment: string;
+  properties: { name: string; value: string }[];
+}
+
+/** The three headers one ARC hop adds */
+export interface ArcSet {
+  /** i= tag; 1 for the first ARC-aware server */
+  instance: number;
+  /** cv= of the ARC-Seal: none, pass or fail */
+  chainValidation: string;
+  sealDomain: string;
+  signatureDomain: string;
+  /** The results that hop recorded */
+  results: AuthenticationResults | null;
+}
+
+/** Everything the message says about how it was authenticated */
+export interface AuthenticationSummary {
+  results: AuthenticationResults[];
+  spf: ReceivedSpf[];
+  /** Ordered by instance, first hop first */
+  arc: ArcSet[];
+}
+
+/** Summarize the authentication headers among `headers` (lower-case keys, as postal-mime gives them) */
+export function summarizeAuthentication(headers: { key: string; value: string }[]): AuthenticationSummary {
+  const values = (key: string) => headers.filter((h) => h.key === key).map((h) => h.value);
+
+  const arc = new Map<number, ArcSet>();
+  const arcSet = (value: string) => {
+    const instance = Number(parseTagList(value).get('i'));
+    if (!Number.isInteger(instance)) return null;
+    let set = arc.get(instance);
+    if (!set) {
+      set = { instance, chainValidation: '', sealDomain: '', signatureDomain: '', results: null };
+      arc.set(instance, set);
+    }
+    return set;
+  };
+  for (const value of values('arc-seal')) {
+    const set = arcSet(value);
+    const tags = parseTagList(value);
+    if (set) {
+      set.chainValidation = (tags.get('cv') ?? '').toLowerCase();
+      set.sealDomain = tags.get('d') ?? '';
+    }
+  }
+  for (const value of values('arc-message-signature')) {
+    const set = arcSet(value);
+    if (set) set.signatureDomain = parseTagList(value).get('d') ?? '';
+  }
+  for (const value of values('arc-authentication-results')) {
+    const set = arcSet(value);
+    // The i= tag comes first, then an ordinary Authentication-Results value
+    if (set) set.results = parseAuthenticationResults(value.slice(value.indexOf(';') + 1));
+  }
+
+  return {
+    results: values('authentication-results').map(parseAuthenticationResults),
+    spf: values('received-spf').map(parseReceivedSpf),
+    arc: [...arc.values()].sort((a, b) => a.instance - b.instance),
+  };
+}
+
+/** True when the summary has anything to show */
+export function hasAuthentication(summary: AuthenticationSummary): boolean {
+  return summary.results.length > 0 || summary.spf.length > 0 || summary.arc.length > 0;
+}
+
+/** Parse an Authentication-Results value: "authserv-id [version]; method=result prop=value; …" */
+export function parseAuthenticationResults(value: string): AuthenticationResults {
+  const [head = '', ...entries] = splitOutsideQuotes(value, ';');
+  const results: AuthMethodResult[] = [];
+  for (const entry of entries) {
+    const comment = /\(([^()]*)\)/.exec(entry)?.[1]?.trim() ?? '';
+    const tokens = tokenize(stripComments(entry));
+    const first = tokens.shift();
+    if (!first || !first.includes('=')) continue; // "none" or an empty entry
+    const [method, result] = splitPair(first);
+    let reason = comment;
+    const properties: AuthMethodResult['properties'] = [];
+    for (const token of tokens) {
+      const [name, propValue] = splitPair(token);
+      if (name.toLowerCase() === 'reason') reason = propValue;
+      else if (propValue) properties.push({ name, value: propValue });
+    }
+    results.push({ method: method.toLowerCase().replace(/\/\d+$/, ''), result: result.toLowerCase(), reason, properties });
+  }
+  return { authservId: tokenize(stripComments(head))[0] ?? '', results };
+}
+
+/** Parse a Received-SPF value: "result (comment) key=value; key=value" */
+export function parseReceivedSpf(value: string): ReceivedSpf {
+  const trimmed = value.trim();
+  const result = /^[A-Za-z]+/.exec(trimmed)?.[0].toLowerCase() ?? '';
+  const comment = /^[A-Za-z]+\s*\(([^()]*(?:\([^()]*\)[^()]*)*)\)/.exec(trimmed)?.[1]?.trim() ?? '';
+  const properties: ReceivedSpf['properties'] = [];
+  for (const token of tokenize(stripComments(trimmed.slice(result.length)).replace(/;/g, ' '))) {
+    const [name, propValue] = splitPair(token);
+    if (propValue) properties.push({ name, value: propValue });
+  }
+  return { result, comment, properties };
+}
+
+/** Split on `separator` where it is not inside a quoted string */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** Whitespace-separated tokens, keeping quoted strings together and unquoting them */
+function tokenize(text: string): string[] {
+  return (text.match(/(?:[^\s"]+|"[^"]*")+/g) ?? []).map((t) => t.replace(/"/g, ''));
+}
+
+function splitPair(token: string): [string, string] {
+  const eq = token.indexOf('=');
+  return eq < 0 ? [token, ''] : [token.slice(0, eq), token.slice(eq + 1)];
+}
@@ -0,0 +1,106 @@
+/*
+ * Reading the trace headers of an email. Every server that relays a message prepends a Received:
+ * header (RFC 5321 section 4.4), so the chain read bottom-up is the route the message took.
+ * The format is only loosely standardized; fields that cannot be found are left empty.
+ */
+
+/** One relay in the Received: chain */
+export interface ReceivedHop {
+  /** Host the message came from, as it introduced itself or as the receiving server resolved it */
+  from: string;
+  /** Server that received the message */
+  by: string;
+  /** Address of the sending host */
+  ip: string;
+  /** The "with" clause, e.g. ESMTPS, LMTP or HTTP */
+  protocol: string;
+  /** The hop was encrypted: a TLS protocol name, or TLS version or cipher details in a comment */
+  tls: boolean;
+  date: Date | null;
+  /** Seconds since the previous hop, or since the Date: header for the first hop; null when a time is missing */
+  delay: number | null;
+  /** This hop is stamped earlier than the one before it, so one of the two clocks is wrong */
+  clockSkew: boolean;
+  /** The message waited longer than LONG_DELAY_SECONDS before this hop */
+  longDelay: boolean;
+  /** Header value with folding removed */
+  raw: string;
+}
+
+/** Delay before a hop that is flagged as unusually long */
+export const LONG_DELAY_SECONDS = 5 * 60;
+
+/** "with" values of encrypted SMTP, LMTP and HTTP transfers (RFC 3848 and the mail-parameters registry) */
+const TLS_PROTOCOL = /^(?:E?SMTPSA?|UTF8SMTPSA?|LMTPSA?|UTF8LMTPSA?|HTTPS)$/i;
+
+/** TLS details some servers add as a comment, e.g. "(version=TLS1_3 cipher=TLS_AES_256_GCM_SHA384)" */
+const TLS_COMMENT = /\b(?:TLSv?1(?:[._]\d)?|version=TLS|cipher=|using TLS|over TLS)/i;
+
+/**
+ * Parse Received: header values, given in header order (newest first), into hops in the order the
+ * message travelled. `sentDate` is the Date: header, used to time the first hop.
+ */
+export function parseReceivedChain(values: string[], sentDate: Date | null = null): ReceivedHop[] {
+  const hops = values.map(parseReceived).reverse();
+  let previous = sentDate;
+  for (const hop of hops) {
+    if (hop.date && previous) {
+      hop.delay = Math.round((hop.date.getTime() - previous.getTime()) / 1000);
+      hop.clockSkew = hop.delay < 0;
+      hop.longDelay = hop.delay > LONG_DELAY_SECONDS;
+    }
+    if (hop.date) previous = hop.date;
+  }
+  return hops;
+}
+
+/** Fields of a single Received: header; timing is filled in by parseReceivedChain */
+function parseReceived(value: string): ReceivedHop {
+  const raw = value.replace(/\s+/g, ' ').trim();
+  // The timestamp follows the last semicolon; the clauses before it may contain comments
+  const semicolon = raw.lastIndexOf(';');
+  const clauses = semicolon >= 0 ? raw.slice(0, semicolon) : raw;
+  const bare = stripComments(clauses);
+
+  const clause = (name: string) => new RegExp(`(?:^|\\s)${name}\\s+([^\\s;]+)`, 'i').exec(bare)?.[1] ?? '';
+  const protocol = clause('with');
+
+  // The connecting address is in the from clause's comment, "from helo (rdns [192.0.2.1])";
+  // the name outside it is what the sender claimed and may itself be an address literal
+  const byIndex = clauses.search(/(?:^|\s)by\s/i);
+  const fromClause = byIndex >= 0 ? clauses.slice(0, byIndex) : clauses;
+  const fromComment = /\(([^()]*)\)/.exec(fromClause)?.[1] ?? '';
+  const ip = findIp(fromComment) || findIp(fromClause);
+
+  return {
+    from: clause('from'),
+    by: clause('by'),
+    ip,
+    protocol,
+    tls: TLS_PROTOCOL.test(protocol) || TLS_COMMENT.test(raw),
+    date: semicolon >= 0 ? parseDate(raw.slice(semicolon + 1)) : null,
+    delay: null,
+    clockSkew: false,
+    longDelay: false,
+    raw,
+  };
+}
+
+function findIp(text: string): string {
+  return /\[(?:IPv6:)?([0-9a-f:.]+)\]/i.exec(text)?.[1] ?? /\b(\d{1,3}(?:\.\d{1,3}){3})\b/.exec(text)?.[1] ?? '';
+}
+
+/** Remove (possibly nested) RFC 5322 comments */
+export function stripComments(text: string): string {
+  let out = text;
+  for (let previous = ''; previous !== out; ) {
+    previous = out;
+    out = out.replace(/\([^()]*\)/g, ' ');
+  }
+  return out;
+}
+
+function parseDate(text: string): Date | null {
+  const time = Date.parse(stripComments(text).trim());
+  return Number.isNaN(time) ? null : new Date(time);
+}
@@ -0,0 +1,50 @@
+import { previewDocument } from './index';
+
+/** A remote image of the kind tracking pixels use */
+const REMOTE_IMAGE = 'https://tracker.example/open.gif?id=5f2c9a7e1b3d4c6a8e0f';
+
+/**
+ * Check that the preview document blocks remote images unless remote content was allowed: its
+ * Content-Security-Policy must sit in the head and its img-src must not match a remote URL.
+ * Returns the problems found; an empty list means the preview is safe to show.
+ */
+export function checkPreviewBlocking(): string[] {
+  const problems: string[] = [];
+  const email = `<p>Hello</p><img src="${REMOTE_IMAGE}" width="1" height="1">`;
+
+  for (const allowRemote of [false, true]) {
+    const doc = previewDocument(email, allowRemote);
+    const csp = headCsp(doc);
+    if (csp === null) {
+      problems.push(`allowRemote=${allowRemote}: no Content-Security-Policy meta in the document head`);
+      continue;
+    }
+    const loads = allows(csp, 'img-src', REMOTE_IMAGE);
+    if (loads !== allowRemote) {
+      problems.push(`allowRemote=${allowRemote}: the remote image is ${loads ? 'allowed' : 'blocked'} by "${csp}"`);
+    }
+  }
+  return problems;
+}
+
+/** The policy of a CSP meta element in the head; a meta element in the body is ignored by browsers */
+function headCsp(doc: string): string | null {
+  const head = /<head>([\s\S]*?)<\/head>/i.exec(doc)?.[1] ?? '';
+  return /<meta http-equiv="Content-Security-Policy" content="([^"]*)">/i.exec(head)?.[1] ?? null;
+}
+
+/** Whether a fetch of `url` passes `directive` (or default-src); covers the source expressions previewCsp uses */
+function allows(csp: string, directive: string, url: string): boolean {
+  const directives = new Map(
+    csp.split(';').map((d) => d.trim().split(/\s+/)).filter((d) => d[0]).map(([name, ...sources]) => [name.toLowerCase(), sources]),
+  );
+  const sources = directives.get(directive) ?? directives.get('default-src');
+  if (!sources) return true;
+  const { protocol, host } = new URL(url);
+  return sources.some((source) => {
+    if (source.startsWith("'")) return false; // 'none', 'self' and the like never match a remote URL
+    if (source === '*') return protocol === 'https:' || protocol === 'http:';
+    if (source.endsWith(':')) return source.toLowerCase() === protocol || (source === 'http:' && protocol === 'https:');
+    return source.replace(/^https?:\/\//, '').toLowerCase() === host;
+  });
+}
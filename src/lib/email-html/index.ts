@@ -0,0 +1,222 @@
+/*
+ * Sanitizing email HTML for the in-page preview. Besides stripping active content, remote images are
+ * removed by default and images that look like tracking pixels are reported. cid: references to
+ * inline parts are resolved here too, for every viewer alike.
+ *
+ * What keeps an email from contacting the sender's servers is previewCsp, which previewDocument puts
+ * in the head of the preview. The CSS rewriting here is a regex over url() and @import. It misses escaped forms such
+ * as u\72l(…), image-set("…") strings and less common @import forms, so it mainly feeds the count
+ * shown to the user, and that count is a lower bound.
+ */
+
+import type { Config } from 'dompurify';
+
+/** Why an image was reported as a tracking pixel */
+export type TrackerReason = 'tiny' | 'known-host' | 'unique-id';
+
+/** A remote image that looks like it reports when the email is opened */
+export interface TrackingPixel {
+  url: string;
+  host: string;
+  reasons: TrackerReason[];
+}
+
+/** Options for sanitizeEmailHtml */
+export interface EmailHtmlOptions {
+  /** Keep remote images, stylesheets and fonts (default false: they are removed) */
+  allowRemote?: boolean;
+}
+
+/** Sanitized HTML and what was found in it */
+export interface EmailHtml {
+  html: string;
+  /**
+   * Remote resources found in the email; a lower bound, since CSS references are found by regex.
+   * Those found are removed from `html` unless allowRemote was set; previewCsp blocks the rest.
+   */
+  remoteCount: number;
+  trackers: TrackingPixel[];
+}
+
+/** DOMPurify settings shared by every email preview */
+const PURIFY_CONFIG: Config = {
+  ALLOWED_TAGS: [
+    'p', 'br', 'b', 'i', 'u', 'strong', 'em', 'a', 'ul', 'ol', 'li',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'thead', 'tbody',
+    'tr', 'td', 'th', 'div', 'span', 'img', 'blockquote', 'pre', 'code', 'hr',
+    'style', 'font', 'center', 'small', 'big', 'sub', 'sup', 'dl', 'dt', 'dd',
+  ],
+  ALLOWED_ATTR: [
+    'href', 'src', 'alt', 'title', 'style', 'class', 'width', 'height', 'colspan', 'rowspan', 'align',
+    'valign', 'color', 'bgcolor', 'background', 'face', 'size', 'target',
+  ],
+  FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'form', 'input', 'textarea', 'select', 'button'],
+  // Newsletters put <style> first; without this DOMPurify moves it to <head> and drops it
+  FORCE_BODY: true,
+};
+
+/** Attributes the browser loads without a click */
+const URL_ATTRIBUTES = ['src', 'background'];
+
+/** Hosts (and their subdomains) of email open-tracking services */
+const TRACKER_HOSTS = [
+  'list-manage.com', 'sendgrid.net', 'mandrillapp.com', 'mailgun.org', 'sparkpostmail.com',
+  'hubspotemail.net', 'hubspot.com', 'exct.net', 'pardot.com', 'mktoresp.com', 'rs6.net',
+  'createsend.com', 'cmail19.com', 'cmail20.com', 'klaviyomail.com', 'awstrack.me', 'sendibt3.com',
+  'customeriomail.com', 'intercom-mail.com', 'mailtrack.io', 'yesware.com', 'bananatag.com',
+  'getnotify.com', 'mailfoogae.appspot.com', 'cirrusinsight.com', 'google-analytics.com',
+  'doubleclick.net', 'mixpanel.com',
+];
+
+/** A CSS url() reference, quoted or not; escaped and image-set() forms are left to previewCsp */
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+/** An @import rule, with or without url() */
+const CSS_IMPORT = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?[^;]*;?/gi;
+
+/**
+ * Sanitize email HTML for the preview iframe. cid: and data: references are kept; http(s) and
+ * protocol-relative ones that are found are counted and, unless allowRemote is set, removed.
+ * Render the result under previewCsp, which is what actually blocks remote content.
+ */
+export async function sanitizeEmailHtml(html: string, options: EmailHtmlOptions = {}): Promise<EmailHtml> {
+  const DOMPurify = (await import('dompurify')).default;
+  const allowRemote = options.allowRemote ?? false;
+  let remoteCount = 0;
+  const trackers: TrackingPixel[] = [];
+
+  const rewriteCss = (css: string) => {
+    const withoutImports = css.replace(CSS_IMPORT, (rule: string, _quote: string, url: string) => {
+      if (!isRemoteUrl(url)) return rule;
+      remoteCount++;
+      return allowRemote ? rule : '';
+    });
+    return withoutImports.replace(CSS_URL, (ref: string, _quote: string, url: string) => {
+      if (!isRemoteUrl(url)) return ref;
+      remoteCount++;
+      return allowRemote ? ref : 'none';
+    });
+  };
+
+  const onElement = (node: Node) => {
+    if (node.nodeName === 'STYLE' && node.textContent) node.textContent = rewriteCss(node.textContent);
+  };
+  const onAttributes = (node: Element) => {
+    for (const name of URL_ATTRIBUTES) {
+      const url = node.getAttribute(name);
+      if (!url || !isRemoteUrl(url)) continue;
+      remoteCount++;
+      if (node.nodeName === 'IMG' && name === 'src') {
+        const tracker = detectTracker(node, url);
+        if (tracker) trackers.push(tracker);
+      }
+      if (!allowRemote) node.removeAttribute(name);
+    }
+    const style = node.getAttribute('style');
+    if (style) node.setAttribute('style', rewriteCss(style));
+  };
+
+  // Hooks are global to the DOMPurify instance; sanitize() is synchronous, so they are removed right after
+  DOMPurify.addHook('uponSanitizeElement', onElement);
+  DOMPurify.addHook('afterSanitizeAttributes', onAttributes);
+  try {
+    return { html: DOMPurify.sanitize(html, PURIFY_CONFIG), remoteCount, trackers };
+  } finally {
+    DOMPurify.removeHook('uponSanitizeElement', onElement);
+    DOMPurify.removeHook('afterSanitizeAttributes', onAttributes);
+  }
+}
+
+/**
+ * Content-Security-Policy for the preview document. This is what blocks remote content: the sanitizer
+ * removes the references it finds, but its CSS rewriting cannot see every form a URL can take.
+ */
+export function previewCsp(allowRemote: boolean): string {
+  const remote = allowRemote ? ' https: http:' : '';
+  return `default-src 'none'; img-src data: blob: cid:${remote}; style-src 'unsafe-inline'${remote}; font-src data:${remote}`;
+}
+
+/** Base styles of the preview document */
+const PREVIEW_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; font-size: 14px; color: #333; padding: 16px; margin: 0; line-height: 1.6; }
+  img { max-width: 100%; height: auto; }
+  a { color: #2563eb; }
+  table { border-collapse: collapse; } td, th { border: 1px solid #ddd; padding: 4px 8px; }
+`;
+
+/**
+ * The complete preview document for sanitized HTML, with previewCsp in its head. Pass it to the
+ * iframe's srcdoc: the preview is sandboxed without allow-same-origin, so its document cannot be
+ * written from the page.
+ */
+export function previewDocument(html: string, allowRemote: boolean): string {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="${previewCsp(allowRemote)}"><style>${PREVIEW_STYLE}</style></head><body>${html}</body></html>`;
+}
+
+/** Normalize a cid: reference from HTML (entity- and URL-encoded) for lookup by content ID */
+function normalizeCid(ref: string): string {
+  let id = ref.replace(/&amp;/g, '&');
+  try {
+    id = decodeURIComponent(id);
+  } catch {
+    // Not URL-encoded
+  }
+  return id.replace(/^<|>$/g, '').toLowerCase();
+}
+
+/** Point cid: image references at blob URLs of the matching inline attachments */
+export function resolveCidUrls(html: string, urls: Map<string, string>): string {
+  if (urls.size === 0) return html;
+  return html.replace(/(\s(?:src|background)=")cid:([^"]*)"/gi, (match, prefix: string, ref: string) => {
+    const url = urls.get(normalizeCid(ref));
+    return url ? `${prefix}${url}"` : match;
+  });
+}
+
+/** Content IDs (normalized) referenced from cid: URLs anywhere in the HTML body */
+export function referencedCids(html: string): Set<string> {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(/cid:([^"'\s)>]+)/gi)) ids.add(normalizeCid(match[1]));
+  return ids;
+}
+
+function isRemoteUrl(url: string): boolean {
+  return /^\s*(?:https?:)?\/\//i.test(url);
+}
+
+/** Report an image when it is invisible or tiny, served by a tracking service, or carries a per-recipient ID */
+function detectTracker(img: Element, url: string): TrackingPixel | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim(), 'https://invalid.example/');
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+  const reasons: TrackerReason[] = [];
+  if (isTiny(img)) reasons.push('tiny');
+  if (TRACKER_HOSTS.some((h) => host === h || host.endsWith(`.${h}`))) reasons.push('known-host');
+  if (hasUniqueId(parsed)) reasons.push('unique-id');
+  if (reasons.length === 0) return null;
+  return { url: parsed.href, host, reasons };
+}
+
+function isTiny(img: Element): boolean {
+  const style = img.getAttribute('style') ?? '';
+  const size = (name: string) => {
+    const value = img.getAttribute(name) ?? new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([\\d.]+)px`, 'i').exec(style)?.[1];
+    return value === undefined ? null : parseFloat(value);
+  };
+  const width = size('width');
+  const height = size('height');
+  const hidden = /(?:^|;)\s*(?:display\s*:\s*none|visibility\s*:\s*hidden)/i.test(style);
+  return hidden || (width !== null && height !== null && width <= 1 && height <= 1);
+}
+
+/** A query parameter holding a UUID or a long token mixing letters and digits, i.e. a per-recipient ID */
+function hasUniqueId(url: URL): boolean {
+  return [...url.searchParams.values()].some((token) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(token) ||
+    (/^[A-Za-z0-9_=-]{16,}$/.test(token) && /\d/.test(token) && /[A-Za-z]/.test(token)),
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * Minimal reader for Compound File Binary (OLE2 / CFB, MS-CFB) containers — read-only,
+ * versions 3 (512-byte sectors) and 4 (4096-byte sectors).
+ */
+
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/** Special sector numbers */
+const ENDOFCHAIN = 0xfffffffe;
+const FREESECT = 0xffffffff;
+const NOSTREAM = 0xffffffff;
+
+/** Directory entry object types */
+const TYPE_STORAGE = 1;
+const TYPE_STREAM = 2;
+const TYPE_ROOT = 5;
+
+const DIR_ENTRY_SIZE = 128;
+const HEADER_DIFAT_ENTRIES = 109;
+
+/** A stream inside a compound file; the data is read on demand */
+export interface CfbStream {
+  name: string;
+  size: number;
+}
+
+/** A storage (directory) inside a compound file */
+export interface CfbStorage {
+  name: string;
+  /** Child storages keyed by upper-case name (CFB names compare case-insensitively) */
+  storages: Map<string, CfbStorage>;
+  /** Child streams keyed by upper-case name */
+  streams: Map<string, CfbStream>;
+}
+
+interface DirEntry {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+export class CompoundFile {
+  readonly root: CfbStorage;
+
+  private data: Uint8Array;
+  private view: DataView;
+  private sectorSize: number;
+  private miniSectorSize: number;
+  private miniStreamCutoff: number;
+  private fat: number[] = [];
+  private miniFat: number[] = [];
+  private miniStream: Uint8Array = new Uint8Array(0);
+  private entries: DirEntry[] = [];
+  /** Stream → directory entry, so stream data can be located later */
+  private streamEntries = new WeakMap<CfbStream, DirEntry>();
+
+  constructor(data: Uint8Array) {
+    if (data.length < 512 || CFB_SIGNATURE.some((b, i) => data[i] !== b)) {
+      throw new Error('Not a valid Compound File (OLE2) file');
+    }
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    const sectorShift = this.view.getUint16(0x1e, true);
+    const miniSectorShift = this.view.getUint16(0x20, true);
+    if (sectorShift !== 9 && sectorShift !== 12) throw new Error(`Unsupported sector size 2^${sectorShift}`);
+    this.sectorSize = 1 << sectorShift;
+    this.miniSectorSize = 1 << miniSectorShift;
+    this.miniStreamCutoff = this.view.getUint32(0x38, true);
+
+    this.readFat();
+    this.readDirectory(this.view.getUint32(0x30, true));
+
+    const rootEntry = this.entries[0];
+    if (!rootEntry || rootEntry.type !== TYPE_ROOT) throw new Error('Compound file has no root storage');
+    this.miniFat = this.toUint32Array(this.readChain(this.view.getUint32(0x3c, true), this.fat, this.sectorSize));
+    this.miniStream = this.readChain(rootEntry.start, this.fat, this.sectorSize).subarray(0, rootEntry.size);
+
+    this.root = this.buildStorage(rootEntry, new Set());
+  }
+
+  /** Read the contents of a stream */
+  readStream(stream: CfbStream): Uint8Array {
+    const entry = this.streamEntries.get(stream);
+    if (!entry || entry.size === 0) return new Uint8Array(0);
+    const data = entry.size < this.miniStreamCutoff
+      ? this.readMiniChain(entry.start)
+      : this.readChain(entry.start, this.fat, this.sectorSize);
+    if (data.length < entry.size) throw new Error(`Stream "${entry.name}" is truncated`);
+    return data.subarray(0, entry.size);
+  }
+
+  /** Read the sector allocation table, following the DIFAT from the header and any DIFAT sectors */
+  private readFat(): void {
+    const fatSectors: number[] = [];
+    for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+      const sector = this.view.getUint32(0x4c + i * 4, true);
+      if (sector === FREESECT || sector === ENDOFCHAIN) break;
+      fatSectors.push(sector);
+    }
+
+    const perSector = this.sectorSize / 4;
+    let difat = this.view.getUint32(0x44, true);
+    const seen = new Set<number>();
+    while (difat !== ENDOFCHAIN && difat !== FREESECT && !seen.has(difat)) {
+      seen.add(difat);
+      const offset = this.sectorOffset(difat);
+      for (let i = 0; i < perSector - 1; i++) {
+        const sector = this.view.getUint32(offset + i * 4, true);
+        if (sector !== FREESECT) fatSectors.push(sector);
+      }
+      difat = this.view.getUint32(offset + (perSector - 1) * 4, true);
+    }
+
+    for (const sector of fatSectors) {
+      const offset = this.sectorOffset(sector);
+      for (let i = 0; i < perSector; i++) this.fat.push(this.view.getUint32(offset + i * 4, true));
+    }
+  }
+
+  private readDirectory(start: number): void {
+    const dir = this.readChain(start, this.fat, this.sectorSize);
+    const view = new DataView(dir.buffer, dir.byteOffset, dir.byteLength);
+    for (let offset = 0; offset + DIR_ENTRY_SIZE <= dir.length; offset += DIR_ENTRY_SIZE) {
+      const nameLength = Math.min(view.getUint16(offset + 0x40, true), 64);
+      let name = '';
+      // The length is in bytes and includes the terminating null
+      for (let i = 0; i < nameLength - 2; i += 2) {
+        name += String.fromCharCode(view.getUint16(offset + i, true));
+      }
+      this.entries.push({
+        name,
+        type: view.getUint8(offset + 0x42),
+        left: view.getUint32(offset + 0x44, true),
+        right: view.getUint32(offset + 0x48, true),
+        child: view.getUint32(offset + 0x4c, true),
+        start: view.getUint32(offset + 0x74, true),
+        // Version 3 files may leave garbage in the high 32 bits of the size
+        size: view.getUint32(offset + 0x78, true),
+      });
+    }
+  }
+
+  /** Build the storage tree; each storage's children form a red-black tree of siblings */
+  private buildStorage(entry: DirEntry, visited: Set<number>): CfbStorage {
+    const storage: CfbStorage = { name: entry.name, storages: new Map(), streams: new Map() };
+    const pending = [entry.child];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (id === NOSTREAM || id >= this.entries.length || visited.has(id)) continue;
+      visited.add(id);
+      const child = this.entries[id];
+      pending.push(child.left, child.right);
+
+      if (child.type === TYPE_STORAGE) {
+        storage.storages.set(child.name.toUpperCase(), this.buildStorage(child, visited));
+      } else if (child.type === TYPE_STREAM) {
+        const stream: CfbStream = { name: child.name, size: child.size };
+        this.streamEntries.set(stream, child);
+        storage.streams.set(child.name.toUpperCase(), stream);
+      }
+    }
+    return storage;
+  }
+
+  /** Concatenate the sectors of a chain; stops at the end of the file or on a loop */
+  private readChain(start: number, table: number[], size: number): Uint8Array {
+    const sectors: number[] = [];
+    for (let s = start; s !== ENDOFCHAIN && s < table.length; s = table[s]) {
+      if (sectors.length > table.length) throw new Error('Sector chain contains a loop');
+      sectors.push(s);
+    }
+    const out = new Uint8Array(sectors.length * size);
+    sectors.forEach((s, i) => {
+      const offset = this.sectorOffset(s);
+      out.set(this.data.subarray(offset, Math.min(offset + size, this.data.length)), i * size);
+    });
+    return out;
+  }
+
+  private readMiniChain(start: number): Uint8Array {
+    const size = this.miniSectorSize;
+    const sectors: number[] = [];
+    for (let s = start; s !== ENDOFCHAIN && s < this.miniFat.length; s = this.miniFat[s]) {
+      if (sectors.length > this.miniFat.length) throw new Error('Mini sector chain contains a loop');
+      sectors.push(s);
+    }
+    const out = new Uint8Array(sectors.length * size);
+    sectors.forEach((s, i) => out.set(this.miniStream.subarray(s * size, s * size + size), i * size));
+    return out;
+  }
+
+  private sectorOffset(sector: number): number {
+    // The header occupies the first sector-sized block
+    return (sector + 1) * this.sectorSize;
+  }
+
+  private toUint32Array(bytes: Uint8Array): number[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const out: number[] = [];
+    for (let i = 0; i + 4 <= bytes.length; i += 4) out.push(view.getUint32(i, true));
+    return out;
+  }
+}
@@ -0,0 +1,540 @@
+import { CompoundFile, type CfbStorage } from './cfb';
+import { TnefDecoder } from '../tnef-parser/decoder';
+import { readFixedValue, formatGuid } from '../tnef-parser/properties';
+import { decompressRtf } from '../tnef-parser/lzfu';
+import { convertRtf } from '../tnef-parser/rtf';
+import { chooseAnsiEncoding, codepageHintEncoding, type AnsiEncodingChoice } from '../tnef-parser/charset';
+import { decodeMeeting } from '../tnef-parser/calendar';
+import { decodeContact } from '../tnef-parser/contact';
+import { decodeTask } from '../tnef-parser/task';
+import { buildEml } from '../tnef-parser/eml';
+import { extractOleStorage, type OleObjectFile } from '../tnef-parser/ole';
+import {
+  parseMapiProps,
+  parseAttachMapiProps,
+  parseRecipientRow,
+  isInlineAttachment,
+  guessMimeType,
+} from '../tnef-parser/mapi';
+import { TnefDiagnostics } from '../tnef-parser/diagnostics';
+import {
+  type TnefParseResult,
+  type TnefAttachment,
+  type TnefRecipient,
+  type MapiProperty,
+  type MapiPropertyName,
+  type MapiScalar,
+  type MapiValue,
+  PT,
+  PROP,
+  PSETID,
+  MV_FLAG,
+  ATTACH_METHOD,
+  MAX_EMBED_DEPTH,
+} from '../tnef-parser/types';
+
+/** A parsed .msg file — the same message model as a parsed winmail.dat */
+export type MsgParseResult = TnefParseResult;
+export type MsgAttachment = TnefAttachment;
+
+/** Options for parseMsg */
+export interface MsgParseOptions {
+  /** Throw a TnefParseError on the first problem instead of recording a warning (default: false) */
+  strict?: boolean;
+  /** TextDecoder encoding for PT_STRING8 values, overriding the codepage properties and detection */
+  ansiEncoding?: string;
+}
+
+/*
+ * MS-OXMSG layout: every message, recipient and attachment is a storage holding a
+ * __properties_version1.0 stream (fixed-size values inline, sizes of variable-length values)
+ * plus one __substg1.0_TTTTTTTT stream per variable-length value.
+ * Names are compared upper-case, matching CfbStorage keys.
+ */
+const PROPERTIES_STREAM = '__PROPERTIES_VERSION1.0';
+const NAMEID_STORAGE = '__NAMEID_VERSION1.0';
+const SUBSTG_PREFIX = '__SUBSTG1.0_';
+const RECIP_PREFIX = '__RECIP_VERSION1.0_#';
+const ATTACH_PREFIX = '__ATTACH_VERSION1.0_#';
+/** PidTagAttachDataObject as a storage — an embedded message (attach method 5) or OLE object (6) */
+const ATTACH_OBJECT_STORAGE = `${SUBSTG_PREFIX}3701000D`;
+
+/** Size of the header before the property entries, which depends on the storage */
+const HEADER_SIZE = {
+  TOP_LEVEL: 32,
+  EMBEDDED: 24,
+  RECIP_OR_ATTACH: 8,
+} as const;
+
+/** Size of one entry in the property stream: tag, flags and an 8-byte value or size */
+const PROPERTY_ENTRY_SIZE = 16;
+
+/** Named property streams in __nameid_version1.0 */
+const NAMEID_GUID_STREAM = `${SUBSTG_PREFIX}00020102`;
+const NAMEID_ENTRY_STREAM = `${SUBSTG_PREFIX}00030102`;
+const NAMEID_STRING_STREAM = `${SUBSTG_PREFIX}00040102`;
+
+/** Element size of fixed-size multi-valued properties, which are stored packed */
+const MV_ITEM_SIZE: Record<number, number> = {
+  [PT.SHORT]: 2,
+  [PT.LONG]: 4,
+  [PT.FLOAT]: 4,
+  [PT.DOUBLE]: 8,
+  [PT.CURRENCY]: 8,
+  [PT.APPTIME]: 8,
+  [PT.I8]: 8,
+  [PT.SYSTIME]: 8,
+  [PT.CLSID]: 16,
+};
+
+interface MsgContext {
+  cfb: CompoundFile;
+  /** Named property mapping from the top-level __nameid_version1.0 storage, shared by embedded messages */
+  names: Map<number, MapiPropertyName>;
+}
+
+/**
+ * Parse an Outlook .msg file (MS-OXMSG, a Compound File Binary container).
+ * Works entirely in the browser. Embedded messages are parsed recursively and offered as .eml files.
+ * Unreadable properties are skipped and listed in `warnings`; offsets in those warnings are always 0.
+ */
+export function parseMsg(buffer: ArrayBuffer | Uint8Array, options: MsgParseOptions = {}): MsgParseResult {
+  const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let cfb: CompoundFile;
+  try {
+    cfb = new CompoundFile(data);
+  } catch {
+    throw new Error('Not a valid Outlook .msg file');
+  }
+  if (!cfb.root.streams.has(PROPERTIES_STREAM)) {
+    throw new Error('Not a valid Outlook .msg file');
+  }
+
+  const diag = new TnefDiagnostics({ strict: options.strict });
+  const ctx: MsgContext = { cfb, names: readNamedPropertyMap(cfb, diag) };
+  // Used where no storage names a codepage; an override applies to every storage
+  const ansi = chooseAnsiEncoding(
+    { messageCodepage: null, oemCodepage: null, internetCodepage: null, samples: collectAnsiSamples(cfb, cfb.root) },
+    options.ansiEncoding,
+  );
+  return parseMessageStorage(ctx, cfb.root, HEADER_SIZE.TOP_LEVEL, ansi, 0, diag);
+}
+
+function parseMessageStorage(
+  ctx: MsgContext,
+  storage: CfbStorage,
+  headerSize: number,
+  parentAnsi: AnsiEncodingChoice,
+  depth: number,
+  diag: TnefDiagnostics,
+): MsgParseResult {
+  const { properties, ansi } = readPropertyStream(ctx, storage, headerSize, parentAnsi, diag);
+  const mapi = parseMapiProps(properties);
+
+  const subject = mapi.subject ?? '';
+  const messageClass = mapi.messageClass ?? '';
+  const senderName = mapi.senderName ?? '';
+  const senderEmail = mapi.senderEmail ?? '';
+  let from = senderName;
+  if (senderEmail) from = senderName ? `${senderName} <${senderEmail}>` : senderEmail;
+
+  let body = mapi.body ?? '';
+  let bodyHtml = mapi.bodyHtml ?? '';
+  let bodyRtf: Uint8Array<ArrayBuffer> | null = null;
+  if (mapi.rtfCompressed) {
+    try {
+      bodyRtf = decompressRtf(mapi.rtfCompressed);
+      if (!body || !bodyHtml) {
+        const converted = convertRtf(bodyRtf);
+        if (!bodyHtml && converted.html) bodyHtml = converted.html;
+        if (!body && converted.text) body = converted.text;
+      }
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      diag.warn(0, 0, PROP.RTF_COMPRESSED, `Compressed RTF body could not be decoded: ${reason}`);
+    }
+  }
+
+  const recipients: TnefRecipient[] = [];
+  for (const recipStorage of childStorages(storage, RECIP_PREFIX)) {
+    const row = readPropertyStream(ctx, recipStorage, HEADER_SIZE.RECIP_OR_ATTACH, ansi, diag);
+    const recipient = parseRecipientRow(row.properties);
+    if (recipient) recipients.push(recipient);
+  }
+
+  const attachments: TnefAttachment[] = [];
+  for (const attachStorage of childStorages(storage, ATTACH_PREFIX)) {
+    const attachment = parseAttachmentStorage(ctx, attachStorage, ansi, bodyHtml, depth, diag);
+    if (attachment) attachments.push(attachment);
+  }
+
+  const to = recipients.filter((r) => r.type === 'to');
+  const cc = recipients.filter((r) => r.type === 'cc');
+  const importance = mapi.importance ?? 'normal';
+
+  return {
+    subject,
+    from,
+    messageClass,
+    to,
+    cc,
+    bcc: recipients.filter((r) => r.type === 'bcc'),
+    sentDate: mapi.sentDate ?? null,
+    receivedDate: mapi.receivedDate ?? null,
+    body,
+    bodyHtml,
+    bodyRtf,
+    attachments,
+    properties,
+    meeting: decodeMeeting(properties, { messageClass, subject, body, senderName, senderEmail, to, cc }),
+    contact: decodeContact(properties, { messageClass, subject, body }),
+    task: decodeTask(properties, { messageClass, subject, body, importance }),
+    transportHeaders: mapi.transportHeaders ?? '',
+    importance,
+    sensitivity: mapi.sensitivity ?? 'none',
+    priority: mapi.priority ?? 'normal',
+    internetMessageId: mapi.internetMessageId ?? '',
+    conversationTopic: mapi.conversationTopic ?? '',
+    readReceiptRequested: mapi.readReceiptRequested ?? false,
+    deliveryReceiptRequested: mapi.deliveryReceiptRequested ?? false,
+    ansiEncoding: ansi.encoding,
+    ansiEncodingSource: ansi.source,
+    warnings: diag.warnings,
+  };
+}
+
+/** One attachment storage; embedded messages are converted to .eml so they can be saved and reopened */
+function parseAttachmentStorage(
+  ctx: MsgContext,
+  storage: CfbStorage,
+  ansi: AnsiEncodingChoice,
+  bodyHtml: string,
+  depth: number,
+  diag: TnefDiagnostics,
+): MsgAttachment | null {
+  const { properties } = readPropertyStream(ctx, storage, HEADER_SIZE.RECIP_OR_ATTACH, ansi, diag);
+  const a = parseAttachMapiProps(properties);
+  const createdDate = a.createdDate ?? null;
+  const modifiedDate = a.modifiedDate ?? null;
+
+  const objectStorage = storage.storages.get(ATTACH_OBJECT_STORAGE);
+  if (a.attachMethod === ATTACH_METHOD.EMBEDDED_MSG && objectStorage) {
+    if (depth + 1 > MAX_EMBED_DEPTH) {
+      diag.warn(0, 0, PROP.ATTACH_DATA_BIN, `Embedded message nested deeper than ${MAX_EMBED_DEPTH} levels was skipped`);
+      return null;
+    }
+    const embeddedMessage = parseMessageStorage(
+      ctx,
+      objectStorage,
+      HEADER_SIZE.EMBEDDED,
+      ansi,
+      depth + 1,
+      diag.child(),
+    );
+    const title = a.displayName || embeddedMessage.subject || 'message';
+    const data = new TextEncoder().encode(buildEml(embeddedMessage));
+    return {
+      name: `${title}.eml`,
+      size: data.length,
+      data,
+      mimeType: 'message/rfc822',
+      createdDate,
+      modifiedDate,
+      embeddedMessage,
+      contentId: a.contentId ?? '',
+      contentLocation: a.contentLocation ?? '',
+      hidden: a.hidden ?? false,
+      inline: false,
+      rendering: a.rendering ?? null,
+      properties,
+    };
+  }
+
+  if (a.attachMethod === ATTACH_METHOD.OLE && objectStorage) {
+    const ole = unwrapOleStorage(ctx, objectStorage, a.displayName || a.longFilename || a.filename || 'object', ansi, diag);
+    if (ole) {
+      return {
+        name: ole.name,
+        size: ole.data.length,
+        data: ole.data,
+        mimeType: guessMimeType(ole.name, ''),
+        createdDate,
+        modifiedDate,
+        embeddedMessage: null,
+        contentId: a.contentId ?? '',
+        contentLocation: a.contentLocation ?? '',
+        hidden: a.hidden ?? false,
+        inline: isInlineAttachment(a, bodyHtml),
+        rendering: a.rendering ?? null,
+        properties,
+      };
+    }
+  }
+
+  if (!a.data || a.data.length === 0) return null;
+  const name = a.longFilename || a.filename || a.displayName || 'attachment';
+  return {
+    name,
+    size: a.data.length,
+    data: a.data,
+    mimeType: a.mimeType && a.mimeType !== 'application/octet-stream'
+      ? a.mimeType
+      : guessMimeType(name, a.extension ?? ''),
+    createdDate,
+    modifiedDate,
+    embeddedMessage: null,
+    contentId: a.contentId ?? '',
+    contentLocation: a.contentLocation ?? '',
+    hidden: a.hidden ?? false,
+    inline: isInlineAttachment(a, bodyHtml),
+    rendering: a.rendering ?? null,
+    properties,
+  };
+}
+
+/** The file inside an OLE object attachment's storage (attach method 6), or null with a warning */
+function unwrapOleStorage(
+  ctx: MsgContext,
+  storage: CfbStorage,
+  fallbackName: string,
+  ansi: AnsiEncodingChoice,
+  diag: TnefDiagnostics,
+): OleObjectFile | null {
+  try {
+    const file = extractOleStorage(ctx.cfb, storage, { fallbackName, ansiEncoding: ansi.encoding });
+    if (!file) diag.warn(0, 0, PROP.ATTACH_DATA_BIN, 'OLE object holds no file that can be extracted; skipped');
+    return file;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    diag.warn(0, 0, PROP.ATTACH_DATA_BIN, `OLE object could not be unwrapped: ${reason}`);
+    return null;
+  }
+}
+
+/** Child storages with the given prefix, in numeric order (the suffix is an 8-digit hex index) */
+function childStorages(storage: CfbStorage, prefix: string): CfbStorage[] {
+  return [...storage.storages.entries()]
+    .filter(([key]) => key.startsWith(prefix))
+    .sort(([a], [b]) => parseInt(a.slice(prefix.length), 16) - parseInt(b.slice(prefix.length), 16))
+    .map(([, child]) => child);
+}
+
+interface PropertyStream {
+  properties: MapiProperty[];
+  /** Encoding used for PT_STRING8 values — inherited by child storages */
+  ansi: AnsiEncodingChoice;
+}
+
+/**
+ * Read the property stream of a message, recipient or attachment storage.
+ * PT_STRING8 values use the storage's codepage properties, else the parent's encoding (unless that was overridden).
+ */
+function readPropertyStream(
+  ctx: MsgContext,
+  storage: CfbStorage,
+  headerSize: number,
+  parentAnsi: AnsiEncodingChoice,
+  diag: TnefDiagnostics,
+): PropertyStream {
+  const stream = storage.streams.get(PROPERTIES_STREAM);
+  if (!stream) {
+    diag.warn(0, 0, 0, `Storage "${storage.name}" has no property stream`);
+    return { properties: [], ansi: parentAnsi };
+  }
+  const bytes = ctx.cfb.readStream(stream);
+
+  const entries: { tag: number; value: Uint8Array }[] = [];
+  for (let offset = headerSize; offset + PROPERTY_ENTRY_SIZE <= bytes.length; offset += PROPERTY_ENTRY_SIZE) {
+    // Entry: tag, flags (ignored), then the value or the size of the substream
+    const tag = new TnefDecoder(bytes.subarray(offset, offset + 4)).readUint32LE();
+    entries.push({ tag, value: bytes.subarray(offset + 8, offset + PROPERTY_ENTRY_SIZE) });
+  }
+
+  // The codepages are fixed-size properties, so read them before decoding any strings
+  const codepage = (id: number) => {
+    const entry = entries.find((e) => e.tag === ((id << 16) | PT.LONG) >>> 0);
+    return entry ? new TnefDecoder(entry.value).readUint32LE() : null;
+  };
+  let ansi = parentAnsi;
+  if (parentAnsi.source !== 'override') {
+    const encoding = codepageHintEncoding({
+      messageCodepage: codepage(PROP.MESSAGE_CODEPAGE),
+      oemCodepage: null,
+      internetCodepage: codepage(PROP.INTERNET_CPID),
+    });
+    if (encoding) ansi = { encoding, source: 'codepage' };
+  }
+
+  const properties: MapiProperty[] = [];
+  for (const { tag, value } of entries) {
+    const id = tag >>> 16;
+    const type = tag & 0xffff;
+    try {
+      properties.push({
+        id,
+        type,
+        tag,
+        named: id >= 0x8000 ? ctx.names.get(id) ?? null : null,
+        value: readPropertyValue(ctx, storage, tag, value, ansi.encoding),
+      });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      diag.warn(0, 0, id, `Property 0x${tag.toString(16).padStart(8, '0')} in "${storage.name}": ${reason}`);
+    }
+  }
+  return { properties, ansi };
+}
+
+/** Decode one property: fixed-size values are inline in the entry, everything else is in a substream */
+function readPropertyValue(
+  ctx: MsgContext,
+  storage: CfbStorage,
+  tag: number,
+  inline: Uint8Array,
+  ansiEncoding: string,
+): MapiValue {
+  const type = tag & 0xffff;
+  const d = new TnefDecoder(inline);
+
+  switch (type) {
+    case PT.UNSPECIFIED:
+    case PT.NULL:
+      return null;
+    case PT.SYSTIME:
+      return d.readFileTime();
+    case PT.OBJECT:
+      // Embedded messages and OLE objects are storages, read separately by the attachment parser
+      return null;
+    case PT.STRING8:
+    case PT.UNICODE:
+    case PT.BINARY:
+    case PT.CLSID:
+    case PT.SVREID:
+    case PT.SRESTRICT:
+    case PT.ACTIONS: {
+      const bytes = readSubstream(ctx, storage, tag);
+      return bytes ? decodeVariable(d, type, bytes, ansiEncoding) : null;
+    }
+  }
+
+  if (type & MV_FLAG) {
+    const baseType = type & ~MV_FLAG;
+    const bytes = readSubstream(ctx, storage, tag) ?? new Uint8Array(0);
+    const values: MapiScalar[] = [];
+
+    const itemSize = MV_ITEM_SIZE[baseType];
+    if (itemSize) {
+      const items = new TnefDecoder(bytes);
+      for (let i = 0; i + itemSize <= bytes.length; i += itemSize) {
+        values.push(baseType === PT.SHORT ? items.readInt16LE() : readFixedValue(items, baseType));
+      }
+      return values;
+    }
+
+    // Variable-length elements: the main stream lists their sizes, each value is in a -NNNNNNNN substream
+    const sizeEntry = baseType === PT.BINARY ? 8 : 4;
+    const count = Math.floor(bytes.length / sizeEntry);
+    for (let i = 0; i < count; i++) {
+      const item = readSubstream(ctx, storage, tag, i) ?? new Uint8Array(0);
+      values.push(decodeVariable(d, baseType, item, ansiEncoding));
+    }
+    return values;
+  }
+
+  return readFixedValue(d, type);
+}
+
+function decodeVariable(d: TnefDecoder, type: number, bytes: Uint8Array, ansiEncoding: string): MapiScalar {
+  switch (type) {
+    case PT.STRING8:
+      return d.decodeAnsiString(bytes, ansiEncoding);
+    case PT.UNICODE:
+      return d.decodeUnicodeString(bytes);
+    case PT.CLSID:
+      return formatGuid(bytes);
+    default:
+      return bytes;
+  }
+}
+
+/** Contents of __substg1.0_TTTTTTTT (or its -NNNNNNNN element stream), or null when missing */
+function readSubstream(ctx: MsgContext, storage: CfbStorage, tag: number, index?: number): Uint8Array | null {
+  let name = `${SUBSTG_PREFIX}${hex8(tag)}`;
+  if (index !== undefined) name += `-${hex8(index)}`;
+  const stream = storage.streams.get(name);
+  return stream ? ctx.cfb.readStream(stream) : null;
+}
+
+/** PT_STRING8 value streams: single values and the elements of multi-valued ones */
+const STRING8_STREAM = /^__SUBSTG1\.0_[0-9A-F]{4}(001E|101E-[0-9A-F]{8})$/;
+
+/** Raw bytes of every PT_STRING8 value in a storage and the storages below it, for encoding detection */
+function collectAnsiSamples(cfb: CompoundFile, storage: CfbStorage): Uint8Array[] {
+  const samples: Uint8Array[] = [];
+  for (const [key, stream] of storage.streams) {
+    if (!STRING8_STREAM.test(key)) continue;
+    try {
+      samples.push(cfb.readStream(stream));
+    } catch {
+      // Truncated stream — reported when the property itself is read
+    }
+  }
+  for (const child of storage.storages.values()) samples.push(...collectAnsiSamples(cfb, child));
+  return samples;
+}
+
+/**
+ * Read the named property mapping (MS-OXMSG 2.2.3). Each 8-byte entry maps property ID
+ * 0x8000 + index to a property set GUID plus a numeric ID or an offset into the string stream.
+ */
+function readNamedPropertyMap(cfb: CompoundFile, diag: TnefDiagnostics): Map<number, MapiPropertyName> {
+  const names = new Map<number, MapiPropertyName>();
+  const storage = cfb.root.storages.get(NAMEID_STORAGE);
+  if (!storage) return names;
+
+  const read = (name: string) => {
+    const stream = storage.streams.get(name);
+    return stream ? cfb.readStream(stream) : new Uint8Array(0);
+  };
+  const guids = read(NAMEID_GUID_STREAM);
+  const entries = read(NAMEID_ENTRY_STREAM);
+  const strings = read(NAMEID_STRING_STREAM);
+
+  const d = new TnefDecoder(entries);
+  while (d.remaining >= 8) {
+    const nameOrOffset = d.readUint32LE();
+    const info = d.readUint32LE();
+    const isString = (info & 1) !== 0;
+    const guidIndex = (info >>> 1) & 0x7fff;
+    const propIndex = info >>> 16;
+
+    let guid: string;
+    if (guidIndex === 1) {
+      guid = PSETID.MAPI;
+    } else if (guidIndex === 2) {
+      guid = PSETID.PUBLIC_STRINGS;
+    } else if (guidIndex >= 3 && (guidIndex - 3) * 16 + 16 <= guids.length) {
+      guid = formatGuid(guids.subarray((guidIndex - 3) * 16, (guidIndex - 2) * 16));
+    } else {
+      diag.warn(0, 0, 0x8000 + propIndex, `Named property refers to missing GUID #${guidIndex}`);
+      continue;
+    }
+
+    let name: string | null = null;
+    if (isString) {
+      if (nameOrOffset + 4 > strings.length) {
+        diag.warn(0, 0, 0x8000 + propIndex, 'Named property string is outside the string stream');
+        continue;
+      }
+      const s = new TnefDecoder(strings.subarray(nameOrOffset));
+      const length = s.readUint32LE();
+      name = s.decodeUnicodeString(strings.subarray(nameOrOffset + 4, nameOrOffset + 4 + length));
+    }
+    names.set(0x8000 + propIndex, { guid, lid: isString ? null : nameOrOffset, name });
+  }
+  return names;
+}
+
+function hex8(n: number): string {
+  return (n >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
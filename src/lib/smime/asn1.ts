@@ -0,0 +1,232 @@
+/**
+ * Minimal ASN.1 reader for the DER and BER encodings used by CMS, X.509 and PKCS#12 —
+ * read-only, indefinite lengths included (Outlook and Windows write BER).
+ */
+
+/** Tag classes */
+export const UNIVERSAL = 0;
+export const CONTEXT = 2;
+
+/** Universal tag numbers */
+export const TAG = {
+  BOOLEAN: 1,
+  INTEGER: 2,
+  BIT_STRING: 3,
+  OCTET_STRING: 4,
+  NULL: 5,
+  OID: 6,
+  UTF8_STRING: 12,
+  SEQUENCE: 16,
+  SET: 17,
+  PRINTABLE_STRING: 19,
+  T61_STRING: 20,
+  IA5_STRING: 22,
+  UTC_TIME: 23,
+  GENERALIZED_TIME: 24,
+  UNIVERSAL_STRING: 28,
+  BMP_STRING: 30,
+} as const;
+
+/** Nesting deeper than this is treated as malformed rather than recursed into */
+const MAX_DEPTH = 64;
+
+export interface Asn1 {
+  tagClass: number;
+  constructed: boolean;
+  tag: number;
+  /** The whole element, header included, as encoded */
+  raw: Uint8Array;
+  /** Content octets; for indefinite lengths, without the end-of-contents marker */
+  content: Uint8Array;
+  /** Parsed content of a constructed element */
+  children: Asn1[];
+}
+
+/** Parse the element at the start of `bytes`; trailing data is ignored */
+export function parseAsn1(bytes: Uint8Array): Asn1 {
+  return readElement(bytes, 0, 0);
+}
+
+function readElement(bytes: Uint8Array, offset: number, depth: number): Asn1 {
+  if (depth > MAX_DEPTH) throw new Error('ASN.1 structure is nested too deeply');
+  let pos = offset;
+  const byte = (): number => {
+    if (pos >= bytes.length) throw new Error('ASN.1 data is truncated');
+    return bytes[pos++];
+  };
+
+  const first = byte();
+  const tagClass = first >> 6;
+  const constructed = (first & 0x20) !== 0;
+  let tag = first & 0x1f;
+  if (tag === 0x1f) {
+    tag = 0;
+    for (let b = byte(); ; b = byte()) {
+      tag = tag * 128 + (b & 0x7f);
+      if (!(b & 0x80)) break;
+      if (tag > 0xffffff) throw new Error('ASN.1 tag number is too large');
+    }
+  }
+
+  let length = byte();
+  if (length === 0x80) {
+    // Indefinite length: children until the end-of-contents marker (two zero bytes)
+    if (!constructed) throw new Error('Indefinite length on a primitive ASN.1 element');
+    const start = pos;
+    const children: Asn1[] = [];
+    for (;;) {
+      if (pos + 1 >= bytes.length) throw new Error('ASN.1 data is truncated');
+      if (bytes[pos] === 0 && bytes[pos + 1] === 0) break;
+      const child = readElement(bytes, pos, depth + 1);
+      children.push(child);
+      pos += child.raw.length;
+    }
+    return {
+      tagClass,
+      constructed,
+      tag,
+      raw: bytes.subarray(offset, pos + 2),
+      content: bytes.subarray(start, pos),
+      children,
+    };
+  }
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count > 4) throw new Error('ASN.1 length is too large');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + byte();
+  }
+  if (pos + length > bytes.length) throw new Error('ASN.1 data is truncated');
+
+  const content = bytes.subarray(pos, pos + length);
+  const children: Asn1[] = [];
+  if (constructed) {
+    for (let childPos = 0; childPos < content.length; ) {
+      const child = readElement(content, childPos, depth + 1);
+      children.push(child);
+      childPos += child.raw.length;
+    }
+  }
+  return { tagClass, constructed, tag, raw: bytes.subarray(offset, pos + length), content, children };
+}
+
+/** Child `index` of a constructed element; throws when it is missing */
+export function child(node: Asn1, index: number): Asn1 {
+  const found = node.children[index];
+  if (!found) throw new Error('ASN.1 element is missing a field');
+  return found;
+}
+
+/** The context-specific child [tag], if present */
+export function contextChild(node: Asn1, tag: number): Asn1 | undefined {
+  return node.children.find((c) => c.tagClass === CONTEXT && c.tag === tag);
+}
+
+/** Universal children only, skipping the context-tagged optional fields */
+export function universalChildren(node: Asn1): Asn1[] {
+  return node.children.filter((c) => c.tagClass === UNIVERSAL);
+}
+
+export function isUniversal(node: Asn1, tag: number): boolean {
+  return node.tagClass === UNIVERSAL && node.tag === tag;
+}
+
+/** Dotted form of an OBJECT IDENTIFIER */
+export function oid(node: Asn1): string {
+  if (!isUniversal(node, TAG.OID)) throw new Error('Expected an ASN.1 object identifier');
+  const parts: number[] = [];
+  let value = 0;
+  for (const b of node.content) {
+    value = value * 128 + (b & 0x7f);
+    if (!(b & 0x80)) {
+      if (parts.length === 0) parts.push(value < 80 ? Math.floor(value / 40) : 2, value < 80 ? value % 40 : value - 80);
+      else parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+/** A non-negative INTEGER as a number; throws above Number.MAX_SAFE_INTEGER */
+export function integer(node: Asn1): number {
+  const value = bigInteger(node);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('ASN.1 integer is too large');
+  return Number(value);
+}
+
+export function bigInteger(node: Asn1): bigint {
+  if (!isUniversal(node, TAG.INTEGER)) throw new Error('Expected an ASN.1 integer');
+  let value = 0n;
+  for (const b of node.content) value = (value << 8n) | BigInt(b);
+  // Two's complement: only serial numbers are ever negative, and only by mistake
+  if (node.content.length > 0 && node.content[0] & 0x80) value -= 1n << BigInt(node.content.length * 8);
+  return value;
+}
+
+/** Contents of an OCTET STRING, joining the segments of a constructed (BER) one */
+export function octets(node: Asn1): Uint8Array {
+  if (!node.constructed) return node.content;
+  const parts = node.children.map(octets);
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+/** Contents of a BIT STRING without the unused-bits byte */
+export function bitString(node: Asn1): Uint8Array {
+  if (!isUniversal(node, TAG.BIT_STRING) || node.content.length === 0) throw new Error('Expected an ASN.1 bit string');
+  return node.content.subarray(1);
+}
+
+/** Any of the character string types X.509 names use */
+export function text(node: Asn1): string {
+  const bytes = octets(node);
+  switch (node.tag) {
+    case TAG.BMP_STRING:
+      return new TextDecoder('utf-16be').decode(bytes);
+    case TAG.UNIVERSAL_STRING: {
+      let out = '';
+      for (let i = 0; i + 3 < bytes.length; i += 4) {
+        out += String.fromCodePoint(((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0);
+      }
+      return out;
+    }
+    case TAG.T61_STRING:
+      return new TextDecoder('latin1').decode(bytes);
+    default:
+      return new TextDecoder().decode(bytes);
+  }
+}
+
+/** UTCTime or GeneralizedTime */
+export function time(node: Asn1): Date | null {
+  const value = new TextDecoder().decode(node.content);
+  const m = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?(Z|[+-]\d{4})?$/.exec(value);
+  if (!m) return null;
+  let year = Number(m[1]);
+  // RFC 5280: two-digit years 50-99 are 19xx
+  if (m[1].length === 2) year += year >= 50 ? 1900 : 2000;
+  const zone = !m[7] || m[7] === 'Z' ? 'Z' : `${m[7].slice(0, 3)}:${m[7].slice(3)}`;
+  const date = new Date(
+    `${String(year).padStart(4, '0')}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6] ?? '00'}${zone}`,
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Compare two encodings byte for byte */
+export function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+/** The same element re-tagged as a universal SET, as signed and authenticated attributes are hashed */
+export function asSet(node: Asn1): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(node.raw);
+  out[0] = 0x31;
+  return out;
+}
@@ -0,0 +1,38 @@
+/**
+ * Content decryption for the CBC ciphers of CMS (RFC 5652, RFC 3565) and PBES2: AES via WebCrypto,
+ * DES, Triple-DES and RC2 via legacy.ts.
+ */
+
+import { child, integer, octets, type Asn1 } from './asn1';
+import { copy } from './signature';
+import { desCbcDecrypt, rc2CbcDecrypt } from './legacy';
+import { SmimeError } from './errors';
+
+/** Content ciphers: AES-CBC via WebCrypto, the rest in legacy.ts */
+export const CBC_CIPHERS: Record<string, { name: 'AES-CBC' | 'DES' | 'RC2'; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { name: 'AES-CBC', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { name: 'AES-CBC', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { name: 'AES-CBC', keyLength: 32 },
+  '1.2.840.113549.3.7': { name: 'DES', keyLength: 24 },
+  '1.3.14.3.2.7': { name: 'DES', keyLength: 8 },
+  '1.2.840.113549.3.2': { name: 'RC2', keyLength: 16 },
+};
+
+/** RC2 parameter versions for the common effective key lengths (RFC 8018 appendix B.2.3) */
+const RC2_VERSIONS: Record<number, number> = { 160: 40, 120: 64, 58: 128 };
+
+/** Decrypt CBC content with one of CBC_CIPHERS; `params` are the algorithm parameters, normally just the IV */
+export async function cbcDecrypt(cipherId: string, key: Uint8Array, params: Asn1, data: Uint8Array): Promise<Uint8Array> {
+  const cipher = CBC_CIPHERS[cipherId];
+  if (!cipher) throw new SmimeError('unsupported', `Unsupported cipher ${cipherId}`);
+  if (cipher.name === 'RC2') {
+    // RC2-CBC-Parameter: an optional version encoding the effective key bits, then the IV
+    const version = params.constructed && params.children.length > 1 ? integer(child(params, 0)) : null;
+    const bits = version === null ? key.length * 8 : version >= 256 ? version : (RC2_VERSIONS[version] ?? key.length * 8);
+    return rc2CbcDecrypt(key, bits, octets(params.constructed ? params.children[params.children.length - 1] : params), data);
+  }
+  const iv = octets(params);
+  if (cipher.name === 'DES') return desCbcDecrypt(key, iv, data);
+  const aesKey = await crypto.subtle.importKey('raw', copy(key), 'AES-CBC', false, ['decrypt']);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: copy(iv) }, aesKey, copy(data)));
+}
@@ -0,0 +1,349 @@
+/**
+ * CMS (RFC 5652) as S/MIME uses it: SignedData is verified against the certificates it carries,
+ * EnvelopedData and AuthEnvelopedData (RFC 5083) are decrypted with an RSA key from a PKCS#12 file.
+ */
+
+import {
+  parseAsn1,
+  child,
+  contextChild,
+  universalChildren,
+  oid,
+  bigInteger,
+  octets,
+  time,
+  sameBytes,
+  asSet,
+  isUniversal,
+  TAG,
+  CONTEXT,
+  type Asn1,
+} from './asn1';
+import { parseCertificate, formatName, type Certificate } from './x509';
+import { digestAlgorithm, digest, verifySignature, copy } from './signature';
+import { CBC_CIPHERS, cbcDecrypt } from './cipher';
+import { SmimeError } from './errors';
+import type { Pkcs12Contents } from './pkcs12';
+
+export const OID_SIGNED_DATA = '1.2.840.113549.1.7.2';
+export const OID_ENVELOPED_DATA = '1.2.840.113549.1.7.3';
+export const OID_AUTH_ENVELOPED_DATA = '1.2.840.113549.1.9.16.1.23';
+
+const OID_MESSAGE_DIGEST = '1.2.840.113549.1.9.4';
+const OID_SIGNING_TIME = '1.2.840.113549.1.9.5';
+
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_RSAES_OAEP = '1.2.840.113549.1.1.7';
+
+const GCM_CIPHERS: Record<string, number> = {
+  '2.16.840.1.101.3.4.1.6': 16,
+  '2.16.840.1.101.3.4.1.26': 24,
+  '2.16.840.1.101.3.4.1.46': 32,
+};
+
+const CIPHER_NAMES: Record<string, string> = {
+  '2.16.840.1.101.3.4.1.2': 'AES-128-CBC',
+  '2.16.840.1.101.3.4.1.22': 'AES-192-CBC',
+  '2.16.840.1.101.3.4.1.42': 'AES-256-CBC',
+  '2.16.840.1.101.3.4.1.6': 'AES-128-GCM',
+  '2.16.840.1.101.3.4.1.26': 'AES-192-GCM',
+  '2.16.840.1.101.3.4.1.46': 'AES-256-GCM',
+  '1.2.840.113549.3.7': '3DES-CBC',
+  '1.3.14.3.2.7': 'DES-CBC',
+  '1.2.840.113549.3.2': 'RC2-CBC',
+};
+
+/** A certificate as shown to the user, with the result of checking its issuer's signature */
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  notBefore: Date | null;
+  notAfter: Date | null;
+  emails: string[];
+  /** The issuer's signature checks out; null when the issuer is not in the message or uses an unsupported algorithm */
+  issuerSignatureValid: boolean | null;
+  /** Issued by itself: a root, or a certificate the user would have to trust directly */
+  selfSigned: boolean;
+}
+
+/** One signer of a SignedData */
+export interface SignerResult {
+  /** Signer certificate first, then each issuer found among the message's certificates */
+  chain: CertificateInfo[];
+  signingTime: Date | null;
+  /** The signature matches the content; null when it could not be checked (see error) */
+  valid: boolean | null;
+  error: string;
+}
+
+/** A recipient a message was encrypted for */
+export interface RecipientInfo {
+  /** Issuer and serial number of the recipient's certificate, or its subject key identifier */
+  issuer: string;
+  serialNumber: string;
+  keyId: string;
+}
+
+/** The ContentInfo type and its content */
+export function readContentInfo(der: Uint8Array): { type: string; content: Asn1 } {
+  const info = parseAsn1(der);
+  const content = contextChild(info, 0)?.children[0];
+  if (!content) throw new Error('CMS content is missing');
+  return { type: oid(child(info, 0)), content };
+}
+
+/** The encapsulated content of a SignedData, or null when it is detached */
+export function encapsulatedContent(signedData: Asn1): Uint8Array | null {
+  const encap = universalChildren(signedData)[2];
+  const eContent = encap && contextChild(encap, 0)?.children[0];
+  return eContent ? octets(eContent) : null;
+}
+
+/** Verify every signer of a SignedData over `content` (the detached content, or the encapsulated one) */
+export async function verifySignedData(signedData: Asn1, content: Uint8Array): Promise<SignerResult[]> {
+  const certificates: Certificate[] = [];
+  for (const node of contextChild(signedData, 0)?.children ?? []) {
+    if (!isUniversal(node, TAG.SEQUENCE)) continue; // attribute and other certificate formats
+    try {
+      certificates.push(parseCertificate(node.raw));
+    } catch {
+      // A certificate that cannot be read is left out of the chain
+    }
+  }
+  const signerInfos = universalChildren(signedData).pop()?.children ?? [];
+  const results: SignerResult[] = [];
+  for (const signerInfo of signerInfos) {
+    results.push(await verifySigner(signerInfo, certificates, content));
+  }
+  return results;
+}
+
+async function verifySigner(signerInfo: Asn1, certificates: Certificate[], content: Uint8Array): Promise<SignerResult> {
+  const [, sid, digestAlgorithmNode, ...rest] = signerInfo.children;
+  const signedAttrs = rest[0]?.tagClass === CONTEXT && rest[0].tag === 0 ? rest.shift() : undefined;
+  const [signatureAlgorithm, signatureNode] = rest;
+
+  const signer = certificates.find((c) => matchesIdentifier(c, sid));
+  const result: SignerResult = { chain: signer ? await buildChain(signer, certificates) : [], signingTime: null, valid: null, error: '' };
+  try {
+    if (!sid || !digestAlgorithmNode || !signatureAlgorithm || !signatureNode) throw new Error('Signer information is truncated');
+    if (!signer) throw new Error('The signer certificate is not included in the message');
+    const hash = digestAlgorithm(digestAlgorithmNode);
+    const signature = octets(signatureNode);
+
+    if (!signedAttrs) {
+      result.valid = await verifySignature(signer.publicKey, signatureAlgorithm, hash, signature, content);
+      return result;
+    }
+    // With signed attributes the signature covers them, and they carry the content's digest
+    let messageDigest: Uint8Array | null = null;
+    for (const attribute of signedAttrs.children) {
+      const type = oid(child(attribute, 0));
+      const value = child(attribute, 1).children[0];
+      if (type === OID_MESSAGE_DIGEST && value) messageDigest = octets(value);
+      else if (type === OID_SIGNING_TIME && value) result.signingTime = time(value);
+    }
+    if (!messageDigest) throw new Error('Message digest attribute is missing');
+    const contentDigest = await digest(hash, content);
+    result.valid =
+      sameBytes(contentDigest, messageDigest) &&
+      (await verifySignature(signer.publicKey, signatureAlgorithm, hash, signature, asSet(signedAttrs)));
+  } catch (e) {
+    result.valid = null;
+    result.error = e instanceof Error ? e.message : String(e);
+  }
+  return result;
+}
+
+/** Does a certificate match a SignerIdentifier or RecipientIdentifier? */
+function matchesIdentifier(cert: Certificate, id: Asn1 | undefined): boolean {
+  if (!id) return false;
+  if (isUniversal(id, TAG.SEQUENCE)) {
+    // IssuerAndSerialNumber
+    return sameBytes(cert.issuerDer, child(id, 0).raw) && cert.serial === bigInteger(child(id, 1));
+  }
+  // [0] SubjectKeyIdentifier
+  return id.tagClass === CONTEXT && id.tag === 0 && cert.subjectKeyId !== null && sameBytes(cert.subjectKeyId, octets(id));
+}
+
+async function buildChain(signer: Certificate, certificates: Certificate[]): Promise<CertificateInfo[]> {
+  const chain: CertificateInfo[] = [];
+  const seen = new Set<Certificate>();
+  for (let cert: Certificate | undefined = signer; cert && !seen.has(cert); ) {
+    seen.add(cert);
+    const current: Certificate = cert;
+    const selfSigned = sameBytes(current.issuerDer, current.subjectDer);
+    const issuer = selfSigned ? current : certificates.find((c) => c !== current && sameBytes(c.subjectDer, current.issuerDer));
+    let issuerSignatureValid: boolean | null = null;
+    if (issuer) {
+      try {
+        issuerSignatureValid = await verifySignature(issuer.publicKey, current.signatureAlgorithm, null, current.signature, current.tbs);
+      } catch {
+        issuerSignatureValid = null;
+      }
+    }
+    chain.push({
+      subject: current.subject,
+      issuer: current.issuer,
+      serialNumber: current.serialNumber,
+      notBefore: current.notBefore,
+      notAfter: current.notAfter,
+      emails: current.emails,
+      issuerSignatureValid,
+      selfSigned,
+    });
+    cert = selfSigned ? undefined : issuer;
+  }
+  return chain;
+}
+
+/** The recipients and content cipher of an EnvelopedData or AuthEnvelopedData */
+export function describeEnvelope(envelope: Asn1): { recipients: RecipientInfo[]; cipher: string } {
+  const [, recipientInfos, encryptedContentInfo] = universalChildren(envelope);
+  const recipients: RecipientInfo[] = [];
+  for (const ri of recipientInfos?.children ?? []) {
+    // Only key transport recipients (a plain SEQUENCE) name a certificate directly
+    if (!isUniversal(ri, TAG.SEQUENCE)) continue;
+    const rid = child(ri, 1);
+    if (isUniversal(rid, TAG.SEQUENCE)) {
+      recipients.push({ issuer: formatName(child(rid, 0)), serialNumber: hex(child(rid, 1).content), keyId: '' });
+    } else {
+      recipients.push({ issuer: '', serialNumber: '', keyId: hex(octets(rid)) });
+    }
+  }
+  const cipherId = encryptedContentInfo ? oid(child(child(encryptedContentInfo, 1), 0)) : '';
+  return { recipients, cipher: CIPHER_NAMES[cipherId] ?? cipherId };
+}
+
+/**
+ * Decrypt an EnvelopedData or AuthEnvelopedData with the keys of a PKCS#12 file. Recipients whose
+ * certificate is in the file are tried first; any RSA key is tried against every recipient.
+ */
+export async function decryptEnvelope(envelope: Asn1, authenticated: boolean, pkcs12: Pkcs12Contents): Promise<Uint8Array> {
+  const fields = universalChildren(envelope);
+  const [, recipientInfos, encryptedContentInfo] = fields;
+  if (!recipientInfos || !encryptedContentInfo) throw new Error('Encrypted content is truncated');
+  const transport = recipientInfos.children.filter((ri) => isUniversal(ri, TAG.SEQUENCE));
+  if (transport.length === 0) throw new SmimeError('unsupported', 'Only RSA recipients are supported');
+
+  const matched = (ri: Asn1) => pkcs12.certificates.some((c) => matchesIdentifier(c, ri.children[1]));
+  transport.sort((a, b) => Number(matched(b)) - Number(matched(a)));
+
+  for (const key of pkcs12.keys) {
+    for (const ri of transport) {
+      let cek: Uint8Array | null;
+      try {
+        cek = await unwrapKey(child(ri, 2), octets(child(ri, 3)), key);
+      } catch (e) {
+        if (e instanceof SmimeError) throw e;
+        cek = null;
+      }
+      if (!cek) continue;
+      try {
+        return await decryptContent(encryptedContentInfo, cek, authenticated ? envelope : null);
+      } catch (e) {
+        if (e instanceof SmimeError) throw e;
+        // A key that happened to unpad cleanly but was not this recipient's
+      }
+    }
+  }
+  throw new SmimeError('no-matching-key', 'None of the keys in the file can decrypt this message');
+}
+
+async function decryptContent(encryptedContentInfo: Asn1, cek: Uint8Array, authEnvelope: Asn1 | null): Promise<Uint8Array> {
+  const algorithm = child(encryptedContentInfo, 1);
+  const cipherId = oid(child(algorithm, 0));
+  const encrypted = contextChild(encryptedContentInfo, 0);
+  if (!encrypted) throw new Error('Encrypted content is missing');
+  const data = octets(encrypted);
+
+  const gcmKeyLength = GCM_CIPHERS[cipherId];
+  if (gcmKeyLength) {
+    if (!authEnvelope || cek.length !== gcmKeyLength) throw new Error('AES-GCM key does not fit');
+    const params = child(algorithm, 1);
+    const nonce = octets(child(params, 0));
+    const tagLength = params.children[1] ? Number(bigInteger(params.children[1])) : 12;
+    const mac = octets(universalChildren(authEnvelope).pop()!);
+    const authAttrs = contextChild(authEnvelope, 1);
+    const key = await crypto.subtle.importKey('raw', copy(cek), 'AES-GCM', false, ['decrypt']);
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: copy(nonce), tagLength: tagLength * 8, additionalData: authAttrs ? asSet(authAttrs) : new Uint8Array(0) },
+      key,
+      new Uint8Array([...data, ...mac]),
+    );
+    return new Uint8Array(plain);
+  }
+
+  const cipher = CBC_CIPHERS[cipherId];
+  if (!cipher) throw new SmimeError('unsupported', `Unsupported content cipher ${CIPHER_NAMES[cipherId] ?? cipherId}`);
+  if (cipher.name !== 'RC2' && cek.length !== cipher.keyLength) throw new Error('Content key does not fit the cipher');
+  return cbcDecrypt(cipherId, cek, child(algorithm, 1), data);
+}
+
+/** Recover the content-encryption key; null when the key is not this recipient's */
+async function unwrapKey(algorithm: Asn1, encryptedKey: Uint8Array, pkcs8: Uint8Array): Promise<Uint8Array | null> {
+  const id = oid(child(algorithm, 0));
+  if (id === OID_RSA_ENCRYPTION) return rsaPkcs1Decrypt(pkcs8, encryptedKey);
+  if (id === OID_RSAES_OAEP) {
+    // RSAES-OAEP-params: hashFunc [0] defaults to SHA-1; MGF1 is assumed to use the same hash
+    const params = algorithm.children[1];
+    const hashNode = params && contextChild(params, 0);
+    const hash = hashNode ? digestAlgorithm(child(hashNode, 0)) : 'SHA-1';
+    const key = await crypto.subtle.importKey('pkcs8', copy(pkcs8), { name: 'RSA-OAEP', hash }, false, ['decrypt']);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, key, copy(encryptedKey)));
+  }
+  throw new SmimeError('unsupported', `Unsupported key transport algorithm ${id}`);
+}
+
+/**
+ * RSAES-PKCS1-v1_5 decryption (RFC 8017 section 7.2.2), which WebCrypto does not offer but nearly
+ * every S/MIME client uses. Returns null when the padding does not check out, i.e. the wrong key.
+ */
+function rsaPkcs1Decrypt(pkcs8: Uint8Array, ciphertext: Uint8Array): Uint8Array | null {
+  const info = parseAsn1(pkcs8);
+  if (oid(child(child(info, 1), 0)) !== OID_RSA_ENCRYPTION) return null;
+  const rsa = parseAsn1(octets(child(info, 2)));
+  const [n, , , p, q, dp, dq, qinv] = rsa.children.slice(1, 9).map(bigInteger);
+  if (!qinv) throw new Error('RSA private key is truncated');
+
+  const size = byteLength(n);
+  let c = 0n;
+  for (const b of ciphertext) c = (c << 8n) | BigInt(b);
+  if (ciphertext.length !== size || c >= n) return null;
+
+  // Chinese remainder theorem: two half-size exponentiations instead of one full one
+  const m1 = modPow(c % p, dp, p);
+  const m2 = modPow(c % q, dq, q);
+  const h = (qinv * (((m1 - m2) % p) + p)) % p;
+  let m = m2 + h * q;
+
+  const em = new Uint8Array(size);
+  for (let i = size - 1; i >= 0; i--) {
+    em[i] = Number(m & 0xffn);
+    m >>= 8n;
+  }
+  // EM = 0x00 || 0x02 || PS (at least eight non-zero bytes) || 0x00 || M
+  if (em[0] !== 0 || em[1] !== 2) return null;
+  const separator = em.indexOf(0, 2);
+  if (separator < 10) return null;
+  return em.subarray(separator + 1);
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+  }
+  return result;
+}
+
+function byteLength(n: bigint): number {
+  return Math.ceil(n.toString(16).length / 2);
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
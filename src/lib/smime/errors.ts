@@ -0,0 +1,12 @@
+/** Why an S/MIME operation could not be completed, for problems the user can act on */
+export type SmimeErrorReason = 'wrong-password' | 'no-matching-key' | 'unsupported';
+
+export class SmimeError extends Error {
+  readonly reason: SmimeErrorReason;
+
+  constructor(reason: SmimeErrorReason, message: string) {
+    super(message);
+    this.name = 'SmimeError';
+    this.reason = reason;
+  }
+}
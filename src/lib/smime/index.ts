@@ -0,0 +1,110 @@
+/*
+ * S/MIME (RFC 8551) in the browser: signed messages, clear (multipart/signed) and opaque, are verified
+ * against the certificates they carry, and encrypted ones are decrypted with a PKCS#12 key file.
+ * Nothing is checked against trusted roots or revocation lists; the chain shown is what the sender sent.
+ */
+
+import { splitEntity, parseContentType, multipartParts, decodeTransferEncoding, toCrlf } from './mime';
+import {
+  readContentInfo,
+  encapsulatedContent,
+  verifySignedData,
+  describeEnvelope,
+  decryptEnvelope,
+  OID_SIGNED_DATA,
+  OID_ENVELOPED_DATA,
+  OID_AUTH_ENVELOPED_DATA,
+  type SignerResult,
+  type RecipientInfo,
+} from './cms';
+import { readPkcs12 } from './pkcs12';
+import { SmimeError } from './errors';
+
+export type { SignerResult, RecipientInfo, CertificateInfo } from './cms';
+export { SmimeError, type SmimeErrorReason } from './errors';
+
+/** One S/MIME wrapper around a message's content */
+export type SmimeLayer =
+  | {
+      type: 'signed';
+      /** application/pkcs7-mime signed-data, readable only by unwrapping, rather than multipart/signed */
+      opaque: boolean;
+      signers: SignerResult[];
+      /** The signed MIME entity */
+      content: Uint8Array;
+    }
+  | {
+      type: 'encrypted';
+      recipients: RecipientInfo[];
+      /** Content cipher, e.g. AES-256-CBC */
+      cipher: string;
+      /** The CMS structure, for decryptSmime */
+      envelope: Uint8Array;
+    };
+
+const SIGNATURE_TYPES = ['application/pkcs7-signature', 'application/x-pkcs7-signature'];
+const PKCS7_MIME_TYPES = ['application/pkcs7-mime', 'application/x-pkcs7-mime'];
+
+/** Layers nested deeper than this (signed inside encrypted inside signed…) are left wrapped */
+const MAX_LAYERS = 8;
+
+/** Read the outermost S/MIME layer of a message or MIME entity; null when it is not S/MIME */
+export async function readSmimeLayer(entity: Uint8Array): Promise<SmimeLayer | null> {
+  const { headers, body } = splitEntity(entity);
+  const { type, params } = parseContentType(headers.get('content-type') ?? 'text/plain');
+
+  if (type === 'multipart/signed' && SIGNATURE_TYPES.includes((params.get('protocol') ?? '').toLowerCase())) {
+    const [signedPart, signaturePart] = multipartParts(body, params.get('boundary') ?? '');
+    if (!signedPart || !signaturePart) return null;
+    const signature = splitEntity(signaturePart);
+    const cms = readContentInfo(decodeTransferEncoding(signature.body, signature.headers.get('content-transfer-encoding')));
+    if (cms.type !== OID_SIGNED_DATA) return null;
+    const content = toCrlf(signedPart);
+    return { type: 'signed', opaque: false, signers: await verifySignedData(cms.content, content), content };
+  }
+
+  if (PKCS7_MIME_TYPES.includes(type)) {
+    const der = decodeTransferEncoding(body, headers.get('content-transfer-encoding'));
+    const cms = readContentInfo(der);
+    if (cms.type === OID_SIGNED_DATA) {
+      const content = encapsulatedContent(cms.content);
+      if (!content) return null;
+      return { type: 'signed', opaque: true, signers: await verifySignedData(cms.content, content), content };
+    }
+    if (cms.type === OID_ENVELOPED_DATA || cms.type === OID_AUTH_ENVELOPED_DATA) {
+      return { type: 'encrypted', ...describeEnvelope(cms.content), envelope: der };
+    }
+  }
+  return null;
+}
+
+/**
+ * Peel S/MIME layers off a message until readable content or an encrypted layer is reached.
+ * `content` is the innermost MIME entity (the message itself when there are no layers).
+ */
+export async function unwrapSmime(entity: Uint8Array): Promise<{ layers: SmimeLayer[]; content: Uint8Array }> {
+  const layers: SmimeLayer[] = [];
+  let content = entity;
+  while (layers.length < MAX_LAYERS) {
+    let layer: SmimeLayer | null;
+    try {
+      layer = await readSmimeLayer(content);
+    } catch {
+      // Malformed CMS: show what is there rather than nothing
+      layer = null;
+    }
+    if (!layer) break;
+    layers.push(layer);
+    if (layer.type === 'encrypted') break;
+    content = layer.content;
+  }
+  return { layers, content };
+}
+
+/** Decrypt an encrypted layer with a PKCS#12 file; resolves to the MIME entity inside */
+export async function decryptSmime(envelope: Uint8Array, pkcs12: Uint8Array, password: string): Promise<Uint8Array> {
+  const contents = await readPkcs12(pkcs12, password);
+  if (contents.keys.length === 0) throw new SmimeError('no-matching-key', 'The file contains no private key');
+  const cms = readContentInfo(envelope);
+  return decryptEnvelope(cms.content, cms.type === OID_AUTH_ENVELOPED_DATA, contents);
+}
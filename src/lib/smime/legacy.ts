@@ -0,0 +1,220 @@
+/**
+ * CBC decryption with the ciphers WebCrypto lacks but older S/MIME clients and PKCS#12 exports still
+ * use: DES, Triple-DES (FIPS 46-3) and RC2 (RFC 2268). Decryption only.
+ */
+
+// --- DES ---
+
+const IP = [
+  58, 50, 42, 34, 26, 18, 10, 2, 60, 52, 44, 36, 28, 20, 12, 4, 62, 54, 46, 38, 30, 22, 14, 6, 64, 56, 48, 40, 32, 24, 16, 8,
+  57, 49, 41, 33, 25, 17, 9, 1, 59, 51, 43, 35, 27, 19, 11, 3, 61, 53, 45, 37, 29, 21, 13, 5, 63, 55, 47, 39, 31, 23, 15, 7,
+];
+
+const P = [16, 7, 20, 21, 29, 12, 28, 17, 1, 15, 23, 26, 5, 18, 31, 10, 2, 8, 24, 14, 32, 27, 3, 9, 19, 13, 30, 6, 22, 11, 4, 25];
+
+const PC1 = [
+  57, 49, 41, 33, 25, 17, 9, 1, 58, 50, 42, 34, 26, 18, 10, 2, 59, 51, 43, 35, 27, 19, 11, 3, 60, 52, 44, 36,
+  63, 55, 47, 39, 31, 23, 15, 7, 62, 54, 46, 38, 30, 22, 14, 6, 61, 53, 45, 37, 29, 21, 13, 5, 28, 20, 12, 4,
+];
+
+const PC2 = [
+  14, 17, 11, 24, 1, 5, 3, 28, 15, 6, 21, 10, 23, 19, 12, 4, 26, 8, 16, 7, 27, 20, 13, 2,
+  41, 52, 31, 37, 47, 55, 30, 40, 51, 45, 33, 48, 44, 49, 39, 56, 34, 53, 46, 42, 50, 36, 29, 32,
+];
+
+const SHIFTS = [1, 1, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 1];
+
+const S_BOXES = [
+  '14 4 13 1 2 15 11 8 3 10 6 12 5 9 0 7 0 15 7 4 14 2 13 1 10 6 12 11 9 5 3 8 4 1 14 8 13 6 2 11 15 12 9 7 3 10 5 0 15 12 8 2 4 9 1 7 5 11 3 14 10 0 6 13',
+  '15 1 8 14 6 11 3 4 9 7 2 13 12 0 5 10 3 13 4 7 15 2 8 14 12 0 1 10 6 9 11 5 0 14 7 11 10 4 13 1 5 8 12 6 9 3 2 15 13 8 10 1 3 15 4 2 11 6 7 12 0 5 14 9',
+  '10 0 9 14 6 3 15 5 1 13 12 7 11 4 2 8 13 7 0 9 3 4 6 10 2 8 5 14 12 11 15 1 13 6 4 9 8 15 3 0 11 1 2 12 5 10 14 7 1 10 13 0 6 9 8 7 4 15 14 3 11 5 2 12',
+  '7 13 14 3 0 6 9 10 1 2 8 5 11 12 4 15 13 8 11 5 6 15 0 3 4 7 2 12 1 10 14 9 10 6 9 0 12 11 7 13 15 1 3 14 5 2 8 4 3 15 0 6 10 1 13 8 9 4 5 11 12 7 2 14',
+  '2 12 4 1 7 10 11 6 8 5 3 15 13 0 14 9 14 11 2 12 4 7 13 1 5 0 15 10 3 9 8 6 4 2 1 11 10 13 7 8 15 9 12 5 6 3 0 14 11 8 12 7 1 14 2 13 6 15 0 9 10 4 5 3',
+  '12 1 10 15 9 2 6 8 0 13 3 4 14 7 5 11 10 15 4 2 7 12 9 5 6 1 13 14 0 11 3 8 9 14 15 5 2 8 12 3 7 0 4 10 1 13 11 6 4 3 2 12 9 5 15 10 11 14 1 7 6 0 8 13',
+  '4 11 2 14 15 0 8 13 3 12 9 7 5 10 6 1 13 0 11 7 4 9 1 10 14 3 5 12 2 15 8 6 1 4 11 13 12 3 7 14 10 15 6 8 0 5 9 2 6 11 13 8 1 4 10 7 9 5 0 15 14 2 3 12',
+  '13 2 8 4 6 15 11 1 10 9 3 14 5 0 12 7 1 15 13 8 10 3 7 4 12 5 6 11 0 14 9 2 7 11 4 1 9 12 14 2 0 6 10 13 15 3 5 8 2 1 14 7 4 10 8 13 15 12 9 0 3 5 6 11',
+].map((row) => row.split(' ').map(Number));
+
+/** S-box output already run through P, indexed by box and 6-bit input; built once from the tables above */
+let spTables: Uint32Array[] | null = null;
+
+function getSpTables(): Uint32Array[] {
+  if (spTables) return spTables;
+  spTables = S_BOXES.map((box, j) => {
+    const table = new Uint32Array(64);
+    for (let v = 0; v < 64; v++) {
+      // Outer bits select the row, inner four the column
+      const s = box[(((v >> 4) & 2) | (v & 1)) * 16 + ((v >> 1) & 15)];
+      table[v] = permute32(s << (28 - 4 * j), P);
+    }
+    return table;
+  });
+  return spTables;
+}
+
+/** Bit n (1 = most significant) of a 32-bit word */
+function bit32(word: number, n: number): number {
+  return (word >>> (32 - n)) & 1;
+}
+
+function permute32(word: number, table: number[]): number {
+  let out = 0;
+  for (const n of table) out = (out << 1) | bit32(word, n);
+  return out >>> 0;
+}
+
+/** Permute a 64-bit block held as two words into two words */
+function permute64(hi: number, lo: number, table: number[]): [number, number] {
+  let outHi = 0;
+  let outLo = 0;
+  table.forEach((n, i) => {
+    const b = n <= 32 ? bit32(hi, n) : bit32(lo, n - 32);
+    if (i < 32) outHi = (outHi << 1) | b;
+    else outLo = (outLo << 1) | b;
+  });
+  return [outHi >>> 0, outLo >>> 0];
+}
+
+const FP = IP.map((_, i) => IP.indexOf(i + 1) + 1);
+
+/** The 16 round keys of an 8-byte key, each as eight 6-bit values */
+function desSubkeys(key: Uint8Array): Uint8Array[] {
+  const hi = ((key[0] << 24) | (key[1] << 16) | (key[2] << 8) | key[3]) >>> 0;
+  const lo = ((key[4] << 24) | (key[5] << 16) | (key[6] << 8) | key[7]) >>> 0;
+  const bits = PC1.map((n) => (n <= 32 ? bit32(hi, n) : bit32(lo, n - 32)));
+  let c = bits.slice(0, 28);
+  let d = bits.slice(28);
+  return SHIFTS.map((shift) => {
+    c = [...c.slice(shift), ...c.slice(0, shift)];
+    d = [...d.slice(shift), ...d.slice(0, shift)];
+    const cd = [...c, ...d];
+    const round = new Uint8Array(8);
+    PC2.forEach((n, i) => {
+      const j = Math.floor(i / 6);
+      round[j] = (round[j] << 1) | cd[n - 1];
+    });
+    return round;
+  });
+}
+
+function rotl(word: number, n: number): number {
+  const k = ((n % 32) + 32) % 32;
+  return ((word << k) | (word >>> (32 - k))) >>> 0;
+}
+
+/** One DES pass over a block; pass the round keys reversed to decrypt */
+function desBlock(hi: number, lo: number, rounds: Uint8Array[]): [number, number] {
+  const sp = getSpTables();
+  let [l, r] = permute64(hi, lo, IP);
+  for (const k of rounds) {
+    let f = 0;
+    for (let j = 0; j < 8; j++) f |= sp[j][((rotl(r, 4 * j - 1) >>> 26) & 0x3f) ^ k[j]];
+    [l, r] = [r, (l ^ f) >>> 0];
+  }
+  return permute64(r, l, FP);
+}
+
+/** DES or Triple-DES (EDE, 8, 16 or 24 byte key) in CBC mode */
+export function desCbcDecrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  if (key.length !== 8 && key.length !== 16 && key.length !== 24) throw new Error('Invalid DES key length');
+  const keys = [key.subarray(0, 8), key.subarray(8, 16), key.subarray(key.length === 24 ? 16 : 0, key.length === 24 ? 24 : 8)];
+  const forward = keys.map(desSubkeys);
+  const backward = forward.map((k) => [...k].reverse());
+  return cbcDecrypt(iv, data, (hi, lo) => {
+    if (key.length === 8) return desBlock(hi, lo, backward[0]);
+    // EDE: decrypt with K3, encrypt with K2, decrypt with K1
+    [hi, lo] = desBlock(hi, lo, backward[2]);
+    [hi, lo] = desBlock(hi, lo, forward[1]);
+    return desBlock(hi, lo, backward[0]);
+  });
+}
+
+// --- RC2 ---
+
+const PITABLE = new Uint8Array([
+  0xd9, 0x78, 0xf9, 0xc4, 0x19, 0xdd, 0xb5, 0xed, 0x28, 0xe9, 0xfd, 0x79, 0x4a, 0xa0, 0xd8, 0x9d,
+  0xc6, 0x7e, 0x37, 0x83, 0x2b, 0x76, 0x53, 0x8e, 0x62, 0x4c, 0x64, 0x88, 0x44, 0x8b, 0xfb, 0xa2,
+  0x17, 0x9a, 0x59, 0xf5, 0x87, 0xb3, 0x4f, 0x13, 0x61, 0x45, 0x6d, 0x8d, 0x09, 0x81, 0x7d, 0x32,
+  0xbd, 0x8f, 0x40, 0xeb, 0x86, 0xb7, 0x7b, 0x0b, 0xf0, 0x95, 0x21, 0x22, 0x5c, 0x6b, 0x4e, 0x82,
+  0x54, 0xd6, 0x65, 0x93, 0xce, 0x60, 0xb2, 0x1c, 0x73, 0x56, 0xc0, 0x14, 0xa7, 0x8c, 0xf1, 0xdc,
+  0x12, 0x75, 0xca, 0x1f, 0x3b, 0xbe, 0xe4, 0xd1, 0x42, 0x3d, 0xd4, 0x30, 0xa3, 0x3c, 0xb6, 0x26,
+  0x6f, 0xbf, 0x0e, 0xda, 0x46, 0x69, 0x07, 0x57, 0x27, 0xf2, 0x1d, 0x9b, 0xbc, 0x94, 0x43, 0x03,
+  0xf8, 0x11, 0xc7, 0xf6, 0x90, 0xef, 0x3e, 0xe7, 0x06, 0xc3, 0xd5, 0x2f, 0xc8, 0x66, 0x1e, 0xd7,
+  0x08, 0xe8, 0xea, 0xde, 0x80, 0x52, 0xee, 0xf7, 0x84, 0xaa, 0x72, 0xac, 0x35, 0x4d, 0x6a, 0x2a,
+  0x96, 0x1a, 0xd2, 0x71, 0x5a, 0x15, 0x49, 0x74, 0x4b, 0x9f, 0xd0, 0x5e, 0x04, 0x18, 0xa4, 0xec,
+  0xc2, 0xe0, 0x41, 0x6e, 0x0f, 0x51, 0xcb, 0xcc, 0x24, 0x91, 0xaf, 0x50, 0xa1, 0xf4, 0x70, 0x39,
+  0x99, 0x7c, 0x3a, 0x85, 0x23, 0xb8, 0xb4, 0x7a, 0xfc, 0x02, 0x36, 0x5b, 0x25, 0x55, 0x97, 0x31,
+  0x2d, 0x5d, 0xfa, 0x98, 0xe3, 0x8a, 0x92, 0xae, 0x05, 0xdf, 0x29, 0x10, 0x67, 0x6c, 0xba, 0xc9,
+  0xd3, 0x00, 0xe6, 0xcf, 0xe1, 0x9e, 0xa8, 0x2c, 0x63, 0x16, 0x01, 0x3f, 0x58, 0xe2, 0x89, 0xa9,
+  0x0d, 0x38, 0x34, 0x1b, 0xab, 0x33, 0xff, 0xb0, 0xbb, 0x48, 0x0c, 0x5f, 0xb9, 0xb1, 0xcd, 0x2e,
+  0xc5, 0xf3, 0xdb, 0x47, 0xe5, 0xa5, 0x9c, 0x77, 0x0a, 0xa6, 0x20, 0x68, 0xfe, 0x7f, 0xc1, 0xad,
+]);
+
+function rc2Expand(key: Uint8Array, effectiveBits: number): Uint16Array {
+  const l = new Uint8Array(128);
+  l.set(key.subarray(0, 128));
+  const t = Math.min(key.length, 128);
+  for (let i = t; i < 128; i++) l[i] = PITABLE[(l[i - 1] + l[i - t]) & 0xff];
+  const t8 = Math.ceil(effectiveBits / 8);
+  const tm = 0xff >> (8 * t8 - effectiveBits);
+  l[128 - t8] = PITABLE[l[128 - t8] & tm];
+  for (let i = 127 - t8; i >= 0; i--) l[i] = PITABLE[l[i + 1] ^ l[i + t8]];
+  const k = new Uint16Array(64);
+  for (let i = 0; i < 64; i++) k[i] = l[2 * i] | (l[2 * i + 1] << 8);
+  return k;
+}
+
+/** RC2 in CBC mode with the given effective key length in bits */
+export function rc2CbcDecrypt(key: Uint8Array, effectiveBits: number, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const k = rc2Expand(key, effectiveBits);
+  const shifts = [1, 2, 3, 5];
+  return cbcDecrypt(iv, data, (hi, lo) => {
+    // The block is four little-endian 16-bit words
+    const r = [hi >>> 16, hi & 0xffff, lo >>> 16, lo & 0xffff].map((w) => (w >> 8) | ((w & 0xff) << 8));
+    let j = 63;
+    const mix = () => {
+      for (let i = 3; i >= 0; i--) {
+        r[i] = ((r[i] >>> shifts[i]) | (r[i] << (16 - shifts[i]))) & 0xffff;
+        r[i] = (r[i] - k[j--] - (r[(i + 3) & 3] & r[(i + 2) & 3]) - (~r[(i + 3) & 3] & r[(i + 1) & 3])) & 0xffff;
+      }
+    };
+    const mash = () => {
+      for (let i = 3; i >= 0; i--) r[i] = (r[i] - k[r[(i + 3) & 3] & 63]) & 0xffff;
+    };
+    for (const [count, step] of [[5, mix], [1, mash], [6, mix], [1, mash], [5, mix]] as const) {
+      for (let n = 0; n < count; n++) step();
+    }
+    const [w0, w1, w2, w3] = r.map((w) => (w >> 8) | ((w & 0xff) << 8));
+    return [((w0 << 16) | w1) >>> 0, ((w2 << 16) | w3) >>> 0];
+  });
+}
+
+// --- CBC ---
+
+/** CBC over a 64-bit block cipher, PKCS#7 padding removed; throws when the padding is wrong */
+function cbcDecrypt(iv: Uint8Array, data: Uint8Array, block: (hi: number, lo: number) => [number, number]): Uint8Array {
+  if (iv.length !== 8 || data.length === 0 || data.length % 8 !== 0) throw new Error('Invalid block cipher input');
+  const word = (b: Uint8Array, i: number) => ((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+  const out = new Uint8Array(data.length);
+  let prevHi = word(iv, 0);
+  let prevLo = word(iv, 4);
+  for (let i = 0; i < data.length; i += 8) {
+    const hi = word(data, i);
+    const lo = word(data, i + 4);
+    const [dHi, dLo] = block(hi, lo);
+    const pHi = (dHi ^ prevHi) >>> 0;
+    const pLo = (dLo ^ prevLo) >>> 0;
+    out.set([pHi >>> 24, (pHi >>> 16) & 0xff, (pHi >>> 8) & 0xff, pHi & 0xff, pLo >>> 24, (pLo >>> 16) & 0xff, (pLo >>> 8) & 0xff, pLo & 0xff], i);
+    prevHi = hi;
+    prevLo = lo;
+  }
+  return removePadding(out, 8);
+}
+
+/** Strip PKCS#7 padding; a bad pad almost always means the key (or password) was wrong */
+export function removePadding(data: Uint8Array, blockSize: number): Uint8Array {
+  const pad = data[data.length - 1];
+  if (pad < 1 || pad > blockSize || pad > data.length) throw new Error('Decryption failed (bad padding)');
+  for (let i = data.length - pad; i < data.length; i++) if (data[i] !== pad) throw new Error('Decryption failed (bad padding)');
+  return data.subarray(0, data.length - pad);
+}
@@ -0,0 +1,87 @@
+/**
+ * Just enough MIME to find S/MIME parts in the raw bytes. Signatures cover the exact bytes of the
+ * signed part, so this cannot go through a decoding parser. Bytes are handled as binary strings.
+ */
+
+export interface MimeEntity {
+  /** Lower-case names, folding removed; the first occurrence of each header wins */
+  headers: Map<string, string>;
+  body: Uint8Array;
+}
+
+export function splitEntity(bytes: Uint8Array): MimeEntity {
+  const text = binaryString(bytes);
+  const match = /\r?\n\r?\n/.exec(text);
+  const headerEnd = match ? match.index : text.length;
+  const bodyStart = match ? match.index + match[0].length : text.length;
+
+  const headers = new Map<string, string>();
+  const unfolded = text.slice(0, headerEnd).replace(/\r?\n(?=[ \t])/g, '');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body: bytes.subarray(bodyStart) };
+}
+
+/** Media type in lower case and its parameters (names in lower case, values unquoted) */
+export function parseContentType(value: string): { type: string; params: Map<string, string> } {
+  const semicolon = value.indexOf(';');
+  const type = (semicolon < 0 ? value : value.slice(0, semicolon)).trim().toLowerCase();
+  const params = new Map<string, string>();
+  const re = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;\s]*)/g;
+  for (const m of value.matchAll(re)) {
+    const raw = m[2];
+    params.set(m[1].toLowerCase(), raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw);
+  }
+  return { type, params };
+}
+
+/** The body parts of a multipart body, each with its headers, as the exact bytes between the delimiters */
+export function multipartParts(body: Uint8Array, boundary: string): Uint8Array[] {
+  const text = binaryString(body);
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // The line break before a delimiter belongs to the delimiter, not to the part
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g');
+  const parts: Uint8Array[] = [];
+  let start = -1;
+  for (const m of text.matchAll(delimiter)) {
+    if (start >= 0) parts.push(body.subarray(start, m.index));
+    if (m[1]) break;
+    start = m.index + m[0].length;
+  }
+  return parts;
+}
+
+/** Decode a part body according to its Content-Transfer-Encoding; S/MIME parts are nearly always base64 */
+export function decodeTransferEncoding(body: Uint8Array, encoding: string | undefined): Uint8Array {
+  if ((encoding ?? '').trim().toLowerCase() !== 'base64') return body;
+  const binary = atob(binaryString(body).replace(/[^A-Za-z0-9+/]/g, ''));
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i);
+  return out;
+}
+
+/** Canonical line endings (RFC 8551 section 3.1.1); messages saved to disk often lost their CRs */
+export function toCrlf(bytes: Uint8Array): Uint8Array {
+  let bare = 0;
+  for (let i = 0; i < bytes.length; i++) if (bytes[i] === 0x0a && (i === 0 || bytes[i - 1] !== 0x0d)) bare++;
+  if (bare === 0) return bytes;
+  const out = new Uint8Array(bytes.length + bare);
+  let pos = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === 0x0a && (i === 0 || bytes[i - 1] !== 0x0d)) out[pos++] = 0x0d;
+    out[pos++] = bytes[i];
+  }
+  return out;
+}
+
+function binaryString(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
@@ -0,0 +1,205 @@
+/**
+ * PKCS#12 (.p12 / .pfx, RFC 7292) files: the private keys and certificates a user exports from a mail
+ * client or certificate store. Both the legacy PKCS#12 password-based encryption (Triple-DES, RC2)
+ * and PBES2 with PBKDF2 and AES (RFC 8018), which newer tools write, are supported.
+ */
+
+import { parseAsn1, child, contextChild, oid, integer, octets, sameBytes, type Asn1 } from './asn1';
+import { parseCertificate, type Certificate } from './x509';
+import { digestAlgorithm, copy, type HashName } from './signature';
+import { desCbcDecrypt, rc2CbcDecrypt } from './legacy';
+import { CBC_CIPHERS, cbcDecrypt } from './cipher';
+import { SmimeError } from './errors';
+
+export interface Pkcs12Contents {
+  /** PKCS#8 PrivateKeyInfo encodings */
+  keys: Uint8Array[];
+  certificates: Certificate[];
+}
+
+const OID_DATA = '1.2.840.113549.1.7.1';
+const OID_ENCRYPTED_DATA = '1.2.840.113549.1.7.6';
+
+const BAG_KEY = '1.2.840.113549.1.12.10.1.1';
+const BAG_SHROUDED_KEY = '1.2.840.113549.1.12.10.1.2';
+const BAG_CERT = '1.2.840.113549.1.12.10.1.3';
+const BAG_SAFE_CONTENTS = '1.2.840.113549.1.12.10.1.6';
+const OID_X509_CERTIFICATE = '1.2.840.113549.1.9.22.1';
+
+/** PKCS#12 PBE schemes: key length and cipher; keys and IVs come from the PKCS#12 KDF with SHA-1 */
+const PKCS12_PBE: Record<string, { keyLength: number; cipher: 'des' | 'rc2' }> = {
+  '1.2.840.113549.1.12.1.3': { keyLength: 24, cipher: 'des' },
+  '1.2.840.113549.1.12.1.4': { keyLength: 16, cipher: 'des' },
+  '1.2.840.113549.1.12.1.5': { keyLength: 16, cipher: 'rc2' },
+  '1.2.840.113549.1.12.1.6': { keyLength: 5, cipher: 'rc2' },
+};
+
+const OID_PBES2 = '1.2.840.113549.1.5.13';
+const OID_PBKDF2 = '1.2.840.113549.1.5.12';
+const OID_PBMAC1 = '1.2.840.113549.1.5.14';
+
+const PBKDF2_PRF: Record<string, HashName> = {
+  '1.2.840.113549.2.7': 'SHA-1',
+  '1.2.840.113549.2.9': 'SHA-256',
+  '1.2.840.113549.2.10': 'SHA-384',
+  '1.2.840.113549.2.11': 'SHA-512',
+};
+
+/** Read the keys and certificates of a PKCS#12 file; throws SmimeError('wrong-password') when the password does not fit */
+export async function readPkcs12(data: Uint8Array, password: string): Promise<Pkcs12Contents> {
+  let pfx: Asn1;
+  try {
+    pfx = parseAsn1(data);
+  } catch {
+    throw new Error('Not a valid PKCS#12 file');
+  }
+  const authSafe = child(pfx, 1);
+  if (oid(child(authSafe, 0)) !== OID_DATA) throw new SmimeError('unsupported', 'Public-key protected PKCS#12 files are not supported');
+  const authSafeData = octets(child(child(authSafe, 1), 0));
+
+  const macData = pfx.children[2];
+  if (macData) await checkMac(macData, authSafeData, password);
+
+  const contents: Pkcs12Contents = { keys: [], certificates: [] };
+  for (const info of parseAsn1(authSafeData).children) {
+    const type = oid(child(info, 0));
+    if (type === OID_DATA) {
+      await readSafeContents(parseAsn1(octets(child(child(info, 1), 0))), password, contents);
+    } else if (type === OID_ENCRYPTED_DATA) {
+      const encryptedContentInfo = child(child(child(info, 1), 0), 1);
+      const encrypted = contextChild(encryptedContentInfo, 0);
+      if (!encrypted) continue;
+      try {
+        const plain = await decryptPbe(child(encryptedContentInfo, 1), octets(encrypted), password);
+        await readSafeContents(parseAsn1(plain), password, contents);
+      } catch (e) {
+        // Certificates are only a convenience for decryption; a bag in an unsupported cipher is skipped
+        if (!(e instanceof SmimeError && e.reason === 'unsupported')) throw e;
+      }
+    }
+  }
+  return contents;
+}
+
+async function readSafeContents(safeContents: Asn1, password: string, contents: Pkcs12Contents): Promise<void> {
+  for (const bag of safeContents.children) {
+    const bagId = oid(child(bag, 0));
+    const value = contextChild(bag, 0)?.children[0];
+    if (!value) continue;
+    if (bagId === BAG_KEY) {
+      contents.keys.push(value.raw);
+    } else if (bagId === BAG_SHROUDED_KEY) {
+      contents.keys.push(await decryptPbe(child(value, 0), octets(child(value, 1)), password));
+    } else if (bagId === BAG_CERT && oid(child(value, 0)) === OID_X509_CERTIFICATE) {
+      const certValue = contextChild(value, 0)?.children[0];
+      if (certValue) contents.certificates.push(parseCertificate(octets(certValue)));
+    } else if (bagId === BAG_SAFE_CONTENTS) {
+      await readSafeContents(value, password, contents);
+    }
+  }
+}
+
+/** HMAC over the authenticated safe with a key from the PKCS#12 KDF; the first check of the password */
+async function checkMac(macData: Asn1, content: Uint8Array, password: string): Promise<void> {
+  const digestInfo = child(macData, 0);
+  const algorithm = child(digestInfo, 0);
+  // PBMAC1 (RFC 9579) keys the MAC with PBKDF2; decryption padding still catches a wrong password
+  if (oid(child(algorithm, 0)) === OID_PBMAC1) return;
+  const hash = digestAlgorithm(algorithm);
+  const expected = octets(child(digestInfo, 1));
+  const salt = octets(child(macData, 1));
+  const iterations = macData.children[2] ? integer(macData.children[2]) : 1;
+  const keyBytes = await pkcs12Kdf(hash, bmpPassword(password), salt, iterations, 3, expected.length);
+  const key = await crypto.subtle.importKey('raw', copy(keyBytes), { name: 'HMAC', hash }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, copy(content)));
+  if (!sameBytes(mac, expected)) throw new SmimeError('wrong-password', 'The password is incorrect');
+}
+
+/** Decrypt with a password-based scheme, PKCS#12 PBE or PBES2 */
+async function decryptPbe(algorithm: Asn1, data: Uint8Array, password: string): Promise<Uint8Array> {
+  const id = oid(child(algorithm, 0));
+  const params = child(algorithm, 1);
+  try {
+    const legacy = PKCS12_PBE[id];
+    if (legacy) {
+      const salt = octets(child(params, 0));
+      const iterations = integer(child(params, 1));
+      const pass = bmpPassword(password);
+      const key = await pkcs12Kdf('SHA-1', pass, salt, iterations, 1, legacy.keyLength);
+      const iv = await pkcs12Kdf('SHA-1', pass, salt, iterations, 2, 8);
+      return legacy.cipher === 'des' ? desCbcDecrypt(key, iv, data) : rc2CbcDecrypt(key, legacy.keyLength * 8, iv, data);
+    }
+    if (id === OID_PBES2) return await decryptPbes2(params, data, password);
+  } catch (e) {
+    if (e instanceof SmimeError) throw e;
+    // Padding errors are how a wrong password shows when there was no MAC to check
+    throw new SmimeError('wrong-password', 'The password is incorrect');
+  }
+  throw new SmimeError('unsupported', `Unsupported password-based encryption ${id}`);
+}
+
+async function decryptPbes2(params: Asn1, data: Uint8Array, password: string): Promise<Uint8Array> {
+  const kdf = child(params, 0);
+  const scheme = child(params, 1);
+  if (oid(child(kdf, 0)) !== OID_PBKDF2) throw new SmimeError('unsupported', 'Unsupported key derivation function');
+  const kdfParams = child(kdf, 1);
+  const salt = octets(child(kdfParams, 0));
+  const iterations = integer(child(kdfParams, 1));
+  // keyLength and prf are both optional; the prf is the only SEQUENCE among them
+  const prfNode = kdfParams.children.slice(2).find((c) => c.constructed);
+  const prfId = prfNode ? oid(child(prfNode, 0)) : '1.2.840.113549.2.7';
+  const prf = PBKDF2_PRF[prfId];
+  if (!prf) throw new SmimeError('unsupported', `Unsupported PBKDF2 function ${prfId}`);
+
+  const cipherId = oid(child(scheme, 0));
+  const cipher = CBC_CIPHERS[cipherId];
+  if (!cipher || cipher.name === 'RC2') throw new SmimeError('unsupported', `Unsupported cipher ${cipherId}`);
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: copy(salt), iterations, hash: prf },
+    baseKey,
+    cipher.keyLength * 8,
+  );
+  return cbcDecrypt(cipherId, new Uint8Array(bits), child(scheme, 1), data);
+}
+
+/** The password as PKCS#12 hashes it: UTF-16BE with a terminating NUL */
+function bmpPassword(password: string): Uint8Array {
+  const out = new Uint8Array((password.length + 1) * 2);
+  for (let i = 0; i < password.length; i++) {
+    out[i * 2] = password.charCodeAt(i) >> 8;
+    out[i * 2 + 1] = password.charCodeAt(i) & 0xff;
+  }
+  return out;
+}
+
+/** RFC 7292 appendix B.2; id 1 derives keys, 2 IVs and 3 MAC keys */
+async function pkcs12Kdf(hash: HashName, password: Uint8Array, salt: Uint8Array, iterations: number, id: number, length: number): Promise<Uint8Array> {
+  const v = hash === 'SHA-384' || hash === 'SHA-512' ? 128 : 64;
+  const repeat = (bytes: Uint8Array) => {
+    const out = new Uint8Array(bytes.length === 0 ? 0 : Math.ceil(bytes.length / v) * v);
+    for (let i = 0; i < out.length; i++) out[i] = bytes[i % bytes.length];
+    return out;
+  };
+  const i = new Uint8Array([...repeat(salt), ...repeat(password)]);
+  const d = new Uint8Array(v).fill(id);
+  const out = new Uint8Array(length);
+  for (let filled = 0; filled < length; ) {
+    let a = new Uint8Array(await crypto.subtle.digest(hash, new Uint8Array([...d, ...i])));
+    for (let n = 1; n < iterations; n++) a = new Uint8Array(await crypto.subtle.digest(hash, a));
+    out.set(a.subarray(0, length - filled), filled);
+    filled += a.length;
+    if (filled >= length) break;
+    // I_j = (I_j + B + 1) mod 2^(8v) for every v-byte block of I, where B is A repeated to v bytes
+    const b = repeat(a).subarray(0, v);
+    for (let j = 0; j < i.length; j += v) {
+      let carry = 1;
+      for (let k = v - 1; k >= 0; k--) {
+        const sum = i[j + k] + b[k] + carry;
+        i[j + k] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+  return out;
+}
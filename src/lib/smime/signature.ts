@@ -0,0 +1,142 @@
+/**
+ * Digest and signature algorithms of CMS and X.509, mapped onto WebCrypto.
+ */
+
+import { parseAsn1, child, contextChild, oid, integer, isUniversal, TAG, type Asn1 } from './asn1';
+import { SmimeError } from './errors';
+
+export type HashName = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+const DIGESTS: Record<string, HashName> = {
+  '1.3.14.3.2.26': 'SHA-1',
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+/** RSASSA-PKCS1-v1_5; rsaEncryption takes its hash from the separate digest algorithm */
+const RSA_SIGNATURES: Record<string, HashName | null> = {
+  '1.2.840.113549.1.1.1': null,
+  '1.2.840.113549.1.1.5': 'SHA-1',
+  '1.2.840.113549.1.1.11': 'SHA-256',
+  '1.2.840.113549.1.1.12': 'SHA-384',
+  '1.2.840.113549.1.1.13': 'SHA-512',
+};
+
+/** ECDSA; a bare ecPublicKey takes its hash from the separate digest algorithm */
+const ECDSA_SIGNATURES: Record<string, HashName | null> = {
+  '1.2.840.10045.2.1': null,
+  '1.2.840.10045.4.1': 'SHA-1',
+  '1.2.840.10045.4.3.2': 'SHA-256',
+  '1.2.840.10045.4.3.3': 'SHA-384',
+  '1.2.840.10045.4.3.4': 'SHA-512',
+};
+
+const OID_RSA_PSS = '1.2.840.113549.1.1.10';
+const OID_ED25519 = '1.3.101.112';
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+
+/** Named curves and the byte length of their coordinates */
+const CURVES: Record<string, [string, number]> = {
+  '1.2.840.10045.3.1.7': ['P-256', 32],
+  '1.3.132.0.34': ['P-384', 48],
+  '1.3.132.0.35': ['P-521', 66],
+};
+
+/** The hash named by a digest AlgorithmIdentifier */
+export function digestAlgorithm(algorithm: Asn1): HashName {
+  const id = oid(child(algorithm, 0));
+  const hash = DIGESTS[id];
+  if (!hash) throw new SmimeError('unsupported', `Unsupported digest algorithm ${id}`);
+  return hash;
+}
+
+export async function digest(hash: HashName, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(hash, copy(data)));
+}
+
+/**
+ * Check `signature` over `data` with an encoded SubjectPublicKeyInfo. `hash` is the separate digest
+ * algorithm CMS signer infos carry, used when the signature algorithm does not name one itself.
+ */
+export async function verifySignature(
+  publicKey: Uint8Array,
+  algorithm: Asn1,
+  hash: HashName | null,
+  signature: Uint8Array,
+  data: Uint8Array,
+): Promise<boolean> {
+  const id = oid(child(algorithm, 0));
+  const spki = copy(publicKey);
+
+  if (id in RSA_SIGNATURES) {
+    const params = { name: 'RSASSA-PKCS1-v1_5', hash: RSA_SIGNATURES[id] ?? required(hash) };
+    const key = await crypto.subtle.importKey('spki', spki, params, false, ['verify']);
+    return crypto.subtle.verify(params, key, copy(signature), copy(data));
+  }
+  if (id === OID_RSA_PSS) {
+    const pss = pssParameters(algorithm.children[1]);
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'RSA-PSS', hash: pss.hash }, false, ['verify']);
+    return crypto.subtle.verify({ name: 'RSA-PSS', saltLength: pss.saltLength }, key, copy(signature), copy(data));
+  }
+  if (id in ECDSA_SIGNATURES) {
+    const [namedCurve, size] = ecCurve(publicKey);
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve }, false, ['verify']);
+    return crypto.subtle.verify(
+      { name: 'ECDSA', hash: ECDSA_SIGNATURES[id] ?? required(hash) },
+      key,
+      ecdsaRawSignature(signature, size),
+      copy(data),
+    );
+  }
+  if (id === OID_ED25519) {
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'Ed25519' }, false, ['verify']);
+    return crypto.subtle.verify({ name: 'Ed25519' }, key, copy(signature), copy(data));
+  }
+  throw new SmimeError('unsupported', `Unsupported signature algorithm ${id}`);
+}
+
+function required(hash: HashName | null): HashName {
+  if (!hash) throw new SmimeError('unsupported', 'The signature algorithm needs a digest algorithm');
+  return hash;
+}
+
+/** RSASSA-PSS-params; only MGF1 with the same hash is supported, as WebCrypto requires */
+function pssParameters(params: Asn1 | undefined): { hash: HashName; saltLength: number } {
+  let hash: HashName = 'SHA-1';
+  let saltLength = 20;
+  if (params && isUniversal(params, TAG.SEQUENCE)) {
+    const hashNode = contextChild(params, 0);
+    if (hashNode) hash = digestAlgorithm(child(hashNode, 0));
+    const saltNode = contextChild(params, 2);
+    if (saltNode) saltLength = integer(child(saltNode, 0));
+  }
+  return { hash, saltLength };
+}
+
+function ecCurve(publicKey: Uint8Array): [string, number] {
+  const algorithm = child(parseAsn1(publicKey), 0);
+  if (oid(child(algorithm, 0)) !== OID_EC_PUBLIC_KEY) throw new SmimeError('unsupported', 'The key is not an EC key');
+  const curveId = oid(child(algorithm, 1));
+  const curve = CURVES[curveId];
+  if (!curve) throw new SmimeError('unsupported', `Unsupported elliptic curve ${curveId}`);
+  return curve;
+}
+
+/** ECDSA signatures are a DER SEQUENCE of r and s; WebCrypto wants them as fixed-size big-endian r || s */
+function ecdsaRawSignature(der: Uint8Array, size: number): Uint8Array<ArrayBuffer> {
+  const seq = parseAsn1(der);
+  const out = new Uint8Array(size * 2);
+  [child(seq, 0), child(seq, 1)].forEach((n, i) => {
+    let value = n.content;
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    if (value.length > size) throw new Error('ECDSA signature value is too long');
+    out.set(value, (i + 1) * size - value.length);
+  });
+  return out;
+}
+
+/** WebCrypto wants ArrayBuffer-backed views; parsed values may be views into a shared buffer */
+export function copy(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,142 @@
+/**
+ * X.509 certificates (RFC 5280), read only as far as showing a signer and checking a chain requires.
+ */
+
+import {
+  parseAsn1,
+  child,
+  contextChild,
+  oid,
+  bigInteger,
+  octets,
+  bitString,
+  text,
+  time,
+  isUniversal,
+  TAG,
+  CONTEXT,
+  type Asn1,
+} from './asn1';
+
+export interface Certificate {
+  /** Distinguished name, most significant part (country) last as usually displayed: "CN=…, O=…, C=…" */
+  subject: string;
+  issuer: string;
+  /** Hexadecimal */
+  serialNumber: string;
+  notBefore: Date | null;
+  notAfter: Date | null;
+  /** From subjectAltName, or the emailAddress attribute of the subject */
+  emails: string[];
+  /** The certificate as encoded */
+  der: Uint8Array;
+  /** Signed part, for checking the issuer's signature */
+  tbs: Uint8Array;
+  /** Encoded issuer and subject names, compared when matching certificates to each other and to signers */
+  issuerDer: Uint8Array;
+  subjectDer: Uint8Array;
+  serial: bigint;
+  subjectKeyId: Uint8Array | null;
+  /** SubjectPublicKeyInfo as encoded */
+  publicKey: Uint8Array;
+  /** The issuer's signature over tbs */
+  signatureAlgorithm: Asn1;
+  signature: Uint8Array;
+}
+
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.4': 'SN',
+  '2.5.4.5': 'serialNumber',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.9': 'street',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '2.5.4.12': 'title',
+  '2.5.4.42': 'GN',
+  '2.5.4.97': 'organizationIdentifier',
+  '0.9.2342.19200300.100.1.25': 'DC',
+  '1.2.840.113549.1.9.1': 'E',
+};
+
+const OID_EMAIL_ADDRESS = '1.2.840.113549.1.9.1';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+const OID_SUBJECT_KEY_ID = '2.5.29.14';
+
+export function parseCertificate(der: Uint8Array): Certificate {
+  const cert = parseAsn1(der);
+  const tbs = child(cert, 0);
+  // version [0] is optional, so every later field shifts by one when it is present
+  const fields = tbs.children.filter((c) => !(c.tagClass === CONTEXT && c.tag === 0));
+  const [serialNode, , issuerNode, validity, subjectNode, spki] = fields;
+  if (!serialNode || !issuerNode || !validity || !subjectNode || !spki) throw new Error('Certificate is truncated');
+
+  const subjectAttributes = nameAttributes(subjectNode);
+  const emails = new Set<string>();
+  let subjectKeyId: Uint8Array | null = null;
+  const extensions = contextChild(tbs, 3)?.children[0]?.children ?? [];
+  for (const ext of extensions) {
+    const id = oid(child(ext, 0));
+    const value = parseAsn1(octets(ext.children[ext.children.length - 1]));
+    if (id === OID_SUBJECT_ALT_NAME) {
+      // rfc822Name [1] IA5String
+      for (const name of value.children) if (name.tagClass === CONTEXT && name.tag === 1) emails.add(text(name));
+    } else if (id === OID_SUBJECT_KEY_ID && isUniversal(value, TAG.OCTET_STRING)) {
+      subjectKeyId = value.content;
+    }
+  }
+  for (const [type, value] of subjectAttributes) if (type === OID_EMAIL_ADDRESS) emails.add(value);
+
+  const serial = bigInteger(serialNode);
+  return {
+    subject: joinAttributes(subjectAttributes),
+    issuer: formatName(issuerNode),
+    serialNumber: serialNode.content.reduce((s, b) => s + b.toString(16).padStart(2, '0'), ''),
+    notBefore: time(child(validity, 0)),
+    notAfter: time(child(validity, 1)),
+    emails: [...emails],
+    der,
+    tbs: tbs.raw,
+    issuerDer: issuerNode.raw,
+    subjectDer: subjectNode.raw,
+    serial,
+    subjectKeyId,
+    publicKey: spki.raw,
+    signatureAlgorithm: child(cert, 1),
+    signature: bitString(child(cert, 2)),
+  };
+}
+
+/** A Name (issuer or subject) as display text */
+export function formatName(name: Asn1): string {
+  return joinAttributes(nameAttributes(name));
+}
+
+/** The common name, or the whole subject when there is none */
+export function displayName(cert: Certificate): string {
+  return /(?:^|, )CN=([^,]+)/.exec(cert.subject)?.[1] ?? cert.subject;
+}
+
+/** (type OID, value) pairs of a Name in encoded order */
+function nameAttributes(name: Asn1): [string, string][] {
+  const out: [string, string][] = [];
+  for (const rdn of name.children) {
+    for (const attribute of rdn.children) {
+      try {
+        out.push([oid(child(attribute, 0)), text(child(attribute, 1))]);
+      } catch {
+        // Unusual value types are left out of the display name
+      }
+    }
+  }
+  return out;
+}
+
+function joinAttributes(attributes: [string, string][]): string {
+  return attributes
+    .map(([type, value]) => `${ATTRIBUTE_NAMES[type] ?? type}=${value}`)
+    .reverse()
+    .join(', ');
+}
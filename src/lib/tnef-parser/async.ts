@@ -0,0 +1,57 @@
+import { parseTnef } from './index';
+import { TnefParseError } from './diagnostics';
+import type { TnefParseOptions, TnefParseResult, TnefProgress, TnefWarning } from './types';
+
+/** Message from the page to the parser worker */
+export interface TnefWorkerRequest {
+  data: Uint8Array;
+  options: Omit<TnefParseOptions, 'onProgress'>;
+  reportProgress: boolean;
+}
+
+/** Messages from the parser worker back to the page */
+export type TnefWorkerResponse =
+  | { type: 'progress'; progress: TnefProgress }
+  | { type: 'result'; result: TnefParseResult }
+  | { type: 'error'; message: string; warning: TnefWarning | null };
+
+/**
+ * Parse a winmail.dat (TNEF) file in a Web Worker, keeping the page responsive for large files.
+ * The input is copied to the worker; the result comes back without another copy, its attachment
+ * data being views into the worker's copy. Without Worker support (e.g. during SSR) this parses in place.
+ * Errors are the same as parseTnef's.
+ * Not re-exported from the index: the worker imports the parser from there and must not pull in this module.
+ */
+export function parseTnefAsync(buffer: ArrayBuffer | Uint8Array, options: TnefParseOptions = {}): Promise<TnefParseResult> {
+  if (typeof Worker === 'undefined') {
+    return new Promise((resolve) => resolve(parseTnef(buffer, options)));
+  }
+
+  const { onProgress, ...workerOptions } = options;
+  let data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  // Posting a view clones its whole buffer, so only send the bytes that belong to the file
+  if (data.byteLength !== data.buffer.byteLength) data = data.slice();
+
+  const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+  return new Promise<TnefParseResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<TnefWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      worker.terminate();
+      if (response.type === 'result') {
+        resolve(response.result);
+      } else {
+        reject(response.warning ? new TnefParseError(response.warning) : new Error(response.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'TNEF worker failed'));
+    };
+    const request: TnefWorkerRequest = { data, options: workerOptions, reportProgress: !!onProgress };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,398 @@
+import { findNamedProperty, findProperty } from './properties';
+import {
+  type MapiProperty,
+  type MapiValue,
+  type TnefMeeting,
+  type TnefMeetingMethod,
+  type TnefRecipient,
+  type TnefRecurrence,
+  PROP,
+  PSETID,
+} from './types';
+
+/** PSETID_Appointment property LIDs (MS-OXOCAL) */
+const LID_APPOINTMENT = {
+  SEQUENCE: 0x8201,
+  BUSY_STATUS: 0x8205,
+  LOCATION: 0x8208,
+  START_WHOLE: 0x820d,
+  END_WHOLE: 0x820e,
+  SUB_TYPE: 0x8215,
+  RECUR: 0x8216,
+  ORGANIZER_ALIAS: 0x8243,
+} as const;
+
+/** PSETID_Meeting property LIDs (MS-OXOCAL) */
+const LID_MEETING = {
+  WHERE: 0x0002,
+  GLOBAL_OBJECT_ID: 0x0003,
+  CLEAN_GLOBAL_OBJECT_ID: 0x0023,
+} as const;
+
+/** Minutes between 1601-01-01 and 1970-01-01 — recurrence blobs count minutes since 1601 */
+const MINUTES_1601_TO_1970 = 11644473600000 / 60000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface MeetingSource {
+  messageClass: string;
+  subject: string;
+  body: string;
+  senderName: string;
+  senderEmail: string;
+  to: TnefRecipient[];
+  cc: TnefRecipient[];
+}
+
+/**
+ * Decode an Outlook meeting request, response, cancellation or appointment.
+ * Returns null for every other message class.
+ */
+export function decodeMeeting(props: MapiProperty[], source: MeetingSource): TnefMeeting | null {
+  const method = meetingMethod(source.messageClass);
+  if (!method) return null;
+
+  const appt = (lid: number) => findNamedProperty(props, PSETID.APPOINTMENT, lid)?.value;
+  const meeting = (lid: number) => findNamedProperty(props, PSETID.MEETING, lid)?.value;
+
+  const start = asDate(appt(LID_APPOINTMENT.START_WHOLE)) || asDate(findProperty(props, PROP.START_DATE)?.value);
+  const end = asDate(appt(LID_APPOINTMENT.END_WHOLE)) || asDate(findProperty(props, PROP.END_DATE)?.value);
+
+  const globalId = meeting(LID_MEETING.GLOBAL_OBJECT_ID) ?? meeting(LID_MEETING.CLEAN_GLOBAL_OBJECT_ID);
+  const recur = appt(LID_APPOINTMENT.RECUR);
+
+  const cls = source.messageClass.toLowerCase();
+  const response = cls.endsWith('.resp.pos')
+    ? 'ACCEPTED'
+    : cls.endsWith('.resp.neg')
+      ? 'DECLINED'
+      : cls.endsWith('.resp.tent') ? 'TENTATIVE' : null;
+
+  // A reply is sent by the responding attendee to the organizer
+  const sender = source.senderName || source.senderEmail ? { name: source.senderName, email: source.senderEmail } : null;
+  const organizer = method === 'REPLY' ? replyOrganizer(asString(appt(LID_APPOINTMENT.ORGANIZER_ALIAS)), source.to) : sender;
+  const attendees: TnefRecipient[] = method === 'REPLY'
+    ? (sender ? [{ ...sender, addressType: 'SMTP', type: 'to' }] : [])
+    : [...source.to, ...source.cc];
+
+  return {
+    method,
+    response,
+    uid: globalId instanceof Uint8Array ? toHex(globalId) : fallbackUid(source, start),
+    summary: source.subject,
+    location: asString(appt(LID_APPOINTMENT.LOCATION)) || asString(meeting(LID_MEETING.WHERE)),
+    description: source.body,
+    start,
+    end,
+    allDay: asBoolean(appt(LID_APPOINTMENT.SUB_TYPE)),
+    sequence: asNumber(appt(LID_APPOINTMENT.SEQUENCE)),
+    busy: asNumber(appt(LID_APPOINTMENT.BUSY_STATUS), 2) !== 0,
+    organizer,
+    attendees,
+    recurrence: recur instanceof Uint8Array && start ? parseRecurrence(recur, start) : null,
+  };
+}
+
+/** The organizer a reply is addressed to: PidLidOrganizerAlias when it is an address, else the first To recipient */
+function replyOrganizer(alias: string, to: TnefRecipient[]): { name: string; email: string } | null {
+  const address = alias.includes('@') ? alias.toLowerCase() : '';
+  const recipient = to.find((r) => (address ? r.email.toLowerCase() === address : !!r.email));
+  if (recipient) return { name: recipient.name, email: recipient.email };
+  return address ? { name: '', email: alias } : null;
+}
+
+function meetingMethod(messageClass: string): TnefMeetingMethod | null {
+  const cls = messageClass.toLowerCase();
+  if (cls.startsWith('ipm.schedule.meeting.request')) return 'REQUEST';
+  if (cls.startsWith('ipm.schedule.meeting.canceled')) return 'CANCEL';
+  if (cls.startsWith('ipm.schedule.meeting.resp.')) return 'REPLY';
+  if (cls.startsWith('ipm.appointment')) return 'PUBLISH';
+  return null;
+}
+
+/**
+ * Parse an AppointmentRecurrencePattern (PidLidAppointmentRecur, MS-OXOCAL 2.2.1.44).
+ * Blob dates are local wall-clock minutes; the zone offset is recovered from the UTC start time.
+ */
+export function parseRecurrence(blob: Uint8Array, start: Date): TnefRecurrence | null {
+  try {
+    const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+    let pos = 4; // ReaderVersion + WriterVersion
+    const u16 = () => { const v = view.getUint16(pos, true); pos += 2; return v; };
+    const u32 = () => { const v = view.getUint32(pos, true); pos += 4; return v; };
+
+    const recurFrequency = u16();
+    const patternType = u16();
+    u16(); // CalendarType
+    u32(); // FirstDateTime
+    const period = u32();
+    u32(); // SlidingFlag
+
+    let dayMask = 0;
+    let dayOfMonth = 0;
+    let nth = 0;
+    switch (patternType) {
+      case 0x0001: // Week
+        dayMask = u32();
+        break;
+      case 0x0002: // Month
+      case 0x0004: // MonthEnd
+      case 0x000a: // HjMonth
+      case 0x000c: // HjMonthEnd
+        dayOfMonth = u32();
+        break;
+      case 0x0003: // MonthNth
+      case 0x000b: // HjMonthNth
+        dayMask = u32();
+        nth = u32();
+        break;
+    }
+
+    const endType = u32();
+    const occurrenceCount = u32();
+    u32(); // FirstDOW
+    const deleted: number[] = [];
+    const deletedCount = u32();
+    for (let i = 0; i < deletedCount; i++) deleted.push(u32());
+    const modified = new Set<number>();
+    const modifiedCount = u32();
+    for (let i = 0; i < modifiedCount; i++) modified.add(u32());
+    const startDate = u32();
+    const endDate = u32();
+
+    // AppointmentRecurrencePattern: ReaderVersion2, WriterVersion2, StartTimeOffset, EndTimeOffset
+    pos += 8;
+    const startTimeOffset = pos + 4 <= blob.length ? u32() : 0;
+
+    // Local wall-clock minutes → UTC, using the offset between the blob's local start and the UTC start
+    const localStartMinutes = startDate + startTimeOffset;
+    const utcStartMinutes = start.getTime() / 60000 + MINUTES_1601_TO_1970;
+    const zoneOffset = localStartMinutes - utcStartMinutes;
+    const toUtc = (localMinutes: number) =>
+      new Date((localMinutes - zoneOffset - MINUTES_1601_TO_1970) * 60000);
+
+    const byDay = WEEKDAYS.filter((_, i) => dayMask & (1 << i));
+    const recurrence: TnefRecurrence = {
+      frequency: 'DAILY',
+      interval: 1,
+      byDay: [],
+      byMonthDay: null,
+      byMonth: null,
+      bySetPos: null,
+      count: null,
+      until: null,
+      // Modified occurrences also appear in the deleted list; only truly deleted ones become EXDATEs
+      exceptions: deleted.filter((d) => !modified.has(d)).map((d) => toUtc(d + startTimeOffset)),
+    };
+
+    switch (recurFrequency) {
+      case 0x200a: // Daily
+        if (patternType === 0x0001) {
+          // "Every weekday" is stored as a weekly pattern
+          recurrence.frequency = 'WEEKLY';
+          recurrence.byDay = byDay;
+        } else {
+          recurrence.interval = Math.max(1, Math.round(period / 1440));
+        }
+        break;
+      case 0x200b: // Weekly
+        recurrence.frequency = 'WEEKLY';
+        recurrence.interval = Math.max(1, period);
+        recurrence.byDay = byDay;
+        break;
+      case 0x200c: // Monthly
+      case 0x200d: // Yearly (period is in months)
+        if (recurFrequency === 0x200d) {
+          recurrence.frequency = 'YEARLY';
+          recurrence.interval = Math.max(1, Math.round(period / 12));
+          // Month of the first occurrence in local time
+          recurrence.byMonth = new Date(start.getTime() + zoneOffset * 60000).getUTCMonth() + 1;
+        } else {
+          recurrence.frequency = 'MONTHLY';
+          recurrence.interval = Math.max(1, period);
+        }
+        if (patternType === 0x0003 || patternType === 0x000b) {
+          recurrence.byDay = byDay;
+          recurrence.bySetPos = nth === 5 ? -1 : nth;
+        } else if (patternType === 0x0004 || patternType === 0x000c) {
+          recurrence.byMonthDay = -1;
+        } else if (dayOfMonth) {
+          recurrence.byMonthDay = dayOfMonth;
+        }
+        break;
+      default:
+        return null;
+    }
+
+    if (endType === 0x2022) {
+      recurrence.count = occurrenceCount;
+    } else if (endType === 0x2021) {
+      recurrence.until = toUtc(endDate + startTimeOffset);
+    }
+
+    return recurrence;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize a meeting as an iCalendar (RFC 5545) object with a single VEVENT.
+ * Times are written in UTC so no VTIMEZONE is needed.
+ */
+export function buildMeetingIcs(meeting: TnefMeeting, now: Date = new Date()): string {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OpenedFile//winmail.dat viewer//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${meeting.method}`,
+    'BEGIN:VEVENT',
+    `UID:${escapeText(meeting.uid)}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `SEQUENCE:${meeting.sequence}`,
+  ];
+
+  if (meeting.start) {
+    lines.push(meeting.allDay
+      ? `DTSTART;VALUE=DATE:${formatAllDayDate(meeting.start)}`
+      : `DTSTART:${formatDateTime(meeting.start)}`);
+  }
+  if (meeting.end) {
+    lines.push(meeting.allDay
+      ? `DTEND;VALUE=DATE:${formatAllDayDate(meeting.end)}`
+      : `DTEND:${formatDateTime(meeting.end)}`);
+  }
+  if (meeting.summary) lines.push(`SUMMARY:${escapeText(meeting.summary)}`);
+  if (meeting.location) lines.push(`LOCATION:${escapeText(meeting.location)}`);
+  if (meeting.description) lines.push(`DESCRIPTION:${escapeText(meeting.description)}`);
+
+  if (meeting.recurrence) {
+    lines.push(`RRULE:${formatRrule(meeting.recurrence)}`);
+    for (const ex of meeting.recurrence.exceptions) {
+      lines.push(meeting.allDay
+        ? `EXDATE;VALUE=DATE:${formatAllDayDate(ex)}`
+        : `EXDATE:${formatDateTime(ex)}`);
+    }
+  }
+
+  if (meeting.organizer?.email) {
+    lines.push(`ORGANIZER${cnParam(meeting.organizer.name)}:mailto:${meeting.organizer.email}`);
+  }
+  if (meeting.method === 'REPLY') {
+    // A reply carries only the responding attendee (the sender) and their answer
+    for (const a of meeting.attendees) {
+      if (a.email && meeting.response) lines.push(`ATTENDEE${cnParam(a.name)};PARTSTAT=${meeting.response}:mailto:${a.email}`);
+    }
+  } else {
+    for (const a of meeting.attendees) {
+      if (!a.email) continue;
+      const role = a.type === 'cc' ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT';
+      lines.push(`ATTENDEE${cnParam(a.name)};ROLE=${role};PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${a.email}`);
+    }
+  }
+
+  lines.push(`TRANSP:${meeting.busy ? 'OPAQUE' : 'TRANSPARENT'}`);
+  if (meeting.method === 'CANCEL') lines.push('STATUS:CANCELLED');
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function formatRrule(r: TnefRecurrence): string {
+  const parts = [`FREQ=${r.frequency}`];
+  if (r.interval > 1) parts.push(`INTERVAL=${r.interval}`);
+  if (r.byDay.length > 0) parts.push(`BYDAY=${r.byDay.join(',')}`);
+  if (r.byMonthDay !== null) parts.push(`BYMONTHDAY=${r.byMonthDay}`);
+  if (r.byMonth !== null) parts.push(`BYMONTH=${r.byMonth}`);
+  if (r.bySetPos !== null) parts.push(`BYSETPOS=${r.bySetPos}`);
+  if (r.count !== null) parts.push(`COUNT=${r.count}`);
+  else if (r.until) parts.push(`UNTIL=${formatDateTime(r.until)}`);
+  return parts.join(';');
+}
+
+function cnParam(name: string): string {
+  if (!name) return '';
+  // Parameter values containing : ; or , must be quoted; DQUOTE itself is not allowed
+  const clean = name.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `;CN="${clean}"` : `;CN=${clean}`;
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11) */
+export function escapeText(s: string): string {
+  return s
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Fold a content line to 75 octets (RFC 5545 §3.1), never splitting a UTF-8 sequence */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  let out = '';
+  let lineBytes = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (lineBytes + size > 75) {
+      out += '\r\n ';
+      lineBytes = 1;
+    }
+    out += ch;
+    lineBytes += size;
+  }
+  return out;
+}
+
+function pad2(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** UTC date-time in iCalendar basic format, e.g. 20240102T030405Z */
+export function formatDateTime(d: Date): string {
+  return `${d.getUTCFullYear()}${pad2(d.getUTCMonth() + 1)}${pad2(d.getUTCDate())}` +
+    `T${pad2(d.getUTCHours())}${pad2(d.getUTCMinutes())}${pad2(d.getUTCSeconds())}Z`;
+}
+
+/**
+ * All-day events are stored as local midnight converted to UTC, and the zone is unknown here.
+ * Shifting by 12 hours lands on the intended calendar day for every offset between UTC-12 and UTC+12.
+ */
+export function formatAllDayDate(d: Date): string {
+  const shifted = new Date(d.getTime() + 12 * 3600 * 1000);
+  return `${shifted.getUTCFullYear()}${pad2(shifted.getUTCMonth() + 1)}${pad2(shifted.getUTCDate())}`;
+}
+
+function fallbackUid(source: MeetingSource, start: Date | null): string {
+  return hashUid(`${source.subject}|${source.senderEmail}|${start?.getTime() ?? ''}`);
+}
+
+/** Stable UID derived from item fields, for items that carry no global ID of their own */
+export function hashUid(seed: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return `${hash.toString(16).padStart(8, '0')}@openedfile.com`;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+function asDate(value: MapiValue | undefined): Date | null {
+  return value instanceof Date ? value : null;
+}
+
+function asString(value: MapiValue | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function asNumber(value: MapiValue | undefined, fallback = 0): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+function asBoolean(value: MapiValue | undefined): boolean {
+  if (typeof value === 'boolean') return value;
+  return typeof value === 'number' ? value !== 0 : false;
+}
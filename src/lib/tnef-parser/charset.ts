@@ -0,0 +1,279 @@
+import { codepageToEncoding } from './decoder';
+import type { TnefEncodingSource } from './types';
+
+/** Encoding assumed for ANSI strings when there is no codepage and no non-ASCII text to go by */
+export const DEFAULT_ANSI_ENCODING = 'shift_jis';
+
+/**
+ * Encodings legacy ANSI strings are checked against, in order of preference on a tie.
+ * Single-byte codepages come before the Chinese ones: a run of Cyrillic or Greek bytes
+ * also decodes as plausible Han characters, while Chinese text in a single-byte codepage
+ * is betrayed by its random mix of upper and lower case. Thai, which has no case, goes last.
+ */
+export const ANSI_ENCODINGS = [
+  'shift_jis',
+  'windows-1252',
+  'windows-1250',
+  'windows-1251',
+  'windows-1253',
+  'windows-1254',
+  'windows-1255',
+  'windows-1256',
+  'windows-1257',
+  'windows-1258',
+  'gbk',
+  'big5',
+  'euc-kr',
+  'windows-874',
+  'utf-8',
+] as const;
+
+/** attOemCodepage may hold a DOS (OEM) codepage; map it to the Windows (ANSI) codepage of the same locale */
+const OEM_TO_ANSI: Record<number, number> = {
+  437: 1252,
+  720: 1256,
+  737: 1253,
+  775: 1257,
+  850: 1252,
+  852: 1250,
+  855: 1251,
+  857: 1254,
+  858: 1252,
+  860: 1252,
+  861: 1252,
+  862: 1255,
+  863: 1252,
+  864: 1256,
+  865: 1252,
+  866: 1251,
+  869: 1253,
+};
+
+/** Only this much text is scored, so huge legacy bodies do not slow detection down */
+const MAX_SAMPLE_BYTES = 4096;
+const MAX_TOTAL_SAMPLE_BYTES = 32768;
+
+/** What is known about the ANSI strings of one message */
+export interface AnsiEncodingHints {
+  /** PidTagMessageCodepage */
+  messageCodepage: number | null;
+  /** attOemCodepage (TNEF only) */
+  oemCodepage: number | null;
+  /** PidTagInternetCodepage — the codepage of the body, usually but not always that of the strings */
+  internetCodepage: number | null;
+  /** Raw bytes of the PT_STRING8 values and legacy attributes */
+  samples: Uint8Array[];
+}
+
+export interface AnsiEncodingChoice {
+  encoding: string;
+  source: TnefEncodingSource;
+}
+
+/**
+ * Pick the encoding for a message's ANSI strings: an explicit override, then the codepage
+ * properties, then a guess from the strings themselves.
+ */
+export function chooseAnsiEncoding(hints: AnsiEncodingHints, override?: string): AnsiEncodingChoice {
+  if (override) return { encoding: override, source: 'override' };
+
+  const fromCodepage = codepageHintEncoding(hints);
+  if (fromCodepage) return { encoding: fromCodepage, source: 'codepage' };
+
+  const detected = detectAnsiEncoding(hints.samples);
+  if (detected) return { encoding: detected, source: 'detected' };
+
+  return { encoding: DEFAULT_ANSI_ENCODING, source: 'default' };
+}
+
+/**
+ * Encoding named by the codepage properties, or null if they are missing or unusable.
+ * A UTF-8 internet codepage only describes the body, since ANSI strings are never UTF-8 in practice.
+ */
+export function codepageHintEncoding(hints: Omit<AnsiEncodingHints, 'samples'>): string | null {
+  if (hints.messageCodepage !== null) {
+    const encoding = codepageToEncoding(hints.messageCodepage);
+    if (encoding) return encoding;
+  }
+  if (hints.oemCodepage !== null) {
+    const encoding = codepageToEncoding(OEM_TO_ANSI[hints.oemCodepage] ?? hints.oemCodepage);
+    if (encoding) return encoding;
+  }
+  if (hints.internetCodepage !== null) {
+    const encoding = codepageToEncoding(hints.internetCodepage);
+    if (encoding && encoding !== 'utf-8') return encoding;
+  }
+  return null;
+}
+
+/**
+ * Guess the encoding of ANSI strings from their bytes, or null if they are plain ASCII.
+ * Valid UTF-8 wins outright; otherwise every candidate decodes the samples and the one
+ * whose text looks most like real words in a single script is chosen.
+ */
+export function detectAnsiEncoding(samples: Uint8Array[]): string | null {
+  const text: Uint8Array[] = [];
+  let total = 0;
+  for (const sample of samples) {
+    if (total >= MAX_TOTAL_SAMPLE_BYTES) break;
+    if (!sample.some((b) => b >= 0x80)) continue;
+    const clipped = sample.subarray(0, Math.min(MAX_SAMPLE_BYTES, MAX_TOTAL_SAMPLE_BYTES - total));
+    text.push(clipped);
+    total += clipped.length;
+  }
+  if (text.length === 0) return null;
+
+  const utf8 = new TextDecoder('utf-8', { fatal: true });
+  if (text.every((bytes) => isDecodable(utf8, bytes))) return 'utf-8';
+
+  let best: string | null = null;
+  let bestScore = -Infinity;
+  for (const encoding of ANSI_ENCODINGS) {
+    if (encoding === 'utf-8') continue;
+    let decoder: TextDecoder;
+    try {
+      decoder = new TextDecoder(encoding);
+    } catch {
+      continue;
+    }
+    const score = text.reduce((sum, bytes) => sum + scoreText(decoder.decode(bytes)), 0);
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * The bytes a string was decoded from with windows-1252, which maps every byte to a
+ * distinct character — used to recover ANSI samples from already-decoded property values.
+ */
+export function windows1252Bytes(text: string): Uint8Array {
+  const table = windows1252Table();
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = table.get(text[i]) ?? 0x3f;
+  return bytes;
+}
+
+let windows1252Cache: Map<string, number> | null = null;
+
+function windows1252Table(): Map<string, number> {
+  if (!windows1252Cache) {
+    const chars = new TextDecoder('windows-1252').decode(Uint8Array.from({ length: 256 }, (_, i) => i));
+    windows1252Cache = new Map([...chars].map((ch, i) => [ch, i]));
+  }
+  return windows1252Cache;
+}
+
+function isDecodable(decoder: TextDecoder, bytes: Uint8Array): boolean {
+  try {
+    decoder.decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Plausibility of decoded text: positive for characters that form words of one script,
+ * negative for replacement characters, control codes, private-use characters and mixed-script words.
+ * CJK characters are scored one by one, since they stand for two bytes and form no words.
+ */
+function scoreText(text: string): number {
+  const chars = [...text];
+  let score = 0;
+  let word: string[] = [];
+  // Whether the previous character was Hangul, Han or kana (null for anything else)
+  let previousHangul: boolean | null = null;
+  const flush = () => {
+    if (word.length > 0) score += scoreWord(word);
+    word = [];
+  };
+
+  chars.forEach((ch, i) => {
+    const cp = ch.codePointAt(0)!;
+    if (cp < 0x80) {
+      previousHangul = null;
+      if (isAsciiLetter(cp)) word.push(ch);
+      else flush();
+      return;
+    }
+
+    const cjk = cjkWeight(cp);
+    if (cjk !== null) {
+      flush();
+      // A lone CJK character inside a Latin word is a misread accented letter
+      const before = i > 0 && isAsciiLetter(chars[i - 1].codePointAt(0)!);
+      const after = i + 1 < chars.length && isAsciiLetter(chars[i + 1].codePointAt(0)!);
+      score += before && after ? -4 : before || after ? Math.min(cjk, 0) : cjk;
+      // Korean rarely puts Hanja right next to Hangul; Chinese read as EUC-KR alternates between them
+      const hangul = cp >= 0xac00 && cp <= 0xd7a3;
+      if (cjk > 1 && previousHangul !== null && previousHangul !== hangul) score -= 4;
+      previousHangul = cjk > 1 ? hangul : null;
+      return;
+    }
+    previousHangul = null;
+
+    if (/[\p{L}\p{M}]/u.test(ch)) {
+      word.push(ch);
+      return;
+    }
+    flush();
+    if (cp === 0xfffd || cp < 0xa0 || (cp >= 0xe000 && cp <= 0xf8ff)) score -= 4;
+  });
+  flush();
+  return score;
+}
+
+/** Score one word of alphabetic letters by its non-ASCII letters */
+function scoreWord(word: string[]): number {
+  const nonAscii = word.filter((ch) => ch.codePointAt(0)! >= 0x80).length;
+  if (nonAscii === 0) return 0;
+
+  const scripts = new Set(word.map(scriptOf).filter((s) => s !== null));
+  if (scripts.size > 1) return -2 * nonAscii;
+
+  // Real words do not switch from lower to upper case halfway through
+  for (let i = 1; i < word.length; i++) {
+    if (isLower(word[i - 1]) && isUpper(word[i])) return -nonAscii;
+  }
+
+  // Western words are mostly ASCII; a longer Latin word without any ASCII letter is another script misread
+  if (scripts.has('Latin') && nonAscii === word.length && word.length > 1) return -nonAscii;
+  return scripts.has('Other') ? 0 : nonAscii;
+}
+
+/** Weight of a CJK character, or null for anything else */
+function cjkWeight(cp: number): number | null {
+  // Hiragana and katakana, Hangul syllables — the surest signs of Japanese and Korean
+  if ((cp >= 0x3040 && cp <= 0x30ff) || (cp >= 0xac00 && cp <= 0xd7a3)) return 3;
+  // Han ideographs, CJK punctuation and full-width forms — as much as two letters of a single-byte codepage
+  if ((cp >= 0x4e00 && cp <= 0x9fff) || (cp >= 0x3400 && cp <= 0x4dbf)) return 2;
+  if ((cp >= 0x3000 && cp <= 0x303f) || (cp >= 0xff01 && cp <= 0xff60)) return 2;
+  // Half-width katakana is rare in mail; in Shift_JIS it is what stray Latin-1 bytes become
+  if (cp >= 0xff61 && cp <= 0xff9f) return -1;
+  return null;
+}
+
+const SCRIPTS = ['Latin', 'Cyrillic', 'Greek', 'Hebrew', 'Arabic', 'Thai'].map(
+  (name) => [name, new RegExp(`\\p{Script=${name}}`, 'u')] as const,
+);
+
+/** Script of a letter; null for combining marks shared between scripts */
+function scriptOf(ch: string): string | null {
+  if (/\p{Script=Inherited}|\p{Script=Common}/u.test(ch)) return null;
+  return SCRIPTS.find(([, re]) => re.test(ch))?.[0] ?? 'Other';
+}
+
+function isAsciiLetter(cp: number): boolean {
+  return (cp >= 0x41 && cp <= 0x5a) || (cp >= 0x61 && cp <= 0x7a);
+}
+
+function isLower(ch: string): boolean {
+  return ch !== ch.toUpperCase() && ch === ch.toLowerCase();
+}
+
+function isUpper(ch: string): boolean {
+  return ch !== ch.toLowerCase() && ch === ch.toUpperCase();
+}
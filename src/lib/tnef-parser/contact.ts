@@ -0,0 +1,215 @@
+import { findNamedProperty, findProperty } from './properties';
+import { escapeText, foldLine, formatAllDayDate } from './calendar';
+import {
+  type MapiProperty,
+  type MapiValue,
+  type TnefContact,
+  type TnefContactPhone,
+  type TnefContactAddress,
+  PROP,
+  PSETID,
+} from './types';
+
+/** Standard contact properties (MS-OXOCNTC) */
+const CONTACT_PROP = {
+  GENERATION: 0x3a05,
+  GIVEN_NAME: 0x3a06,
+  BUSINESS_PHONE: 0x3a08,
+  HOME_PHONE: 0x3a09,
+  SURNAME: 0x3a11,
+  COMPANY_NAME: 0x3a16,
+  TITLE: 0x3a17,
+  DEPARTMENT_NAME: 0x3a18,
+  PRIMARY_PHONE: 0x3a1a,
+  BUSINESS2_PHONE: 0x3a1b,
+  MOBILE_PHONE: 0x3a1c,
+  CAR_PHONE: 0x3a1e,
+  OTHER_PHONE: 0x3a1f,
+  PAGER: 0x3a21,
+  BUSINESS_FAX: 0x3a24,
+  HOME_FAX: 0x3a25,
+  HOME2_PHONE: 0x3a2f,
+  BIRTHDAY: 0x3a42,
+  MIDDLE_NAME: 0x3a44,
+  DISPLAY_NAME_PREFIX: 0x3a45,
+  NICKNAME: 0x3a4f,
+  PERSONAL_HOME_PAGE: 0x3a50,
+  BUSINESS_HOME_PAGE: 0x3a51,
+  HOME_CITY: 0x3a59,
+  HOME_COUNTRY: 0x3a5a,
+  HOME_POSTAL_CODE: 0x3a5b,
+  HOME_STATE: 0x3a5c,
+  HOME_STREET: 0x3a5d,
+  HOME_PO_BOX: 0x3a5e,
+  OTHER_CITY: 0x3a5f,
+  OTHER_COUNTRY: 0x3a60,
+  OTHER_POSTAL_CODE: 0x3a61,
+  OTHER_STATE: 0x3a62,
+  OTHER_STREET: 0x3a63,
+  OTHER_PO_BOX: 0x3a64,
+} as const;
+
+/** PSETID_Address property LIDs (MS-OXOCNTC) */
+const LID_ADDRESS = {
+  FILE_UNDER: 0x8005,
+  HTML: 0x802b,
+  WORK_STREET: 0x8045,
+  WORK_CITY: 0x8046,
+  WORK_STATE: 0x8047,
+  WORK_POSTAL_CODE: 0x8048,
+  WORK_COUNTRY: 0x8049,
+  WORK_PO_BOX: 0x804a,
+  /** Email1–Email3 each use a block of 0x10 LIDs */
+  EMAIL1_ADDRESS: 0x8083,
+  EMAIL1_ORIGINAL_DISPLAY_NAME: 0x8084,
+} as const;
+
+const EMAIL_LID_STRIDE = 0x10;
+
+/** Phone numbers in the order they are listed on the card */
+const PHONES: [number, TnefContactPhone['type']][] = [
+  [CONTACT_PROP.MOBILE_PHONE, 'mobile'],
+  [CONTACT_PROP.BUSINESS_PHONE, 'work'],
+  [CONTACT_PROP.BUSINESS2_PHONE, 'work'],
+  [CONTACT_PROP.HOME_PHONE, 'home'],
+  [CONTACT_PROP.HOME2_PHONE, 'home'],
+  [CONTACT_PROP.PRIMARY_PHONE, 'main'],
+  [CONTACT_PROP.BUSINESS_FAX, 'work-fax'],
+  [CONTACT_PROP.HOME_FAX, 'home-fax'],
+  [CONTACT_PROP.PAGER, 'pager'],
+  [CONTACT_PROP.CAR_PHONE, 'car'],
+  [CONTACT_PROP.OTHER_PHONE, 'other'],
+];
+
+/** vCard 3.0 TEL types per phone kind */
+const PHONE_TYPES: Record<TnefContactPhone['type'], string> = {
+  work: 'WORK,VOICE',
+  home: 'HOME,VOICE',
+  mobile: 'CELL,VOICE',
+  'work-fax': 'WORK,FAX',
+  'home-fax': 'HOME,FAX',
+  pager: 'PAGER',
+  car: 'CAR',
+  main: 'VOICE,PREF',
+  other: 'VOICE',
+};
+
+export interface ContactSource {
+  messageClass: string;
+  subject: string;
+  body: string;
+}
+
+/** Decode an Outlook contact; returns null for every other message class */
+export function decodeContact(props: MapiProperty[], source: ContactSource): TnefContact | null {
+  if (!source.messageClass.toLowerCase().startsWith('ipm.contact')) return null;
+
+  const str = (id: number) => asString(findProperty(props, id)?.value);
+  const addr = (lid: number) => asString(findNamedProperty(props, PSETID.ADDRESS, lid)?.value);
+
+  // Email addresses of Exchange contacts are X.500 DNs; the SMTP form is then in the original display name
+  const emails: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    const offset = i * EMAIL_LID_STRIDE;
+    const email = [addr(LID_ADDRESS.EMAIL1_ADDRESS + offset), addr(LID_ADDRESS.EMAIL1_ORIGINAL_DISPLAY_NAME + offset)]
+      .find((candidate) => candidate.includes('@'));
+    if (email && !emails.includes(email)) emails.push(email);
+  }
+
+  const phones: TnefContactPhone[] = [];
+  for (const [id, type] of PHONES) {
+    const number = str(id);
+    if (number) phones.push({ type, number });
+  }
+
+  const addresses = [
+    {
+      type: 'work' as const,
+      street: addr(LID_ADDRESS.WORK_STREET),
+      city: addr(LID_ADDRESS.WORK_CITY),
+      region: addr(LID_ADDRESS.WORK_STATE),
+      postalCode: addr(LID_ADDRESS.WORK_POSTAL_CODE),
+      country: addr(LID_ADDRESS.WORK_COUNTRY),
+      poBox: addr(LID_ADDRESS.WORK_PO_BOX),
+    },
+    {
+      type: 'home' as const,
+      street: str(CONTACT_PROP.HOME_STREET),
+      city: str(CONTACT_PROP.HOME_CITY),
+      region: str(CONTACT_PROP.HOME_STATE),
+      postalCode: str(CONTACT_PROP.HOME_POSTAL_CODE),
+      country: str(CONTACT_PROP.HOME_COUNTRY),
+      poBox: str(CONTACT_PROP.HOME_PO_BOX),
+    },
+    {
+      type: 'other' as const,
+      street: str(CONTACT_PROP.OTHER_STREET),
+      city: str(CONTACT_PROP.OTHER_CITY),
+      region: str(CONTACT_PROP.OTHER_STATE),
+      postalCode: str(CONTACT_PROP.OTHER_POSTAL_CODE),
+      country: str(CONTACT_PROP.OTHER_COUNTRY),
+      poBox: str(CONTACT_PROP.OTHER_PO_BOX),
+    },
+  ].filter((a) => a.street || a.city || a.region || a.postalCode || a.country || a.poBox);
+
+  const birthday = findProperty(props, CONTACT_PROP.BIRTHDAY)?.value;
+
+  return {
+    displayName: str(PROP.DISPLAY_NAME) || source.subject || addr(LID_ADDRESS.FILE_UNDER),
+    givenName: str(CONTACT_PROP.GIVEN_NAME),
+    middleName: str(CONTACT_PROP.MIDDLE_NAME),
+    surname: str(CONTACT_PROP.SURNAME),
+    prefix: str(CONTACT_PROP.DISPLAY_NAME_PREFIX),
+    suffix: str(CONTACT_PROP.GENERATION),
+    nickname: str(CONTACT_PROP.NICKNAME),
+    company: str(CONTACT_PROP.COMPANY_NAME),
+    department: str(CONTACT_PROP.DEPARTMENT_NAME),
+    jobTitle: str(CONTACT_PROP.TITLE),
+    emails,
+    phones,
+    addresses,
+    birthday: birthday instanceof Date ? birthday : null,
+    webPage: addr(LID_ADDRESS.HTML) || str(CONTACT_PROP.BUSINESS_HOME_PAGE) || str(CONTACT_PROP.PERSONAL_HOME_PAGE),
+    notes: source.body,
+  };
+}
+
+/** Serialize a contact as a vCard 3.0 (RFC 2426) card */
+export function buildVcard(contact: TnefContact): string {
+  const lines: string[] = ['BEGIN:VCARD', 'VERSION:3.0'];
+
+  const n = [contact.surname, contact.givenName, contact.middleName, contact.prefix, contact.suffix];
+  lines.push(`N:${n.map(escapeText).join(';')}`);
+  lines.push(`FN:${escapeText(contact.displayName || n.filter(Boolean).join(' '))}`);
+  if (contact.nickname) lines.push(`NICKNAME:${escapeText(contact.nickname)}`);
+  if (contact.company || contact.department) {
+    lines.push(`ORG:${escapeText(contact.company)}${contact.department ? `;${escapeText(contact.department)}` : ''}`);
+  }
+  if (contact.jobTitle) lines.push(`TITLE:${escapeText(contact.jobTitle)}`);
+
+  contact.emails.forEach((email, i) => {
+    lines.push(`EMAIL;TYPE=INTERNET${i === 0 ? ',PREF' : ''}:${escapeText(email)}`);
+  });
+  for (const phone of contact.phones) {
+    lines.push(`TEL;TYPE=${PHONE_TYPES[phone.type]}:${escapeText(phone.number)}`);
+  }
+  for (const a of contact.addresses) {
+    // ADR: post office box; extended address; street; locality; region; postal code; country
+    const adr = [a.poBox, '', a.street, a.city, a.region, a.postalCode, a.country];
+    lines.push(`ADR;TYPE=${a.type.toUpperCase()}:${adr.map(escapeText).join(';')}`);
+  }
+
+  if (contact.birthday) {
+    // Stored as local midnight like all-day events
+    lines.push(`BDAY;VALUE=DATE:${formatAllDayDate(contact.birthday).replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3')}`);
+  }
+  if (contact.webPage) lines.push(`URL:${contact.webPage}`);
+  if (contact.notes) lines.push(`NOTE:${escapeText(contact.notes)}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function asString(value: MapiValue | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
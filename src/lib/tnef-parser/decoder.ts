@@ -37,11 +37,63 @@ export class TnefDecoder {
     return val;
   }
 
+  readInt16LE(): number {
+    if (this.pos + 2 > this.data.length) throw new Error('Unexpected end of data');
+    const val = this.view.getInt16(this.pos, true);
+    this.pos += 2;
+    return val;
+  }
+
+  readBigInt64LE(): bigint {
+    if (this.pos + 8 > this.data.length) throw new Error('Unexpected end of data');
+    const val = this.view.getBigInt64(this.pos, true);
+    this.pos += 8;
+    return val;
+  }
+
+  readFloat32LE(): number {
+    if (this.pos + 4 > this.data.length) throw new Error('Unexpected end of data');
+    const val = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return val;
+  }
+
+  readFloat64LE(): number {
+    if (this.pos + 8 > this.data.length) throw new Error('Unexpected end of data');
+    const val = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return val;
+  }
+
+  /** Read a FILETIME (100-ns intervals since 1601-01-01 UTC). Returns null for zero/out-of-range values. */
+  readFileTime(): Date | null {
+    const low = this.readUint32LE();
+    const high = this.readUint32LE();
+    return fileTimeToDate(low, high);
+  }
+
+  /**
+   * Read a legacy DTR structure (attDate*): year, month, day, hour, minute, second, day-of-week.
+   * TNEF does not record a time zone for these, so they are interpreted as UTC.
+   */
+  readDtr(): Date | null {
+    const year = this.readUint16LE();
+    const month = this.readUint16LE();
+    const day = this.readUint16LE();
+    const hour = this.readUint16LE();
+    const minute = this.readUint16LE();
+    const second = this.readUint16LE();
+    this.readUint16LE(); // day of week — derived from the date itself
+    if (year === 0 || month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  /** Read bytes as a view into the underlying buffer — no copy is made */
   readBytes(length: number): Uint8Array {
     if (this.pos + length > this.data.length) throw new Error('Unexpected end of data');
-    const slice = this.data.slice(this.pos, this.pos + length);
+    const view = this.data.subarray(this.pos, this.pos + length);
     this.pos += length;
-    return slice;
+    return view;
   }
 
   skip(length: number): void {
@@ -73,6 +125,63 @@ export class TnefDecoder {
   }
 }
 
+/**
+ * Map a Windows codepage number to a TextDecoder encoding name.
+ * Codepages without a TextDecoder equivalent (or unknown ones) return the fallback.
+ */
+export function codepageToEncoding(cp: number, fallback: string = ''): string {
+  const map: Record<number, string> = {
+    874: 'windows-874',
+    932: 'shift_jis',
+    936: 'gbk',
+    949: 'euc-kr',
+    950: 'big5',
+    1250: 'windows-1250',
+    1251: 'windows-1251',
+    1252: 'windows-1252',
+    1253: 'windows-1253',
+    1254: 'windows-1254',
+    1255: 'windows-1255',
+    1256: 'windows-1256',
+    1257: 'windows-1257',
+    1258: 'windows-1258',
+    10000: 'macintosh',
+    20127: 'windows-1252',
+    20866: 'koi8-r',
+    21866: 'koi8-u',
+    28591: 'windows-1252',
+    28592: 'iso-8859-2',
+    28593: 'iso-8859-3',
+    28594: 'iso-8859-4',
+    28595: 'iso-8859-5',
+    28596: 'iso-8859-6',
+    28597: 'iso-8859-7',
+    28598: 'iso-8859-8',
+    28599: 'windows-1254',
+    28603: 'iso-8859-13',
+    28605: 'iso-8859-15',
+    50220: 'iso-2022-jp',
+    50221: 'iso-2022-jp',
+    50222: 'iso-2022-jp',
+    51932: 'euc-jp',
+    51949: 'euc-kr',
+    54936: 'gb18030',
+    65001: 'utf-8',
+  };
+  return map[cp] || fallback;
+}
+
+/** Difference between the FILETIME epoch (1601) and the Unix epoch (1970) in milliseconds */
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+
+/** Convert the two 32-bit halves of a FILETIME into a Date */
+export function fileTimeToDate(low: number, high: number): Date | null {
+  if (low === 0 && high === 0) return null;
+  const ms = (high * 0x100000000 + low) / 10000 - FILETIME_EPOCH_OFFSET_MS;
+  const date = new Date(Math.floor(ms));
+  return isNaN(date.getTime()) ? null : date;
+}
+
 /** Pad a size to the next 4-byte boundary */
 export function pad4(n: number): number {
   return (n + 3) & ~3;
@@ -0,0 +1,49 @@
+import { type TnefLimits, type TnefParseOptions, type TnefWarning, DEFAULT_TNEF_LIMITS } from './types';
+
+/** Thrown for input that is not TNEF, and in strict mode for the first problem that would otherwise be a warning */
+export class TnefParseError extends Error {
+  readonly warning: TnefWarning;
+
+  constructor(warning: TnefWarning) {
+    super(`${warning.reason} (offset ${warning.offset}, attribute 0x${warning.attrId.toString(16).padStart(4, '0')})`);
+    this.name = 'TnefParseError';
+    this.warning = warning;
+  }
+}
+
+/** Collects warnings for one TNEF stream; warnings from embedded streams are forwarded to the parent */
+export class TnefDiagnostics {
+  readonly warnings: TnefWarning[] = [];
+  readonly validateChecksums: boolean;
+  readonly limits: TnefLimits;
+  readonly strict: boolean;
+
+  constructor(
+    options: TnefParseOptions,
+    private readonly depth = 0,
+    private readonly parent: TnefDiagnostics | null = null,
+  ) {
+    this.validateChecksums = options.validateChecksums ?? false;
+    this.strict = options.strict ?? false;
+    this.limits = { ...DEFAULT_TNEF_LIMITS, ...options.limits };
+  }
+
+  /** Collector for an embedded message one level down */
+  child(): TnefDiagnostics {
+    return new TnefDiagnostics(
+      { validateChecksums: this.validateChecksums, strict: this.strict, limits: this.limits },
+      this.depth + 1,
+      this,
+    );
+  }
+
+  warn(offset: number, level: number, attrId: number, reason: string): void {
+    this.record({ offset, attrId, level, depth: this.depth, reason });
+  }
+
+  private record(warning: TnefWarning): void {
+    if (this.strict) throw new TnefParseError(warning);
+    this.warnings.push(warning);
+    this.parent?.record(warning);
+  }
+}
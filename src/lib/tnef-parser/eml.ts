@@ -0,0 +1,254 @@
+import type { TnefAttachment, TnefParseResult, TnefRecipient } from './types';
+
+/** A MIME entity: header lines (unfolded names included) and an already-encoded body */
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+const CRLF = '\r\n';
+
+/** Longest encoded line in base64 / quoted-printable bodies (RFC 2045) */
+const MAX_LINE = 76;
+
+/**
+ * Convert a parsed TNEF message into an RFC 5322 message (.eml).
+ * Text and HTML bodies become multipart/alternative, inline images are grouped with the HTML in
+ * multipart/related, attachments are base64 parts with RFC 2231 filenames, and embedded messages
+ * are converted recursively into message/rfc822 parts.
+ * `now` is the Date written for messages that were never sent or received (RFC 5322 requires one).
+ */
+export function buildEml(message: TnefParseResult, now: Date = new Date()): string {
+  return serializeEntity(buildMessage(message, 0, now));
+}
+
+function buildMessage(message: TnefParseResult, depth: number, now: Date): MimePart {
+  let seq = 0;
+  const boundary = () => `----=_Part_${depth}_${seq++}`;
+
+  const headers: string[] = [];
+  headers.push(`Date: ${formatRfc5322Date(message.sentDate || message.receivedDate || now)}`);
+  // Kept so replies to the converted message still thread with the original
+  const messageId = message.internetMessageId.replace(/\s+/g, '');
+  if (messageId) headers.push(`Message-ID: ${messageId.startsWith('<') ? messageId : `<${messageId}>`}`);
+  const from = parseFrom(message.from);
+  if (from) headers.push(`From: ${formatAddress(from.name, from.email)}`);
+  const to = formatAddressList(message.to);
+  if (to) headers.push(`To: ${to}`);
+  const cc = formatAddressList(message.cc);
+  if (cc) headers.push(`Cc: ${cc}`);
+  if (message.subject) headers.push(`Subject: ${encodeHeaderText(message.subject, 'Subject: '.length)}`);
+  headers.push('MIME-Version: 1.0');
+
+  // Inline images travel next to the HTML part in multipart/related so cid: references resolve
+  const related = message.bodyHtml ? message.attachments.filter((att) => att.inline && att.contentId) : [];
+  const attachments = message.attachments.filter((att) => !related.includes(att));
+
+  const alternatives: MimePart[] = [];
+  if (message.body || !message.bodyHtml) alternatives.push(textPart('text/plain', message.body));
+  if (message.bodyHtml) {
+    const html = textPart('text/html', message.bodyHtml);
+    alternatives.push(related.length > 0
+      ? multipart('related', [html, ...related.map(inlinePart)], boundary(), 'text/html')
+      : html);
+  }
+  const bodyPart = alternatives.length > 1 ? multipart('alternative', alternatives, boundary()) : alternatives[0];
+
+  const content = attachments.length > 0
+    ? multipart('mixed', [bodyPart, ...attachments.map((att) => attachmentPart(att, depth, now))], boundary())
+    : bodyPart;
+
+  return { headers: [...headers, ...content.headers], body: content.body };
+}
+
+function textPart(type: string, text: string): MimePart {
+  return {
+    headers: [
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: quoted-printable',
+    ],
+    body: encodeQuotedPrintable(text),
+  };
+}
+
+function attachmentPart(att: TnefAttachment, depth: number, now: Date): MimePart {
+  if (att.embeddedMessage) {
+    // Embedded Outlook messages travel as message/rfc822 so mail clients can open them in place
+    const name = att.name.replace(/\.dat$/i, '') + '.eml';
+    return {
+      headers: [
+        'Content-Type: message/rfc822',
+        `Content-Disposition: attachment;${CRLF} ${encodeParameter('filename', name)}`,
+      ],
+      body: serializeEntity(buildMessage(att.embeddedMessage, depth + 1, now)),
+    };
+  }
+
+  const disposition = [`attachment`, encodeParameter('filename', att.name)];
+  if (att.createdDate) disposition.push(`creation-date="${formatRfc5322Date(att.createdDate)}"`);
+  if (att.modifiedDate) disposition.push(`modification-date="${formatRfc5322Date(att.modifiedDate)}"`);
+
+  return {
+    headers: [
+      `Content-Type: ${att.mimeType || 'application/octet-stream'};${CRLF} ${encodeParameter('name', att.name)}`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: ${disposition.join(`;${CRLF} `)}`,
+    ],
+    body: encodeBase64Lines(att.data),
+  };
+}
+
+function inlinePart(att: TnefAttachment): MimePart {
+  return {
+    headers: [
+      `Content-Type: ${att.mimeType || 'application/octet-stream'};${CRLF} ${encodeParameter('name', att.name)}`,
+      'Content-Transfer-Encoding: base64',
+      `Content-ID: <${att.contentId}>`,
+      `Content-Disposition: inline;${CRLF} ${encodeParameter('filename', att.name)}`,
+    ],
+    body: encodeBase64Lines(att.data),
+  };
+}
+
+function multipart(subtype: string, parts: MimePart[], boundary: string, rootType?: string): MimePart {
+  const body = parts.map((p) => `--${boundary}${CRLF}${serializeEntity(p)}${CRLF}`).join('') + `--${boundary}--${CRLF}`;
+  const type = rootType ? `;${CRLF} type="${rootType}"` : '';
+  return {
+    headers: [`Content-Type: multipart/${subtype};${CRLF} boundary="${boundary}"${type}`],
+    body,
+  };
+}
+
+function serializeEntity(part: MimePart): string {
+  return part.headers.join(CRLF) + CRLF + CRLF + part.body;
+}
+
+/** Split "Name <email>" as produced by parseTnef back into its parts */
+function parseFrom(from: string): { name: string; email: string } | null {
+  if (!from) return null;
+  const match = /^(.*?)\s*<([^<>]*)>$/.exec(from);
+  if (match) return { name: match[1], email: match[2] };
+  return from.includes('@') ? { name: '', email: from } : null;
+}
+
+function formatAddressList(recipients: TnefRecipient[]): string {
+  return recipients
+    .filter((r) => r.email)
+    .map((r) => formatAddress(r.name, r.email))
+    .join(`,${CRLF} `);
+}
+
+function formatAddress(name: string, email: string): string {
+  if (!name || name === email) return `<${email}>`;
+  return `${encodePhrase(name)} <${email}>`;
+}
+
+/** Display name as a quoted string, or RFC 2047 encoded-words when it is not plain ASCII */
+function encodePhrase(name: string): string {
+  if (!isPrintableAscii(name)) return encodeHeaderText(name, 0);
+  if (/^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]+$/.test(name)) return name;
+  return `"${name.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+/** Unstructured header text: kept as-is when printable ASCII, otherwise RFC 2047 B-encoded UTF-8 */
+function encodeHeaderText(text: string, prefixLength: number): string {
+  if (isPrintableAscii(text) && prefixLength + text.length <= 998) return text;
+
+  // 39 UTF-8 bytes = 52 base64 chars, so even the first word after "Subject: " fits in 78 columns
+  const words: string[] = [];
+  const encoder = new TextEncoder();
+  let chunk = '';
+  for (const ch of text) {
+    if (encoder.encode(chunk + ch).length > 39) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${encodeBase64(encoder.encode(w))}?=`).join(`${CRLF} `);
+}
+
+/**
+ * MIME parameter: quoted when short printable ASCII, otherwise RFC 2231 extended notation
+ * with UTF-8 percent-encoding, split into numbered continuations to keep lines short.
+ */
+function encodeParameter(name: string, value: string): string {
+  if (isPrintableAscii(value) && value.length <= 60) {
+    return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+
+  const encoded = Array.from(new TextEncoder().encode(value), (b) => {
+    const c = String.fromCharCode(b);
+    return /[A-Za-z0-9!#$&+\-.^_`|~]/.test(c) ? c : `%${b.toString(16).toUpperCase().padStart(2, '0')}`;
+  });
+  const segments: string[] = [];
+  let segment = '';
+  for (const piece of encoded) {
+    if (segment.length + piece.length > 54) {
+      segments.push(segment);
+      segment = '';
+    }
+    segment += piece;
+  }
+  segments.push(segment);
+
+  if (segments.length === 1) return `${name}*=UTF-8''${segments[0]}`;
+  return segments
+    .map((s, i) => `${name}*${i}*=${i === 0 ? "UTF-8''" : ''}${s}`)
+    .join(`;${CRLF} `);
+}
+
+function isPrintableAscii(s: string): boolean {
+  return /^[\x20-\x7e]*$/.test(s);
+}
+
+/** RFC 5322 date-time in UTC, e.g. "Sat, 03 Feb 2024 04:05:06 +0000" */
+function formatRfc5322Date(date: Date): string {
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${days[date.getUTCDay()]}, ${pad(date.getUTCDate())} ${months[date.getUTCMonth()]} ${date.getUTCFullYear()} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/** Quoted-printable UTF-8 with CRLF line breaks and soft breaks at 76 characters; no line break is added at the end */
+function encodeQuotedPrintable(text: string): string {
+  const encoder = new TextEncoder();
+  const lines = text.replace(/\r\n|\r/g, '\n').split('\n');
+  const out: string[] = [];
+
+  for (const line of lines) {
+    const bytes = encoder.encode(line);
+    let current = '';
+    for (let i = 0; i < bytes.length; i++) {
+      const b = bytes[i];
+      const last = i === bytes.length - 1;
+      // Trailing whitespace would be stripped in transit, so it is encoded
+      const literal = (b >= 33 && b <= 126 && b !== 61) || ((b === 32 || b === 9) && !last);
+      const token = literal ? String.fromCharCode(b) : `=${b.toString(16).toUpperCase().padStart(2, '0')}`;
+      if (current.length + token.length > MAX_LINE - 1) {
+        out.push(`${current}=`);
+        current = '';
+      }
+      current += token;
+    }
+    out.push(current);
+  }
+  return out.join(CRLF);
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function encodeBase64Lines(bytes: Uint8Array): string {
+  const encoded = encodeBase64(bytes);
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += MAX_LINE) lines.push(encoded.substring(i, i + MAX_LINE));
+  return lines.join(CRLF) + CRLF;
+}
@@ -0,0 +1,447 @@
+import { pad4 } from './decoder';
+import { parseGuid } from './properties';
+import { windows1252Bytes } from './charset';
+import {
+  type MapiProperty,
+  type MapiScalar,
+  type MapiValue,
+  type TnefWriteAddress,
+  type TnefWriteAttachment,
+  type TnefWriteMessage,
+  TNEF_SIGNATURE,
+  TNEF_VERSION,
+  LVL_MESSAGE,
+  LVL_ATTACHMENT,
+  ATTR,
+  ATTACH_ATTR,
+  ATP,
+  PT,
+  MV_FLAG,
+  PROP,
+  RECIP_TYPE,
+  ATTACH_METHOD,
+} from './types';
+
+/** Growable little-endian byte writer — the counterpart of TnefDecoder */
+export class TnefEncoder {
+  private buf = new Uint8Array(1024);
+  private view = new DataView(this.buf.buffer);
+  private pos = 0;
+
+  get offset(): number {
+    return this.pos;
+  }
+
+  writeUint8(n: number): void {
+    this.reserve(1);
+    this.buf[this.pos++] = n;
+  }
+
+  writeUint16LE(n: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.pos, n, true);
+    this.pos += 2;
+  }
+
+  writeInt16LE(n: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.pos, n, true);
+    this.pos += 2;
+  }
+
+  writeUint32LE(n: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.pos, n >>> 0, true);
+    this.pos += 4;
+  }
+
+  writeBigInt64LE(n: bigint): void {
+    this.reserve(8);
+    this.view.setBigInt64(this.pos, n, true);
+    this.pos += 8;
+  }
+
+  writeFloat32LE(n: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.pos, n, true);
+    this.pos += 4;
+  }
+
+  writeFloat64LE(n: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.pos, n, true);
+    this.pos += 8;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buf.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  /** Write zero bytes up to the next 4-byte boundary of a value of the given length */
+  writePadding(length: number): void {
+    for (let i = length; i < pad4(length); i++) this.writeUint8(0);
+  }
+
+  /** Write a FILETIME (100-ns intervals since 1601-01-01 UTC); null writes zero ("not set") */
+  writeFileTime(date: Date | null): void {
+    this.writeBigInt64LE(date ? dateToFileTime(date) : 0n);
+  }
+
+  /** Write a legacy DTR structure (UTC, matching TnefDecoder.readDtr) */
+  writeDtr(date: Date): void {
+    this.writeUint16LE(date.getUTCFullYear());
+    this.writeUint16LE(date.getUTCMonth() + 1);
+    this.writeUint16LE(date.getUTCDate());
+    this.writeUint16LE(date.getUTCHours());
+    this.writeUint16LE(date.getUTCMinutes());
+    this.writeUint16LE(date.getUTCSeconds());
+    this.writeUint16LE(date.getUTCDay());
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.buf.slice(0, this.pos);
+  }
+
+  private reserve(n: number): void {
+    if (this.pos + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.pos + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.pos));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+/** Difference between the FILETIME epoch (1601) and the Unix epoch (1970) in milliseconds */
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000n;
+
+function dateToFileTime(date: Date): bigint {
+  return (BigInt(date.getTime()) + FILETIME_EPOCH_OFFSET_MS) * 10000n;
+}
+
+/** attAttachRendData for a by-value file: type 1, position -1, no rendering size, no flags */
+const REND_DATA_FILE = new Uint8Array([0x01, 0x00, 0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+/** Codepage recorded in attOemCodepage; ANSI strings are written in it (see encodeAnsi) */
+const OEM_CODEPAGE = 1252;
+
+/** Code page of the HTML body, recorded in PidTagInternetCodepage */
+const CP_UTF8 = 65001;
+
+/**
+ * Serialize a message into a TNEF (winmail.dat) stream.
+ * Text is written as Unicode MAPI properties; the HTML body is stored as UTF-8.
+ * The output depends only on the input, so it can be used for reproducible fixtures.
+ */
+export function writeTnef(message: TnefWriteMessage): Uint8Array<ArrayBuffer> {
+  const out = new TnefEncoder();
+  out.writeUint32LE(TNEF_SIGNATURE);
+  out.writeUint16LE(message.key ?? 0);
+
+  const messageClass = message.messageClass || 'IPM.Note';
+
+  writeAttribute(out, LVL_MESSAGE, ATP.DWORD, ATTR.TNEF_VERSION, (e) => e.writeUint32LE(TNEF_VERSION));
+  writeAttribute(out, LVL_MESSAGE, ATP.BYTE, ATTR.OEM_CODEPAGE, (e) => {
+    e.writeUint32LE(OEM_CODEPAGE);
+    e.writeUint32LE(0);
+  });
+  writeAttribute(out, LVL_MESSAGE, ATP.WORD, ATTR.MESSAGE_CLASS, (e) => e.writeBytes(encodeAnsi(messageClass)));
+  if (message.sentDate) {
+    const sentDate = message.sentDate;
+    writeAttribute(out, LVL_MESSAGE, ATP.DATE, ATTR.DATE_SENT, (e) => e.writeDtr(sentDate));
+  }
+
+  const recipients = [
+    ...(message.to ?? []).map((r) => recipientRow(r, RECIP_TYPE.TO)),
+    ...(message.cc ?? []).map((r) => recipientRow(r, RECIP_TYPE.CC)),
+    ...(message.bcc ?? []).map((r) => recipientRow(r, RECIP_TYPE.BCC)),
+  ];
+  if (recipients.length > 0) {
+    writeAttribute(out, LVL_MESSAGE, ATP.BYTE, ATTR.RECIP_TABLE, (e) => {
+      e.writeUint32LE(recipients.length);
+      for (const row of recipients) writePropertyList(e, row);
+    });
+  }
+
+  const messageProps = withExtraProperties(messageProperties(message, messageClass), message.properties);
+  writeAttribute(out, LVL_MESSAGE, ATP.BYTE, ATTR.MAPI_PROPS, (e) => writePropertyList(e, messageProps));
+
+  for (const attachment of message.attachments ?? []) {
+    writeAttachment(out, attachment);
+  }
+
+  return out.toBytes();
+}
+
+/** Write one attribute: level, type, length, data and checksum */
+function writeAttribute(
+  out: TnefEncoder,
+  level: number,
+  atp: number,
+  attrId: number,
+  writeData: (e: TnefEncoder) => void,
+): void {
+  const e = new TnefEncoder();
+  writeData(e);
+  const data = e.toBytes();
+
+  let checksum = 0;
+  for (let i = 0; i < data.length; i++) checksum = (checksum + data[i]) & 0xffff;
+
+  out.writeUint8(level);
+  out.writeUint32LE(((atp << 16) | attrId) >>> 0);
+  out.writeUint32LE(data.length);
+  out.writeBytes(data);
+  out.writeUint16LE(checksum);
+}
+
+function writeAttachment(out: TnefEncoder, attachment: TnefWriteAttachment): void {
+  const { data } = attachment;
+  const modifiedDate = attachment.modifiedDate ?? null;
+
+  writeAttribute(out, LVL_ATTACHMENT, ATP.BYTE, ATTACH_ATTR.REND_DATA, (e) => e.writeBytes(REND_DATA_FILE));
+  if (modifiedDate) {
+    writeAttribute(out, LVL_ATTACHMENT, ATP.DATE, ATTACH_ATTR.MODIFY_DATE, (e) => e.writeDtr(modifiedDate));
+  }
+  writeAttribute(out, LVL_ATTACHMENT, ATP.BYTE, ATTACH_ATTR.DATA, (e) => e.writeBytes(data));
+
+  const dot = attachment.name.lastIndexOf('.');
+  const props: MapiProperty[] = [
+    prop(PROP.ATTACH_METHOD, PT.LONG, ATTACH_METHOD.BY_VALUE),
+    prop(PROP.RENDERING_POSITION, PT.LONG, 0xffffffff),
+    prop(PROP.DISPLAY_NAME, PT.UNICODE, attachment.name),
+    prop(PROP.ATTACH_FILENAME, PT.UNICODE, attachment.name),
+    prop(PROP.ATTACH_LONG_FILENAME, PT.UNICODE, attachment.name),
+    prop(PROP.ATTACH_SIZE, PT.LONG, data.length),
+  ];
+  if (dot > 0) props.push(prop(PROP.ATTACH_EXTENSION, PT.UNICODE, attachment.name.substring(dot)));
+  if (attachment.mimeType) props.push(prop(PROP.ATTACH_MIME_TAG, PT.UNICODE, attachment.mimeType));
+  if (attachment.createdDate) props.push(prop(PROP.CREATION_TIME, PT.SYSTIME, attachment.createdDate));
+  if (modifiedDate) props.push(prop(PROP.LAST_MODIFICATION_TIME, PT.SYSTIME, modifiedDate));
+  if (attachment.contentId) {
+    props.push(
+      prop(PROP.ATTACH_CONTENT_ID, PT.UNICODE, attachment.contentId),
+      prop(PROP.ATTACHMENT_HIDDEN, PT.BOOLEAN, true),
+    );
+  }
+  // Outlook reads the data from attAttachment and only falls back to attAttachData
+  props.push(prop(PROP.ATTACH_DATA_BIN, PT.BINARY, data));
+
+  const all = withExtraProperties(props, attachment.properties);
+  writeAttribute(out, LVL_ATTACHMENT, ATP.BYTE, ATTACH_ATTR.MAPI_PROPS, (e) => writePropertyList(e, all));
+}
+
+function messageProperties(message: TnefWriteMessage, messageClass: string): MapiProperty[] {
+  const props: MapiProperty[] = [prop(PROP.MESSAGE_CLASS, PT.UNICODE, messageClass)];
+  if (message.subject) props.push(prop(PROP.SUBJECT, PT.UNICODE, message.subject));
+  if (message.sentDate) props.push(prop(PROP.CLIENT_SUBMIT_TIME, PT.SYSTIME, message.sentDate));
+  if (message.from) {
+    const { name, email } = message.from;
+    if (name) {
+      props.push(prop(PROP.SENDER_NAME, PT.UNICODE, name), prop(PROP.SENT_REPR_NAME, PT.UNICODE, name));
+    }
+    if (email) {
+      props.push(
+        prop(PROP.SENDER_EMAIL, PT.UNICODE, email),
+        prop(PROP.SENDER_ADDRTYPE, PT.UNICODE, 'SMTP'),
+        prop(PROP.SENT_REPR_EMAIL, PT.UNICODE, email),
+        prop(PROP.SENT_REPR_ADDRTYPE, PT.UNICODE, 'SMTP'),
+      );
+    }
+  }
+  if (message.body) props.push(prop(PROP.BODY, PT.UNICODE, message.body));
+  if (message.bodyHtml) {
+    props.push(
+      prop(PROP.BODY_HTML, PT.BINARY, new TextEncoder().encode(message.bodyHtml)),
+      prop(PROP.INTERNET_CPID, PT.LONG, CP_UTF8),
+    );
+  }
+  return props;
+}
+
+function recipientRow(address: TnefWriteAddress, type: number): MapiProperty[] {
+  return [
+    prop(PROP.DISPLAY_NAME, PT.UNICODE, address.name || address.email),
+    prop(PROP.ADDRTYPE, PT.UNICODE, 'SMTP'),
+    prop(PROP.EMAIL_ADDRESS, PT.UNICODE, address.email),
+    prop(PROP.SMTP_ADDRESS, PT.UNICODE, address.email),
+    prop(PROP.RECIPIENT_TYPE, PT.LONG, type),
+  ];
+}
+
+function prop(id: number, type: number, value: MapiValue): MapiProperty {
+  return { id, type, tag: ((id << 16) | type) >>> 0, named: null, value };
+}
+
+/**
+ * Merge caller-supplied properties into the ones generated from explicit fields. A caller property
+ * replaces a generated one with the same ID in place, so e.g. PidTagAttachMethod 5 with a PT_OBJECT
+ * PidTagAttachDataObject turns an attachment into an embedded message.
+ */
+function withExtraProperties(props: MapiProperty[], extra: MapiProperty[] | undefined): MapiProperty[] {
+  if (!extra) return props;
+  const key = (p: MapiProperty) =>
+    p.named ? `${p.named.guid.toUpperCase()}:${p.named.lid ?? p.named.name?.toLowerCase()}` : `${p.id}`;
+  const overrides = new Map(extra.map((p) => [key(p), p]));
+  const merged = props.map((p) => overrides.get(key(p)) ?? p);
+  const generated = new Set(props.map(key));
+  return [...merged, ...extra.filter((p) => !generated.has(key(p)))];
+}
+
+/** Write a property count and the properties; named properties get stream-local IDs from 0x8000 */
+function writePropertyList(e: TnefEncoder, props: MapiProperty[]): void {
+  e.writeUint32LE(props.length);
+  let nextNamedId = 0x8000;
+  for (const p of props) {
+    e.writeUint16LE(p.type);
+    if (p.named) {
+      e.writeUint16LE(nextNamedId++);
+      e.writeBytes(parseGuid(p.named.guid));
+      if (p.named.name !== null) {
+        const name = encodeUnicode(p.named.name);
+        e.writeUint32LE(1); // MNID_STRING
+        e.writeUint32LE(name.length);
+        e.writeBytes(name);
+        e.writePadding(name.length);
+      } else {
+        e.writeUint32LE(0); // MNID_ID
+        e.writeUint32LE(p.named.lid ?? 0);
+      }
+    } else {
+      e.writeUint16LE(p.id);
+    }
+    writePropValue(e, p.type, p.value);
+  }
+}
+
+/** Write a property value in the layout readPropValue expects */
+function writePropValue(e: TnefEncoder, type: number, value: MapiValue): void {
+  if (type & MV_FLAG) {
+    const values = Array.isArray(value) ? value : [];
+    const baseType = type & ~MV_FLAG;
+    e.writeUint32LE(values.length);
+    for (const v of values) {
+      if (isVariableType(baseType)) writeVariableValue(e, baseType, v);
+      else writeFixedValue(e, baseType, v);
+    }
+    return;
+  }
+  if (Array.isArray(value)) throw new Error(`Single-valued property type 0x${type.toString(16)} given an array`);
+
+  switch (type) {
+    case PT.UNSPECIFIED:
+    case PT.NULL:
+      e.writeUint32LE(0);
+      return;
+    case PT.SYSTIME:
+      e.writeFileTime(value instanceof Date ? value : null);
+      return;
+  }
+  if (isVariableType(type)) {
+    if (value === null) throw new Error(`Property type 0x${type.toString(16)} requires a value`);
+    e.writeUint32LE(1); // value count
+    writeVariableValue(e, type, value);
+    return;
+  }
+  if (value === null) throw new Error(`Property type 0x${type.toString(16)} requires a value`);
+  writeFixedValue(e, type, value);
+}
+
+function isVariableType(type: number): boolean {
+  switch (type) {
+    case PT.STRING8:
+    case PT.UNICODE:
+    case PT.BINARY:
+    case PT.OBJECT:
+    case PT.SVREID:
+    case PT.SRESTRICT:
+    case PT.ACTIONS:
+      return true;
+    default:
+      return false;
+  }
+}
+
+function writeVariableValue(e: TnefEncoder, type: number, value: MapiScalar): void {
+  let bytes: Uint8Array;
+  if (type === PT.UNICODE && typeof value === 'string') bytes = encodeUnicode(value);
+  else if (type === PT.STRING8 && typeof value === 'string') bytes = encodeAnsi(value);
+  else if (value instanceof Uint8Array) bytes = value;
+  else throw new Error(`Value does not match property type 0x${type.toString(16)}`);
+  e.writeUint32LE(bytes.length);
+  e.writeBytes(bytes);
+  e.writePadding(bytes.length);
+}
+
+function writeFixedValue(e: TnefEncoder, type: number, value: MapiScalar): void {
+  const mismatch = () => new Error(`Value does not match property type 0x${type.toString(16)}`);
+  switch (type) {
+    case PT.SHORT:
+      if (typeof value !== 'number') throw mismatch();
+      e.writeInt16LE(value);
+      e.writeUint16LE(0); // padding
+      return;
+    case PT.LONG:
+    case PT.ERROR:
+      if (typeof value !== 'number') throw mismatch();
+      e.writeUint32LE(value);
+      return;
+    case PT.BOOLEAN:
+      if (typeof value !== 'boolean' && typeof value !== 'number') throw mismatch();
+      e.writeUint16LE(value ? 1 : 0);
+      e.writeUint16LE(0); // padding
+      return;
+    case PT.FLOAT:
+      if (typeof value !== 'number') throw mismatch();
+      e.writeFloat32LE(value);
+      return;
+    case PT.DOUBLE:
+      if (typeof value !== 'number') throw mismatch();
+      e.writeFloat64LE(value);
+      return;
+    case PT.APPTIME:
+      if (!(value instanceof Date)) throw mismatch();
+      e.writeFloat64LE((value.getTime() - Date.UTC(1899, 11, 30)) / 86400000);
+      return;
+    case PT.CURRENCY:
+      if (typeof value !== 'number') throw mismatch();
+      e.writeBigInt64LE(BigInt(Math.round(value * 10000)));
+      return;
+    case PT.I8:
+      if (typeof value !== 'bigint' && typeof value !== 'number') throw mismatch();
+      e.writeBigInt64LE(BigInt(value));
+      return;
+    case PT.SYSTIME:
+      if (!(value instanceof Date)) throw mismatch();
+      e.writeFileTime(value);
+      return;
+    case PT.CLSID:
+      if (typeof value !== 'string') throw mismatch();
+      e.writeBytes(parseGuid(value));
+      return;
+    default:
+      throw new Error(`Unsupported MAPI property type 0x${type.toString(16).padStart(4, '0')}`);
+  }
+}
+
+/** UTF-16LE with a null terminator */
+function encodeUnicode(s: string): Uint8Array {
+  const bytes = new Uint8Array((s.length + 1) * 2);
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    bytes[i * 2] = c & 0xff;
+    bytes[i * 2 + 1] = c >> 8;
+  }
+  return bytes;
+}
+
+/** Null-terminated windows-1252 string, matching OEM_CODEPAGE; other characters become '?' */
+function encodeAnsi(s: string): Uint8Array {
+  const ansi = windows1252Bytes(s);
+  const bytes = new Uint8Array(ansi.length + 1);
+  bytes.set(ansi);
+  return bytes;
+}
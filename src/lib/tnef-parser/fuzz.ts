@@ -0,0 +1,267 @@
+import { parseTnef } from './index';
+import { TnefParseError } from './diagnostics';
+import { writeTnef } from './encoder';
+import {
+  type MapiProperty,
+  type MapiValue,
+  type TnefLimits,
+  type TnefParseResult,
+  ATTACH_METHOD,
+  IID_IMESSAGE,
+  PROP,
+  PSETID,
+  PT,
+  TNEF_SIGNATURE,
+} from './types';
+
+/** Options for fuzzTnef */
+export interface TnefFuzzOptions {
+  /** PRNG seed; the same seed and iteration count always produce the same inputs (default 1) */
+  seed?: number;
+  /** Number of mutated streams to parse (default 2000) */
+  iterations?: number;
+  /** A single parse taking longer than this counts as a hang (default 2000) */
+  maxMillis?: number;
+  /** Limits passed to parseTnef */
+  limits?: Partial<TnefLimits>;
+}
+
+/** One input that made parseTnef misbehave */
+export interface TnefFuzzFailure {
+  iteration: number;
+  input: Uint8Array;
+  reason: string;
+}
+
+/** Outcome of a fuzzTnef run */
+export interface TnefFuzzReport {
+  iterations: number;
+  /** Inputs rejected with a TnefParseError in strict mode or for lacking a signature — expected, not failures */
+  parseErrors: number;
+  /** Longest single parse in milliseconds */
+  slowestMillis: number;
+  failures: TnefFuzzFailure[];
+}
+
+/** A well-formed stream to mutate, and what it must parse to before mutation */
+interface CorpusSeed {
+  name: string;
+  data: Uint8Array;
+  /** Describes what the seed is meant to contain */
+  expected: string;
+  check: (result: TnefParseResult) => boolean;
+}
+
+/** 32-bit values that tend to break length and count handling */
+const INTERESTING_U32 = [0, 1, 0x7f, 0x80, 0xff, 0xffff, 0x10000, 0x7fffffff, 0x80000000, 0xfffffffe, 0xffffffff];
+
+/**
+ * Feed mutated TNEF streams through parseTnef and record every input that throws anything other than
+ * a TnefParseError, throws one outside strict mode although it still starts with a TNEF signature
+ * and legacy key, or takes longer than maxMillis. Inputs are derived from well-formed streams built
+ * with writeTnef, so the mutations reach attribute, property and embedded-message code.
+ * Deterministic: a failure is reproduced by running again with the same seed.
+ * Throws if a seed stream does not parse to what it is meant to contain, since the mutations
+ * would then miss the code the seed was written for.
+ */
+export function fuzzTnef(options: TnefFuzzOptions = {}): TnefFuzzReport {
+  const { seed = 1, iterations = 2000, maxMillis = 2000, limits } = options;
+  const random = mulberry32(seed);
+  const corpus = buildCorpus();
+  checkCorpus(corpus);
+  const report: TnefFuzzReport = { iterations, parseErrors: 0, slowestMillis: 0, failures: [] };
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let input: Uint8Array = corpus[Math.floor(random() * corpus.length)].data.slice();
+    const mutations = 1 + Math.floor(random() * 4);
+    for (let m = 0; m < mutations; m++) input = mutate(input, random);
+    const strict = random() < 0.25;
+    const validateChecksums = random() < 0.5;
+
+    const started = performance.now();
+    try {
+      parseTnef(input, { strict, validateChecksums, limits });
+    } catch (err) {
+      if (err instanceof TnefParseError && (strict || !hasSignature(input))) {
+        report.parseErrors++;
+      } else if (err instanceof TnefParseError) {
+        // Outside strict mode, damage after a valid signature must become warnings
+        report.failures.push({ iteration, input, reason: `Threw ${err.name} without strict: ${err.message}` });
+      } else {
+        const reason = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+        report.failures.push({ iteration, input, reason: `Threw ${reason}` });
+      }
+    }
+    const elapsed = performance.now() - started;
+    report.slowestMillis = Math.max(report.slowestMillis, elapsed);
+    if (elapsed > maxMillis) {
+      report.failures.push({ iteration, input, reason: `Took ${Math.round(elapsed)} ms` });
+    }
+  }
+  return report;
+}
+
+/** Parse every seed unmutated and fail loudly when one no longer contains what it was built for */
+function checkCorpus(corpus: CorpusSeed[]): void {
+  for (const seed of corpus) {
+    let result: TnefParseResult;
+    try {
+      result = parseTnef(seed.data, { strict: true });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Fuzz seed "${seed.name}" does not parse: ${reason}`);
+    }
+    if (!seed.check(result)) throw new Error(`Fuzz seed "${seed.name}" does not parse to ${seed.expected}`);
+  }
+}
+
+/** Streams that cover attachments, recipients, multi-valued and named properties, nesting and a truncated embedded message */
+function buildCorpus(): CorpusSeed[] {
+  const sentDate = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+  const prop = (id: number, type: number, value: MapiValue, named: MapiProperty['named'] = null): MapiProperty =>
+    ({ id, type, tag: ((id << 16) | type) >>> 0, named, value });
+
+  const plain = writeTnef({
+    subject: 'Quarterly report',
+    from: { name: 'Alice', email: 'alice@example.com' },
+    to: [{ name: 'Bob', email: 'bob@example.com' }],
+    cc: [{ name: 'Carol', email: 'carol@example.com' }],
+    sentDate,
+    body: 'Plain text body',
+    bodyHtml: '<p>HTML body <img src="cid:logo"></p>',
+    attachments: [
+      { name: 'report.txt', data: new TextEncoder().encode('attachment data'), mimeType: 'text/plain' },
+      { name: 'logo.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]), contentId: 'logo' },
+    ],
+  });
+
+  const properties = writeTnef({
+    subject: 'Properties',
+    properties: [
+      prop(0x8000, PT.MV_UNICODE, ['one', 'two', 'three'], { guid: PSETID.PUBLIC_STRINGS, lid: null, name: 'Keywords' }),
+      prop(0x8001, PT.MV_LONG, [1, 2, 3], { guid: PSETID.PUBLIC_STRINGS, lid: 0x1234, name: null }),
+      prop(0x6700, PT.MV_BINARY, [new Uint8Array([1, 2, 3]), new Uint8Array(5)]),
+      prop(0x6701, PT.BINARY, new Uint8Array(17)),
+      prop(0x6702, PT.SYSTIME, sentDate),
+      prop(0x6703, PT.I8, 1234567890123n),
+    ],
+  });
+
+  const embedded = new Uint8Array(IID_IMESSAGE.length + plain.length);
+  embedded.set(IID_IMESSAGE);
+  embedded.set(plain, IID_IMESSAGE.length);
+  const nested = writeTnef({
+    subject: 'Forwarded',
+    to: [{ name: 'Dave', email: 'dave@example.com' }],
+    body: 'See attached',
+    attachments: [
+      {
+        name: 'Quarterly report',
+        data: new Uint8Array(0),
+        properties: [
+          prop(PROP.ATTACH_METHOD, PT.LONG, ATTACH_METHOD.EMBEDDED_MSG),
+          prop(PROP.ATTACH_DATA_BIN, PT.OBJECT, embedded),
+        ],
+      },
+    ],
+  });
+
+  // An embedded object cut off right after the TNEF signature, which once failed the whole parse
+  const truncatedEmbedded = writeTnef({
+    subject: 'Truncated',
+    attachments: [
+      {
+        name: 'Truncated',
+        data: new Uint8Array(0),
+        properties: [
+          prop(PROP.ATTACH_METHOD, PT.LONG, ATTACH_METHOD.EMBEDDED_MSG),
+          prop(PROP.ATTACH_DATA_BIN, PT.OBJECT, embedded.subarray(0, IID_IMESSAGE.length + 4)),
+        ],
+      },
+    ],
+  });
+
+  return [
+    {
+      name: 'plain',
+      data: plain,
+      expected: 'a body, recipients and two attachments',
+      check: (r) => !!r.body && r.to.length === 1 && r.cc.length === 1 && r.attachments.length === 2,
+    },
+    {
+      name: 'properties',
+      data: properties,
+      expected: 'its multi-valued and named properties',
+      check: (r) =>
+        r.properties.some((p) => p.named?.name === 'Keywords' && Array.isArray(p.value) && p.value.length === 3) &&
+        r.properties.some((p) => p.named?.lid === 0x1234),
+    },
+    {
+      name: 'nested',
+      data: nested,
+      expected: 'an embedded message with its own attachments',
+      check: (r) => r.attachments[0]?.embeddedMessage?.attachments.length === 2,
+    },
+    {
+      name: 'truncated-embedded',
+      data: truncatedEmbedded,
+      expected: 'a message without the unreadable embedded message',
+      check: (r) => r.subject === 'Truncated' && r.attachments.every((a) => !a.embeddedMessage),
+    },
+  ];
+}
+
+/** The input still starts with the TNEF signature and legacy key, so a non-strict parse must not throw */
+function hasSignature(data: Uint8Array): boolean {
+  return data.length >= 6 && new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true) === TNEF_SIGNATURE;
+}
+
+/** Apply one random mutation; may return a new, differently sized array */
+function mutate(data: Uint8Array, random: () => number): Uint8Array {
+  const pick = (n: number) => Math.floor(random() * n);
+  if (data.length === 0) return new Uint8Array([pick(256)]);
+  const at = pick(data.length);
+
+  switch (pick(6)) {
+    case 0: // Flip one bit
+      data[at] ^= 1 << pick(8);
+      return data;
+    case 1: // Overwrite one byte
+      data[at] = pick(256);
+      return data;
+    case 2: { // Overwrite a 32-bit word, most likely a length or count
+      const value = INTERESTING_U32[pick(INTERESTING_U32.length)];
+      if (at + 4 <= data.length) new DataView(data.buffer, data.byteOffset).setUint32(at, value, true);
+      return data;
+    }
+    case 3: // Truncate
+      return data.slice(0, at);
+    case 4: { // Duplicate a chunk in place, repeating attributes or properties
+      const length = 1 + pick(Math.min(256, data.length - at));
+      const out = new Uint8Array(data.length + length);
+      out.set(data.subarray(0, at + length));
+      out.set(data.subarray(at), at + length);
+      return out;
+    }
+    default: { // Insert random bytes
+      const length = 1 + pick(16);
+      const out = new Uint8Array(data.length + length);
+      out.set(data.subarray(0, at));
+      for (let i = 0; i < length; i++) out[at + i] = pick(256);
+      out.set(data.subarray(at), at + length);
+      return out;
+    }
+  }
+}
+
+/** Small seeded PRNG returning floats in [0, 1) */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
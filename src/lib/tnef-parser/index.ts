@@ -1,82 +1,231 @@
-import { TnefDecoder, pad4 } from './decoder';
+import { TnefDecoder } from './decoder';
+import { decompressRtf } from './lzfu';
+import { convertRtf } from './rtf';
+import { readMapiProperties, readPropertyList, type PropertyErrorHandler } from './properties';
+import { chooseAnsiEncoding, windows1252Bytes, type AnsiEncodingHints } from './charset';
+import { decodeMeeting } from './calendar';
+import { decodeContact } from './contact';
+import { decodeTask } from './task';
+import { extractOleObject, type OleObjectFile } from './ole';
+import {
+  parseMapiProps,
+  parseAttachMapiProps,
+  parseRecipientRow,
+  isInlineAttachment,
+  guessMimeType,
+  type MapiResult,
+} from './mapi';
+import { TnefDiagnostics, TnefParseError } from './diagnostics';
 import {
   type TnefParseResult,
   type TnefAttachment,
+  type TnefRecipient,
+  type TnefRecipientType,
+  type MapiProperty,
+  type MapiPropertyName,
+  type MapiValue,
+  type MapiScalar,
+  type TnefMeeting,
+  type TnefContact,
+  type TnefContactPhone,
+  type TnefContactAddress,
+  type TnefTask,
+  type TnefTaskStatus,
+  type TnefMeetingMethod,
+  type TnefRecurrence,
+  type TnefImportance,
+  type TnefSensitivity,
+  type TnefPriority,
+  type TnefEncodingSource,
+  type TnefParseOptions,
+  type TnefLimits,
+  type TnefProgress,
+  type TnefWarning,
+  type TnefWriteMessage,
+  type TnefWriteAttachment,
+  type TnefWriteAddress,
   TNEF_SIGNATURE,
   LVL_MESSAGE,
   LVL_ATTACHMENT,
   ATTR,
   ATTACH_ATTR,
-  PT,
+  ATTACH_METHOD,
+  IID_IMESSAGE,
   PROP,
+  PT,
+  MV_FLAG,
 } from './types';
 
-export type { TnefParseResult, TnefAttachment };
+export type {
+  TnefParseResult,
+  TnefAttachment,
+  TnefRecipient,
+  TnefRecipientType,
+  MapiProperty,
+  MapiPropertyName,
+  MapiValue,
+  MapiScalar,
+  TnefMeeting,
+  TnefContact,
+  TnefContactPhone,
+  TnefContactAddress,
+  TnefTask,
+  TnefTaskStatus,
+  TnefMeetingMethod,
+  TnefRecurrence,
+  TnefImportance,
+  TnefSensitivity,
+  TnefPriority,
+  TnefEncodingSource,
+  TnefParseOptions,
+  TnefLimits,
+  TnefProgress,
+  TnefWarning,
+  TnefWriteMessage,
+  TnefWriteAttachment,
+  TnefWriteAddress,
+};
+export { PSETID, DEFAULT_TNEF_LIMITS } from './types';
+export { ANSI_ENCODINGS } from './charset';
+export { buildMeetingIcs } from './calendar';
+export { buildVcard } from './contact';
+export { buildTaskIcs } from './task';
+export { buildEml } from './eml';
+export { TnefParseError } from './diagnostics';
+export { writeTnef } from './encoder';
+export { renderWmf, type WmfRenderOptions } from './wmf';
+export {
+  readMapiProperties,
+  findProperty,
+  findNamedProperty,
+  describeProperty,
+  propTypeName,
+} from './properties';
+
+/** Progress is reported whenever this many more bytes have been read, or an attachment starts */
+const PROGRESS_STEP = 1024 * 1024;
+
+/** Settings for one TNEF stream; progress is only reported for the top-level stream */
+interface StreamOptions {
+  encodingOverride?: string;
+  onProgress?: (progress: TnefProgress) => void;
+}
 
 interface RawAttachment {
+  /** Offset of the attAttachRendData attribute that started this attachment */
+  offset: number;
   legacyName: string;
   mapiFilename: string;
   mapiLongFilename: string;
   mapiDisplayName: string;
   data: Uint8Array | null;
+  dataObject: Uint8Array | null;
+  attachMethod: number;
   mimeType: string;
   extension: string;
   size: number;
-}
-
-/** Map Windows codepage number to TextDecoder encoding name */
-function codepageToEncoding(cp: number): string {
-  const map: Record<number, string> = {
-    932: 'shift_jis',
-    936: 'gbk',
-    949: 'euc-kr',
-    950: 'big5',
-    1250: 'windows-1250',
-    1251: 'windows-1251',
-    1252: 'windows-1252',
-    1253: 'windows-1253',
-    1254: 'windows-1254',
-    1255: 'windows-1255',
-    1256: 'windows-1256',
-    1257: 'windows-1257',
-    1258: 'windows-1258',
-    65001: 'utf-8',
-  };
-  return map[cp] || 'shift_jis';
+  legacyCreatedDate: Date | null;
+  legacyModifiedDate: Date | null;
+  mapiCreatedDate: Date | null;
+  mapiModifiedDate: Date | null;
+  contentId: string;
+  contentLocation: string;
+  flags: number;
+  hidden: boolean;
+  /** attAttachMetaFile, or PidTagAttachRendering when the attribute is missing */
+  rendering: Uint8Array | null;
+  properties: MapiProperty[];
 }
 
 /**
  * Parse a winmail.dat (TNEF) file.
  * Works entirely in the browser — no fs or Node.js dependencies.
+ * Damaged input is parsed best-effort and the problems are listed in `warnings`;
+ * with `strict: true` the first problem throws a TnefParseError instead.
+ * Input without a TNEF signature always throws a TnefParseError; no other error escapes.
+ * Attachment data are views into the input buffer rather than copies, so it must not be modified afterwards.
+ * Use parseTnefAsync (from ./async) to keep large files off the main thread.
  */
-export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
+export function parseTnef(buffer: ArrayBuffer | Uint8Array, options: TnefParseOptions = {}): TnefParseResult {
   const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  return parseTnefStream(data, 0, new TnefDiagnostics(options), {
+    encodingOverride: options.ansiEncoding,
+    onProgress: options.onProgress,
+  });
+}
+
+/** Returns true if a PT_OBJECT value holds an embedded message (IID_IMessage + TNEF signature and legacy key) */
+export function isEmbeddedMessage(dataObject: Uint8Array): boolean {
+  if (dataObject.length < IID_IMESSAGE.length + 6) return false;
+  for (let i = 0; i < IID_IMESSAGE.length; i++) {
+    if (dataObject[i] !== IID_IMESSAGE[i]) return false;
+  }
+  const sig = new DataView(dataObject.buffer, dataObject.byteOffset + IID_IMESSAGE.length, 4).getUint32(0, true);
+  return sig === TNEF_SIGNATURE;
+}
+
+function parseTnefStream(
+  data: Uint8Array,
+  depth: number,
+  diag: TnefDiagnostics,
+  { encodingOverride, onProgress }: StreamOptions,
+): TnefParseResult {
   const decoder = new TnefDecoder(data);
+  const { limits } = diag;
 
-  // Verify TNEF signature
-  const signature = decoder.readUint32LE();
-  if (signature !== TNEF_SIGNATURE) {
-    throw new Error('Not a valid TNEF (winmail.dat) file');
+  // Verify TNEF signature (4 bytes) and room for the legacy key (2 bytes)
+  if (data.length < 6 || decoder.readUint32LE() !== TNEF_SIGNATURE) {
+    throw new TnefParseError({ offset: 0, attrId: 0, level: 0, depth, reason: 'Not a valid TNEF (winmail.dat) file' });
   }
 
   // Skip legacy key
   decoder.readUint16LE();
 
-  // Default to shift_jis for ANSI strings; updated if OEM codepage attribute is found
-  let ansiEncoding = 'shift_jis';
+  // Legacy ANSI attributes come before the codepage properties that describe them, so look ahead first
+  const { encoding: ansiEncoding, source: ansiEncodingSource } = chooseAnsiEncoding(
+    collectAnsiHints(data, limits),
+    encodingOverride,
+  );
 
   let subject = '';
   let from = '';
+  let senderName = '';
+  let senderEmail = '';
+  let messageClass = '';
   let body = '';
   let bodyHtml = '';
+  let rtfCompressed: Uint8Array | null = null;
+  let rtfOffset = 0;
+  let recipients: TnefRecipient[] = [];
+  const messageProps: MapiProperty[] = [];
+  let sentDate: Date | null = null;
+  let receivedDate: Date | null = null;
+  // Legacy attPriority / attRequestRes; PidTagImportance / PidTagReadReceiptRequested take precedence
+  let legacyImportance: TnefImportance | null = null;
+  let legacyReadReceipt = false;
+  let details: MapiResult = {};
 
   const attachments: RawAttachment[] = [];
   let currentAttachment: RawAttachment | null = null;
+  // Set once limits.maxAttachments is reached; later attachment attributes are skipped
+  let attachmentLimitReached = false;
+
+  let reportedOffset = 0;
+  let reportedAttachments = 0;
+  const reportProgress = () => {
+    reportedOffset = decoder.offset;
+    reportedAttachments = attachments.length + (currentAttachment ? 1 : 0);
+    onProgress?.({ bytesProcessed: reportedOffset, totalBytes: data.length, attachmentsFound: reportedAttachments });
+  };
 
   // Parse attributes
   while (decoder.remaining > 0) {
+    const attrOffset = decoder.offset;
     // Need at least 1 (level) + 4 (attr type) + 4 (length) = 9 bytes
-    if (decoder.remaining < 9) break;
+    if (decoder.remaining < 9) {
+      diag.warn(attrOffset, 0, 0, `Trailing ${decoder.remaining} bytes are too short for an attribute header`);
+      break;
+    }
 
     const level = decoder.readUint8();
     // Attribute type is 4 bytes: low 16 bits = attribute ID, high 16 bits = data type
@@ -84,27 +233,32 @@ export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
     const attrId = attrType & 0xFFFF;
     const attrLength = decoder.readUint32LE();
 
-    if (attrLength > decoder.remaining) break;
+    if (attrLength > decoder.remaining) {
+      diag.warn(attrOffset, level, attrId, `Attribute length ${attrLength} exceeds the ${decoder.remaining} bytes left`);
+      break;
+    }
+
+    if (attrLength > limits.maxValueSize) {
+      diag.warn(attrOffset, level, attrId, `Attribute of ${attrLength} bytes exceeds the limit of ${limits.maxValueSize}; skipped`);
+      decoder.skip(attrLength + 2);
+      continue;
+    }
 
     const attrData = decoder.readBytes(attrLength);
+    const propError = (reason: string, offset: number) => diag.warn(attrOffset, level, attrId, `${reason} (at +${offset})`);
 
-    // Skip checksum (2 bytes)
+    // Checksum: sum of the attribute data bytes, modulo 65536
     if (decoder.remaining >= 2) {
-      decoder.readUint16LE();
+      const checksum = decoder.readUint16LE();
+      if (diag.validateChecksums && checksum !== attributeChecksum(attrData)) {
+        diag.warn(attrOffset, level, attrId, 'Checksum mismatch');
+      }
+    } else {
+      diag.warn(attrOffset, level, attrId, 'Missing attribute checksum');
     }
 
     if (level === LVL_MESSAGE) {
       switch (attrId) {
-        case ATTR.OEM_CODEPAGE: {
-          // First 4 bytes = OEM codepage (uint32 LE)
-          if (attrData.length >= 4) {
-            const cp = new DataView(
-              attrData.buffer, attrData.byteOffset, attrData.byteLength
-            ).getUint32(0, true);
-            ansiEncoding = codepageToEncoding(cp);
-          }
-          break;
-        }
         case ATTR.SUBJECT: {
           // Legacy ANSI subject — may be overwritten by MAPI Unicode subject
           const d = new TnefDecoder(attrData);
@@ -120,40 +274,107 @@ export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
           }
           break;
         }
+        case ATTR.MESSAGE_CLASS: {
+          // Legacy ANSI message class — may be overwritten by MAPI PidTagMessageClass
+          if (!messageClass) {
+            messageClass = new TnefDecoder(attrData).decodeAnsiString(attrData, ansiEncoding);
+          }
+          break;
+        }
         case ATTR.BODY: {
           const d = new TnefDecoder(attrData);
           body = d.decodeAnsiString(attrData, ansiEncoding);
           break;
         }
+        case ATTR.DATE_SENT: {
+          // Legacy date — may be overwritten by MAPI PidTagClientSubmitTime
+          if (!sentDate) sentDate = readAttrDate(attrData);
+          break;
+        }
+        case ATTR.DATE_RECEIVED: {
+          if (!receivedDate) receivedDate = readAttrDate(attrData);
+          break;
+        }
+        case ATTR.PRIORITY: {
+          // 1 = high, 2 = normal, 3 = low
+          if (attrData.length >= 2) {
+            const value = attrData[0] | (attrData[1] << 8);
+            legacyImportance = value === 1 ? 'high' : value === 3 ? 'low' : 'normal';
+          }
+          break;
+        }
+        case ATTR.REQUEST_RES: {
+          legacyReadReceipt = attrData.length >= 2 && (attrData[0] | attrData[1]) !== 0;
+          break;
+        }
         case ATTR.MAPI_PROPS: {
           // MAPI props contain Unicode strings — always preferred over legacy ANSI
-          const parsed = parseMapiProps(attrData, ansiEncoding);
+          const props = readMapiProperties(attrData, ansiEncoding, propError, limits);
+          messageProps.push(...props);
+          const parsed = parseMapiProps(props);
           if (parsed.subject) subject = parsed.subject;
-          if (parsed.senderName) from = parsed.senderName;
+          if (parsed.messageClass) messageClass = parsed.messageClass;
+          if (parsed.senderName) from = senderName = parsed.senderName;
           if (parsed.senderEmail) {
+            senderEmail = parsed.senderEmail;
             from = from ? `${from} <${parsed.senderEmail}>` : parsed.senderEmail;
           }
           if (parsed.body) body = parsed.body;
           if (parsed.bodyHtml) bodyHtml = parsed.bodyHtml;
+          if (parsed.rtfCompressed) {
+            rtfCompressed = parsed.rtfCompressed;
+            rtfOffset = attrOffset;
+          }
+          if (parsed.sentDate) sentDate = parsed.sentDate;
+          if (parsed.receivedDate) receivedDate = parsed.receivedDate;
+          details = { ...details, ...parsed };
+          break;
+        }
+        case ATTR.RECIP_TABLE: {
+          recipients = parseRecipTable(attrData, ansiEncoding, propError, limits);
           break;
         }
       }
+    } else if (level === LVL_ATTACHMENT && attachmentLimitReached) {
+      // Already reported when the limit was reached
     } else if (level === LVL_ATTACHMENT) {
+      if (!currentAttachment && attrId !== ATTACH_ATTR.REND_DATA) {
+        diag.warn(attrOffset, level, attrId, 'Attachment attribute before any attAttachRendData; ignored');
+      }
       switch (attrId) {
         case ATTACH_ATTR.REND_DATA: {
           // New attachment starts
           if (currentAttachment) {
             attachments.push(currentAttachment);
           }
+          if (attachments.length >= limits.maxAttachments) {
+            diag.warn(attrOffset, level, attrId, `More than ${limits.maxAttachments} attachments; the rest were skipped`);
+            attachmentLimitReached = true;
+            currentAttachment = null;
+            break;
+          }
           currentAttachment = {
+            offset: attrOffset,
             legacyName: '',
             mapiFilename: '',
             mapiLongFilename: '',
             mapiDisplayName: '',
             data: null,
+            dataObject: null,
+            attachMethod: ATTACH_METHOD.BY_VALUE,
             mimeType: 'application/octet-stream',
             extension: '',
             size: 0,
+            legacyCreatedDate: null,
+            legacyModifiedDate: null,
+            mapiCreatedDate: null,
+            mapiModifiedDate: null,
+            contentId: '',
+            contentLocation: '',
+            flags: 0,
+            hidden: false,
+            rendering: null,
+            properties: [],
           };
           break;
         }
@@ -165,6 +386,19 @@ export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
           }
           break;
         }
+        case ATTACH_ATTR.CREATE_DATE: {
+          if (currentAttachment) currentAttachment.legacyCreatedDate = readAttrDate(attrData);
+          break;
+        }
+        case ATTACH_ATTR.MODIFY_DATE: {
+          if (currentAttachment) currentAttachment.legacyModifiedDate = readAttrDate(attrData);
+          break;
+        }
+        case ATTACH_ATTR.META_FILE: {
+          // Icon metafile; the attachment's MAPI properties may carry the same WMF as PidTagAttachRendering
+          if (currentAttachment && attrData.length > 0) currentAttachment.rendering = attrData;
+          break;
+        }
         case ATTACH_ATTR.DATA: {
           if (currentAttachment) {
             currentAttachment.data = attrData;
@@ -174,12 +408,23 @@ export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
         }
         case ATTACH_ATTR.MAPI_PROPS: {
           if (currentAttachment) {
-            const parsed = parseAttachMapiProps(attrData, ansiEncoding);
+            const props = readMapiProperties(attrData, ansiEncoding, propError, limits);
+            currentAttachment.properties.push(...props);
+            const parsed = parseAttachMapiProps(props);
             if (parsed.longFilename) currentAttachment.mapiLongFilename = parsed.longFilename;
             if (parsed.filename) currentAttachment.mapiFilename = parsed.filename;
             if (parsed.displayName) currentAttachment.mapiDisplayName = parsed.displayName;
             if (parsed.mimeType) currentAttachment.mimeType = parsed.mimeType;
             if (parsed.extension) currentAttachment.extension = parsed.extension;
+            if (parsed.createdDate) currentAttachment.mapiCreatedDate = parsed.createdDate;
+            if (parsed.modifiedDate) currentAttachment.mapiModifiedDate = parsed.modifiedDate;
+            if (parsed.attachMethod) currentAttachment.attachMethod = parsed.attachMethod;
+            if (parsed.dataObject) currentAttachment.dataObject = parsed.dataObject;
+            if (parsed.contentId) currentAttachment.contentId = parsed.contentId;
+            if (parsed.contentLocation) currentAttachment.contentLocation = parsed.contentLocation;
+            if (parsed.flags !== undefined) currentAttachment.flags = parsed.flags;
+            if (parsed.hidden !== undefined) currentAttachment.hidden = parsed.hidden;
+            if (parsed.rendering && !currentAttachment.rendering) currentAttachment.rendering = parsed.rendering;
             if (parsed.data) {
               currentAttachment.data = parsed.data;
               currentAttachment.size = parsed.data.length;
@@ -188,6 +433,16 @@ export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
           break;
         }
       }
+    } else {
+      diag.warn(attrOffset, level, attrId, `Unknown attribute level ${level}`);
+    }
+
+    if (
+      onProgress &&
+      (decoder.offset - reportedOffset >= PROGRESS_STEP ||
+        attachments.length + (currentAttachment ? 1 : 0) !== reportedAttachments)
+    ) {
+      reportProgress();
     }
   }
 
@@ -195,272 +450,303 @@ export function parseTnef(buffer: ArrayBuffer | Uint8Array): TnefParseResult {
   if (currentAttachment) {
     attachments.push(currentAttachment);
   }
+  onProgress?.({ bytesProcessed: data.length, totalBytes: data.length, attachmentsFound: attachments.length });
+
+  // Fall back to the compressed RTF body when no plain/HTML body was found
+  let bodyRtf: Uint8Array<ArrayBuffer> | null = null;
+  if (rtfCompressed) {
+    try {
+      bodyRtf = decompressRtf(rtfCompressed, limits.maxValueSize);
+      if (!body || !bodyHtml) {
+        const converted = convertRtf(bodyRtf);
+        if (!bodyHtml && converted.html) bodyHtml = converted.html;
+        if (!body && converted.text) body = converted.text;
+      }
+    } catch (err) {
+      // Corrupt RTF — keep whatever body we already have
+      const reason = err instanceof Error ? err.message : String(err);
+      diag.warn(rtfOffset, LVL_MESSAGE, ATTR.MAPI_PROPS, `Compressed RTF body could not be decoded: ${reason}`);
+    }
+  }
 
   // Build final attachment list with name priority:
   // 1st: MAPI PidTagAttachLongFilename (Unicode)
   // 2nd: MAPI PidTagAttachFilename (Unicode)
   // 3rd: MAPI PidTagDisplayName (Unicode)
   // 4th: attAttachTitle (legacy ANSI / Shift_JIS)
-  const finalAttachments: TnefAttachment[] = attachments
-    .filter((a) => a.data && a.data.length > 0)
-    .map((a) => {
-      const name = a.mapiLongFilename || a.mapiFilename || a.mapiDisplayName || a.legacyName || 'attachment';
-      return {
-        name,
-        size: a.size,
-        data: a.data!,
-        mimeType: a.mimeType !== 'application/octet-stream'
-          ? a.mimeType
-          : guessMimeType(name, a.extension),
-      };
-    });
+  // Embedded messages (attach method 5) are named after the display name or the nested subject
+  const finalAttachments: TnefAttachment[] = [];
+  for (const a of attachments) {
+    const embeddedMessage = parseEmbeddedMessage(a, depth, diag, encodingOverride);
+    if (embeddedMessage && a.dataObject) {
+      const title = a.mapiDisplayName || embeddedMessage.subject || a.legacyName || 'message';
+      const nested = a.dataObject.subarray(IID_IMESSAGE.length);
+      finalAttachments.push({
+        name: `${title}.dat`,
+        size: nested.length,
+        data: nested,
+        mimeType: 'application/ms-tnef',
+        createdDate: a.mapiCreatedDate || a.legacyCreatedDate,
+        modifiedDate: a.mapiModifiedDate || a.legacyModifiedDate,
+        embeddedMessage,
+        contentId: a.contentId,
+        contentLocation: a.contentLocation,
+        hidden: a.hidden,
+        inline: false,
+        rendering: a.rendering,
+        properties: a.properties,
+      });
+      continue;
+    }
 
-  return { subject, from, body, bodyHtml, attachments: finalAttachments };
-}
+    const ole = a.attachMethod === ATTACH_METHOD.OLE ? unwrapOleObject(a, ansiEncoding, diag) : null;
+    if (ole) {
+      finalAttachments.push({
+        name: ole.name,
+        size: ole.data.length,
+        data: ole.data,
+        mimeType: guessMimeType(ole.name, ''),
+        createdDate: a.mapiCreatedDate || a.legacyCreatedDate,
+        modifiedDate: a.mapiModifiedDate || a.legacyModifiedDate,
+        embeddedMessage: null,
+        contentId: a.contentId,
+        contentLocation: a.contentLocation,
+        hidden: a.hidden,
+        inline: isInlineAttachment(a, bodyHtml),
+        rendering: a.rendering,
+        properties: a.properties,
+      });
+      continue;
+    }
 
-interface MapiResult {
-  subject?: string;
-  senderName?: string;
-  senderEmail?: string;
-  body?: string;
-  bodyHtml?: string;
-}
+    if (!a.data || a.data.length === 0) continue;
+    const name = a.mapiLongFilename || a.mapiFilename || a.mapiDisplayName || a.legacyName || 'attachment';
+    finalAttachments.push({
+      name,
+      size: a.size,
+      data: a.data,
+      mimeType: a.mimeType !== 'application/octet-stream'
+        ? a.mimeType
+        : guessMimeType(name, a.extension),
+      createdDate: a.mapiCreatedDate || a.legacyCreatedDate,
+      modifiedDate: a.mapiModifiedDate || a.legacyModifiedDate,
+      embeddedMessage: null,
+      contentId: a.contentId,
+      contentLocation: a.contentLocation,
+      hidden: a.hidden,
+      inline: isInlineAttachment(a, bodyHtml),
+      rendering: a.rendering,
+      properties: a.properties,
+    });
+  }
 
-interface AttachMapiResult {
-  filename?: string;
-  longFilename?: string;
-  displayName?: string;
-  mimeType?: string;
-  extension?: string;
-  data?: Uint8Array;
+  const to = recipients.filter((r) => r.type === 'to');
+  const cc = recipients.filter((r) => r.type === 'cc');
+  const importance = details.importance ?? legacyImportance ?? 'normal';
+
+  return {
+    subject,
+    from,
+    messageClass,
+    to,
+    cc,
+    bcc: recipients.filter((r) => r.type === 'bcc'),
+    sentDate,
+    receivedDate,
+    body,
+    bodyHtml,
+    bodyRtf,
+    attachments: finalAttachments,
+    properties: messageProps,
+    meeting: decodeMeeting(messageProps, { messageClass, subject, body, senderName, senderEmail, to, cc }),
+    contact: decodeContact(messageProps, { messageClass, subject, body }),
+    task: decodeTask(messageProps, { messageClass, subject, body, importance }),
+    transportHeaders: details.transportHeaders ?? '',
+    importance,
+    sensitivity: details.sensitivity ?? 'none',
+    priority: details.priority ?? 'normal',
+    internetMessageId: details.internetMessageId ?? '',
+    conversationTopic: details.conversationTopic ?? '',
+    readReceiptRequested: details.readReceiptRequested ?? legacyReadReceipt,
+    deliveryReceiptRequested: details.deliveryReceiptRequested ?? false,
+    ansiEncoding,
+    ansiEncodingSource,
+    warnings: diag.warnings,
+  };
 }
 
-function parseMapiProps(data: Uint8Array, ansiEncoding: string): MapiResult {
-  const result: MapiResult = {};
-  try {
-    const d = new TnefDecoder(data);
-    const count = d.readUint32LE();
-
-    for (let i = 0; i < count && d.remaining > 4; i++) {
-      const propType = d.readUint16LE();
-      const propId = d.readUint16LE();
-
-      // Skip named properties (ID >= 0x8000)
-      if (propId >= 0x8000) {
-        skipNamedPropHeader(d);
-      }
-
-      const value = readPropValue(d, propType, ansiEncoding);
-      if (value === null) break;
+/**
+ * Parse attRecipTable: a row count followed by one MAPI property set per recipient.
+ * Each row uses the same encoding as an attMsgProps block (prop count + props).
+ */
+function parseRecipTable(
+  data: Uint8Array,
+  ansiEncoding: string,
+  onError: PropertyErrorHandler,
+  limits: TnefLimits,
+): TnefRecipient[] {
+  const recipients: TnefRecipient[] = [];
+  const d = new TnefDecoder(data);
+  if (d.remaining < 4) {
+    onError('Recipient table is too short for a row count', 0);
+    return recipients;
+  }
+  const rowCount = d.readUint32LE();
+  if (rowCount > limits.maxRecipients) {
+    onError(`Recipient count ${rowCount} exceeds the limit of ${limits.maxRecipients}; the rest were not read`, 0);
+  }
 
-      switch (propId) {
-        case PROP.SUBJECT:
-          if (typeof value === 'string') result.subject = value;
-          break;
-        case PROP.SENDER_NAME:
-        case PROP.SENT_REPR_NAME:
-          if (typeof value === 'string' && !result.senderName) result.senderName = value;
-          break;
-        case PROP.SENDER_EMAIL:
-        case PROP.SENT_REPR_EMAIL:
-          if (typeof value === 'string' && !result.senderEmail) result.senderEmail = value;
-          break;
-        case PROP.BODY:
-          if (typeof value === 'string') result.body = value;
-          break;
-        case PROP.BODY_HTML:
-          if (value instanceof Uint8Array) {
-            result.bodyHtml = new TextDecoder('utf-8').decode(value);
-          } else if (typeof value === 'string') {
-            result.bodyHtml = value;
-          }
-          break;
-      }
+  for (let r = 0; r < Math.min(rowCount, limits.maxRecipients); r++) {
+    if (d.remaining < 4) {
+      onError(`Recipient table ends after ${r} of ${rowCount} rows`, d.offset);
+      break;
     }
-  } catch {
-    // Best-effort parsing — return what we got
+    let rowError = false;
+    const row = readPropertyList(d, ansiEncoding, (reason, offset) => {
+      rowError = true;
+      onError(`Recipient ${r + 1}: ${reason}`, offset);
+    }, limits);
+    const recipient = parseRecipientRow(row);
+    if (recipient) recipients.push(recipient);
+
+    // Keep the partial row, but later rows cannot be located once a row is damaged
+    if (rowError) break;
   }
-  return result;
+  return recipients;
 }
 
-function parseAttachMapiProps(data: Uint8Array, ansiEncoding: string): AttachMapiResult {
-  const result: AttachMapiResult = {};
+/**
+ * Recover the file inside an OLE object attachment (attach method 6). Returns null when the object holds
+ * no file or cannot be read; the attachment is then listed with its raw storage as before.
+ */
+function unwrapOleObject(a: RawAttachment, ansiEncoding: string, diag: TnefDiagnostics): OleObjectFile | null {
+  const storage = a.dataObject ?? a.data;
+  if (!storage || storage.length === 0) return null;
+  const fallbackName = a.mapiDisplayName || a.mapiLongFilename || a.mapiFilename || a.legacyName || 'object';
   try {
-    const d = new TnefDecoder(data);
-    const count = d.readUint32LE();
-
-    for (let i = 0; i < count && d.remaining > 4; i++) {
-      const propType = d.readUint16LE();
-      const propId = d.readUint16LE();
-
-      if (propId >= 0x8000) {
-        skipNamedPropHeader(d);
-      }
-
-      const value = readPropValue(d, propType, ansiEncoding);
-      if (value === null) break;
-
-      switch (propId) {
-        case PROP.ATTACH_FILENAME:
-          if (typeof value === 'string') result.filename = value;
-          break;
-        case PROP.ATTACH_LONG_FILENAME:
-          if (typeof value === 'string') result.longFilename = value;
-          break;
-        case PROP.DISPLAY_NAME:
-          if (typeof value === 'string') result.displayName = value;
-          break;
-        case PROP.ATTACH_MIME_TAG:
-          if (typeof value === 'string') result.mimeType = value;
-          break;
-        case PROP.ATTACH_EXTENSION:
-          if (typeof value === 'string') result.extension = value;
-          break;
-        case PROP.ATTACH_DATA_BIN:
-          if (value instanceof Uint8Array) result.data = value;
-          break;
-      }
-    }
-  } catch {
-    // Best-effort parsing
+    const file = extractOleObject(storage, { fallbackName, ansiEncoding });
+    if (!file) diag.warn(a.offset, LVL_ATTACHMENT, ATTACH_ATTR.DATA, 'OLE object holds no file; kept as stored');
+    return file;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    diag.warn(a.offset, LVL_ATTACHMENT, ATTACH_ATTR.DATA, `OLE object could not be unwrapped: ${reason}`);
+    return null;
   }
-  return result;
 }
 
-function skipNamedPropHeader(d: TnefDecoder): void {
-  // GUID (16 bytes)
-  d.skip(16);
-  // Kind (4 bytes)
-  const kind = d.readUint32LE();
-  if (kind === 0) {
-    // Named by ID
-    d.skip(4);
-  } else {
-    // Named by string
-    const nameLen = d.readUint32LE();
-    d.skip(pad4(nameLen));
+/** Recursively parse an embedded message attachment; returns null for anything else */
+function parseEmbeddedMessage(
+  a: RawAttachment,
+  depth: number,
+  diag: TnefDiagnostics,
+  encodingOverride: string | undefined,
+): TnefParseResult | null {
+  if (!a.dataObject) return null;
+  // Trust the payload over PidTagAttachMethod — some writers omit the method property
+  if (!isEmbeddedMessage(a.dataObject)) return null;
+  if (depth + 1 > diag.limits.maxDepth) {
+    diag.warn(a.offset, LVL_ATTACHMENT, ATTACH_ATTR.REND_DATA, `Embedded message nested deeper than ${diag.limits.maxDepth} levels; not parsed`);
+    return null;
+  }
+  const child = diag.child();
+  try {
+    return parseTnefStream(a.dataObject.subarray(IID_IMESSAGE.length), depth + 1, child, { encodingOverride });
+  } catch (err) {
+    // A broken embedded message is a warning like any other damage; only strict mode stops the parse
+    if (err instanceof TnefParseError && diag.strict) throw err;
+    const reason = err instanceof TnefParseError ? err.warning.reason : err instanceof Error ? err.message : String(err);
+    diag.warn(a.offset, LVL_ATTACHMENT, ATTACH_ATTR.REND_DATA, `Embedded message could not be parsed: ${reason}`);
+    return null;
   }
 }
 
-function readPropValue(
-  d: TnefDecoder,
-  propType: number,
-  ansiEncoding: string,
-): string | number | Uint8Array | null {
-  try {
-    switch (propType) {
-      case PT.SHORT: {
-        const val = d.readUint16LE();
-        d.skip(2); // padding
-        return val;
-      }
-      case PT.LONG:
-      case PT.BOOLEAN: {
-        return d.readUint32LE();
-      }
-      case PT.SYSTIME: {
-        d.skip(8);
-        return 0;
-      }
-      case PT.STRING8: {
-        // Count of values (always 1 for single-value)
-        const count = d.readUint32LE();
-        if (count !== 1) {
-          // Multi-value or unexpected — skip
-          for (let j = 0; j < count; j++) {
-            const len = d.readUint32LE();
-            d.skip(pad4(len));
-          }
-          return null;
-        }
-        const len = d.readUint32LE();
-        const bytes = d.readBytes(len);
-        d.skip(pad4(len) - len);
-        return d.decodeAnsiString(bytes, ansiEncoding);
+/**
+ * Scan a TNEF stream for what decides the ANSI encoding: the codepage attribute and properties,
+ * and the raw bytes of every ANSI string. Damaged data is skipped quietly; the main pass reports it.
+ */
+function collectAnsiHints(data: Uint8Array, limits: TnefLimits): AnsiEncodingHints {
+  const hints: AnsiEncodingHints = { messageCodepage: null, oemCodepage: null, internetCodepage: null, samples: [] };
+  const sampleProps = (props: MapiProperty[]) => {
+    for (const prop of props) {
+      if ((prop.type & ~MV_FLAG) !== PT.STRING8) continue;
+      const values = Array.isArray(prop.value) ? prop.value : [prop.value];
+      for (const value of values) {
+        if (typeof value === 'string') hints.samples.push(windows1252Bytes(value));
       }
-      case PT.UNICODE: {
-        const count = d.readUint32LE();
-        if (count !== 1) {
-          for (let j = 0; j < count; j++) {
-            const len = d.readUint32LE();
-            d.skip(pad4(len));
+    }
+  };
+
+  const d = new TnefDecoder(data);
+  d.skip(6);
+  while (d.remaining >= 9) {
+    const level = d.readUint8();
+    const attrId = d.readUint32LE() & 0xffff;
+    const length = d.readUint32LE();
+    if (length > d.remaining) break;
+    const attrData = d.readBytes(length);
+    d.skip(2);
+
+    try {
+      if (level === LVL_MESSAGE) {
+        switch (attrId) {
+          case ATTR.OEM_CODEPAGE:
+            if (attrData.length >= 4) hints.oemCodepage = new TnefDecoder(attrData).readUint32LE();
+            break;
+          case ATTR.SUBJECT:
+          case ATTR.BODY:
+            hints.samples.push(attrData);
+            break;
+          case ATTR.FROM:
+            hints.samples.push(attrData.subarray(8));
+            break;
+          case ATTR.MAPI_PROPS: {
+            // Strings are decoded as windows-1252 so that their bytes can be recovered
+            const props = readMapiProperties(attrData, 'windows-1252', undefined, limits);
+            const codepage = (id: number) => {
+              const value = props.find((p) => p.id === id && p.type === PT.LONG)?.value;
+              return typeof value === 'number' ? value : null;
+            };
+            hints.messageCodepage = codepage(PROP.MESSAGE_CODEPAGE) ?? hints.messageCodepage;
+            hints.internetCodepage = codepage(PROP.INTERNET_CPID) ?? hints.internetCodepage;
+            sampleProps(props);
+            break;
           }
-          return null;
-        }
-        const len = d.readUint32LE();
-        const bytes = d.readBytes(len);
-        d.skip(pad4(len) - len);
-        return d.decodeUnicodeString(bytes);
-      }
-      case PT.BINARY: {
-        const count = d.readUint32LE();
-        if (count !== 1) {
-          for (let j = 0; j < count; j++) {
-            const len = d.readUint32LE();
-            d.skip(pad4(len));
+          case ATTR.RECIP_TABLE: {
+            const rows = new TnefDecoder(attrData);
+            const count = Math.min(rows.readUint32LE(), limits.maxRecipients);
+            for (let r = 0; r < count && rows.remaining >= 4; r++) {
+              sampleProps(readPropertyList(rows, 'windows-1252', undefined, limits));
+            }
+            break;
           }
-          return null;
         }
-        const len = d.readUint32LE();
-        const bytes = d.readBytes(len);
-        d.skip(pad4(len) - len);
-        return bytes;
-      }
-      case PT.MV_STRING8:
-      case PT.MV_UNICODE:
-      case PT.MV_BINARY: {
-        const count = d.readUint32LE();
-        for (let j = 0; j < count; j++) {
-          const len = d.readUint32LE();
-          d.skip(pad4(len));
-        }
-        return null;
-      }
-      default: {
-        // Unknown type — try to read as 4-byte value
-        if (d.remaining >= 4) {
-          d.skip(4);
+      } else if (level === LVL_ATTACHMENT) {
+        if (attrId === ATTACH_ATTR.TITLE) hints.samples.push(attrData);
+        if (attrId === ATTACH_ATTR.MAPI_PROPS) {
+          sampleProps(readMapiProperties(attrData, 'windows-1252', undefined, limits));
         }
-        return null;
       }
+    } catch {
+      // Truncated attribute — whatever was sampled before it still counts
     }
+  }
+  return hints;
+}
+
+/** TNEF attribute checksum: the sum of the data bytes, modulo 65536 */
+function attributeChecksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum = (sum + data[i]) & 0xffff;
+  return sum;
+}
+
+/** Decode a legacy attDate* attribute (DTR structure) */
+function readAttrDate(data: Uint8Array): Date | null {
+  if (data.length < 14) return null;
+  try {
+    return new TnefDecoder(data).readDtr();
   } catch {
     return null;
   }
 }
 
-function guessMimeType(name: string, ext: string): string {
-  const e = (ext || name.split('.').pop() || '').toLowerCase().replace('.', '');
-  const map: Record<string, string> = {
-    pdf: 'application/pdf',
-    doc: 'application/msword',
-    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    xls: 'application/vnd.ms-excel',
-    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    ppt: 'application/vnd.ms-powerpoint',
-    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    jpg: 'image/jpeg',
-    jpeg: 'image/jpeg',
-    png: 'image/png',
-    gif: 'image/gif',
-    bmp: 'image/bmp',
-    svg: 'image/svg+xml',
-    txt: 'text/plain',
-    html: 'text/html',
-    htm: 'text/html',
-    csv: 'text/csv',
-    xml: 'text/xml',
-    zip: 'application/zip',
-    rar: 'application/x-rar-compressed',
-    '7z': 'application/x-7z-compressed',
-    mp3: 'audio/mpeg',
-    mp4: 'video/mp4',
-    avi: 'video/x-msvideo',
-    mov: 'video/quicktime',
-    eml: 'message/rfc822',
-    msg: 'application/vnd.ms-outlook',
-    ics: 'text/calendar',
-    vcf: 'text/vcard',
-  };
-  return map[e] || 'application/octet-stream';
-}
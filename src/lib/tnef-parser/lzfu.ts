@@ -0,0 +1,87 @@
+/**
+ * Decompressor for PidTagRtfCompressed (MS-OXRTFCP "LZFu").
+ * Outlook stores the RTF body of a message compressed with this simple LZ77 variant.
+ */
+
+/** Compression type "LZFu" — LZ77-compressed */
+const COMPRESSED = 0x75465a4c;
+/** Compression type "MELA" — stored uncompressed */
+const UNCOMPRESSED = 0x414c454d;
+
+const HEADER_SIZE = 16;
+const DICT_SIZE = 4096;
+/** Most output one input byte can produce: a 2-byte reference expands to at most 17 bytes */
+const MAX_EXPANSION = 9;
+
+/** Initial dictionary contents defined by MS-OXRTFCP (207 bytes) */
+const PREBUF =
+  '{\\rtf1\\ansi\\mac\\deff0\\deftab720{\\fonttbl;}{\\f0\\fnil \\froman ' +
+  '\\fswiss \\fmodern \\fscript \\fdecor MS Sans SerifSymbolArial' +
+  'Times New RomanCourier{\\colortbl\\red0\\green0\\blue0\r\n\\par ' +
+  '\\pard\\plain\\f0\\fs20\\b\\i\\u\\tab\\tx';
+
+/**
+ * Decompress a PidTagRtfCompressed value into raw RTF bytes.
+ * Throws if the header is not a recognised compressed-RTF header, or if it claims more than maxSize bytes.
+ * The output buffer is sized by what the compressed data can actually expand to, not by the header alone.
+ */
+export function decompressRtf(data: Uint8Array, maxSize = Infinity): Uint8Array<ArrayBuffer> {
+  if (data.length < HEADER_SIZE) throw new Error('Compressed RTF is too short');
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const compSize = view.getUint32(0, true);
+  const rawSize = view.getUint32(4, true);
+  const compType = view.getUint32(8, true);
+  if (rawSize > maxSize) throw new Error(`Decompressed size ${rawSize} exceeds the limit of ${maxSize}`);
+
+  // compSize counts everything after its own field
+  const end = Math.min(data.length, compSize + 4);
+
+  if (compType === UNCOMPRESSED) {
+    return data.slice(HEADER_SIZE, Math.min(end, HEADER_SIZE + rawSize));
+  }
+  if (compType !== COMPRESSED) {
+    throw new Error('Unknown compressed RTF type');
+  }
+
+  const dict = new Uint8Array(DICT_SIZE);
+  for (let i = 0; i < PREBUF.length; i++) dict[i] = PREBUF.charCodeAt(i);
+  let writePos = PREBUF.length;
+
+  const outSize = Math.min(rawSize, Math.max(end - HEADER_SIZE, 0) * MAX_EXPANSION);
+  const out = new Uint8Array(outSize);
+  let outPos = 0;
+  let pos = HEADER_SIZE;
+
+  while (pos < end && outPos < outSize) {
+    const control = data[pos++];
+
+    for (let bit = 0; bit < 8 && pos < end && outPos < outSize; bit++) {
+      if (control & (1 << bit)) {
+        // Dictionary reference: 12-bit offset + 4-bit length (big-endian)
+        if (pos + 2 > end) return out.subarray(0, outPos);
+        const ref = (data[pos] << 8) | data[pos + 1];
+        pos += 2;
+        const offset = ref >> 4;
+        const length = (ref & 0x0f) + 2;
+
+        // A reference to the current write position marks the end of the stream
+        if (offset === writePos) return out.subarray(0, outPos);
+
+        for (let i = 0; i < length && outPos < outSize; i++) {
+          const b = dict[(offset + i) & (DICT_SIZE - 1)];
+          out[outPos++] = b;
+          dict[writePos] = b;
+          writePos = (writePos + 1) & (DICT_SIZE - 1);
+        }
+      } else {
+        const b = data[pos++];
+        out[outPos++] = b;
+        dict[writePos] = b;
+        writePos = (writePos + 1) & (DICT_SIZE - 1);
+      }
+    }
+  }
+
+  return out.subarray(0, outPos);
+}
@@ -0,0 +1,299 @@
+import { findProperty } from './properties';
+import {
+  type MapiProperty,
+  type TnefRecipient,
+  type TnefRecipientType,
+  type TnefImportance,
+  type TnefSensitivity,
+  type TnefPriority,
+  PT,
+  PROP,
+  RECIP_TYPE,
+  ATTACH_FLAG,
+} from './types';
+
+/*
+ * Mapping from MAPI properties to message fields. TNEF (attMsgProps / attAttachment / attRecipTable)
+ * and .msg files (property streams) carry the same properties, so both readers share it.
+ */
+
+export interface MapiResult {
+  subject?: string;
+  messageClass?: string;
+  senderName?: string;
+  senderEmail?: string;
+  body?: string;
+  bodyHtml?: string;
+  rtfCompressed?: Uint8Array;
+  sentDate?: Date;
+  receivedDate?: Date;
+  transportHeaders?: string;
+  importance?: TnefImportance;
+  sensitivity?: TnefSensitivity;
+  priority?: TnefPriority;
+  internetMessageId?: string;
+  conversationTopic?: string;
+  readReceiptRequested?: boolean;
+  deliveryReceiptRequested?: boolean;
+}
+
+export interface AttachMapiResult {
+  filename?: string;
+  longFilename?: string;
+  displayName?: string;
+  mimeType?: string;
+  extension?: string;
+  data?: Uint8Array;
+  dataObject?: Uint8Array;
+  attachMethod?: number;
+  createdDate?: Date;
+  modifiedDate?: Date;
+  contentId?: string;
+  contentLocation?: string;
+  flags?: number;
+  hidden?: boolean;
+  rendering?: Uint8Array;
+}
+
+/** Message fields from standard message properties */
+export function parseMapiProps(props: MapiProperty[]): MapiResult {
+  const result: MapiResult = {};
+  let smtpAddress = '';
+  for (const { id, value, named } of props) {
+    if (named) continue;
+
+    switch (id) {
+      case PROP.SUBJECT:
+        if (typeof value === 'string') result.subject = value;
+        break;
+      case PROP.MESSAGE_CLASS:
+        if (typeof value === 'string') result.messageClass = value;
+        break;
+      case PROP.SENDER_NAME:
+      case PROP.SENT_REPR_NAME:
+        if (typeof value === 'string' && !result.senderName) result.senderName = value;
+        break;
+      case PROP.SENDER_EMAIL:
+      case PROP.SENT_REPR_EMAIL:
+        if (typeof value === 'string' && !result.senderEmail) result.senderEmail = value;
+        break;
+      case PROP.SENDER_SMTP_ADDRESS:
+      case PROP.SENT_REPR_SMTP_ADDRESS:
+        if (typeof value === 'string' && !smtpAddress) smtpAddress = value;
+        break;
+      case PROP.BODY:
+        if (typeof value === 'string') result.body = value;
+        break;
+      case PROP.BODY_HTML:
+        if (value instanceof Uint8Array) {
+          result.bodyHtml = new TextDecoder('utf-8').decode(value);
+        } else if (typeof value === 'string') {
+          result.bodyHtml = value;
+        }
+        break;
+      case PROP.RTF_COMPRESSED:
+        if (value instanceof Uint8Array) result.rtfCompressed = value;
+        break;
+      case PROP.CLIENT_SUBMIT_TIME:
+        if (value instanceof Date) result.sentDate = value;
+        break;
+      case PROP.MESSAGE_DELIVERY_TIME:
+        if (value instanceof Date) result.receivedDate = value;
+        break;
+      case PROP.TRANSPORT_MESSAGE_HEADERS:
+        if (typeof value === 'string') result.transportHeaders = value;
+        break;
+      case PROP.IMPORTANCE:
+        if (typeof value === 'number') result.importance = importanceFromMapi(value);
+        break;
+      case PROP.SENSITIVITY:
+        if (typeof value === 'number') result.sensitivity = sensitivityFromMapi(value);
+        break;
+      case PROP.PRIORITY:
+        if (typeof value === 'number') result.priority = priorityFromMapi(value);
+        break;
+      case PROP.INTERNET_MESSAGE_ID:
+        if (typeof value === 'string') result.internetMessageId = value;
+        break;
+      case PROP.CONVERSATION_TOPIC:
+        if (typeof value === 'string') result.conversationTopic = value;
+        break;
+      case PROP.READ_RECEIPT_REQUESTED:
+        if (typeof value === 'boolean') result.readReceiptRequested = value;
+        break;
+      case PROP.ORIGINATOR_DELIVERY_REPORT_REQUESTED:
+        if (typeof value === 'boolean') result.deliveryReceiptRequested = value;
+        break;
+    }
+  }
+  // Exchange senders carry an X.500 DN in PR_SENDER_EMAIL_ADDRESS — prefer the SMTP form
+  if (smtpAddress) result.senderEmail = smtpAddress;
+  return result;
+}
+
+/** PidTagImportance: 0 = low, 1 = normal, 2 = high */
+function importanceFromMapi(value: number): TnefImportance {
+  if (value === 0) return 'low';
+  return value === 2 ? 'high' : 'normal';
+}
+
+function sensitivityFromMapi(value: number): TnefSensitivity {
+  switch (value) {
+    case 1:
+      return 'personal';
+    case 2:
+      return 'private';
+    case 3:
+      return 'confidential';
+    default:
+      return 'none';
+  }
+}
+
+/** PidTagPriority is signed: -1 = non-urgent, 0 = normal, 1 = urgent */
+function priorityFromMapi(value: number): TnefPriority {
+  const signed = value | 0;
+  if (signed < 0) return 'nonurgent';
+  return signed > 0 ? 'urgent' : 'normal';
+}
+
+/** Attachment fields from standard attachment properties */
+export function parseAttachMapiProps(props: MapiProperty[]): AttachMapiResult {
+  const result: AttachMapiResult = {};
+  for (const { id, type, value, named } of props) {
+    if (named) continue;
+
+    switch (id) {
+      case PROP.ATTACH_FILENAME:
+        if (typeof value === 'string') result.filename = value;
+        break;
+      case PROP.ATTACH_LONG_FILENAME:
+        if (typeof value === 'string') result.longFilename = value;
+        break;
+      case PROP.DISPLAY_NAME:
+        if (typeof value === 'string') result.displayName = value;
+        break;
+      case PROP.ATTACH_MIME_TAG:
+        if (typeof value === 'string') result.mimeType = value;
+        break;
+      case PROP.ATTACH_EXTENSION:
+        if (typeof value === 'string') result.extension = value;
+        break;
+      case PROP.ATTACH_DATA_BIN:
+        // Shares its ID with PidTagAttachDataObject; PT_OBJECT values start with an interface IID
+        if (value instanceof Uint8Array) {
+          if (type === PT.OBJECT) result.dataObject = value;
+          else result.data = value;
+        }
+        break;
+      case PROP.ATTACH_METHOD:
+        if (typeof value === 'number') result.attachMethod = value;
+        break;
+      case PROP.CREATION_TIME:
+        if (value instanceof Date) result.createdDate = value;
+        break;
+      case PROP.LAST_MODIFICATION_TIME:
+        if (value instanceof Date) result.modifiedDate = value;
+        break;
+      case PROP.ATTACH_CONTENT_ID:
+        if (typeof value === 'string') result.contentId = value.replace(/^<|>$/g, '');
+        break;
+      case PROP.ATTACH_CONTENT_LOCATION:
+        if (typeof value === 'string') result.contentLocation = value;
+        break;
+      case PROP.ATTACH_FLAGS:
+        if (typeof value === 'number') result.flags = value;
+        break;
+      case PROP.ATTACHMENT_HIDDEN:
+        if (typeof value === 'boolean') result.hidden = value;
+        break;
+      case PROP.ATTACH_RENDERING:
+        if (value instanceof Uint8Array) result.rendering = value;
+        break;
+    }
+  }
+  return result;
+}
+
+/** Recipient from one recipient-table row; null when the row has neither a name nor an address */
+export function parseRecipientRow(row: MapiProperty[]): TnefRecipient | null {
+  const str = (id: number) => {
+    const value = findProperty(row, id)?.value;
+    return typeof value === 'string' ? value : '';
+  };
+  const recipType = findProperty(row, PROP.RECIPIENT_TYPE)?.value;
+
+  // Exchange (EX) recipients carry an X.500 DN in PR_EMAIL_ADDRESS — prefer the SMTP form
+  const name = str(PROP.DISPLAY_NAME);
+  const address = str(PROP.SMTP_ADDRESS) || str(PROP.EMAIL_ADDRESS);
+  if (!name && !address) return null;
+
+  return {
+    name,
+    email: address,
+    addressType: str(PROP.ADDRTYPE),
+    type: recipientTypeFromMapi(typeof recipType === 'number' ? recipType & 0x0f : RECIP_TYPE.TO),
+  };
+}
+
+function recipientTypeFromMapi(value: number): TnefRecipientType {
+  switch (value) {
+    case RECIP_TYPE.CC:
+      return 'cc';
+    case RECIP_TYPE.BCC:
+      return 'bcc';
+    default:
+      return 'to';
+  }
+}
+
+/**
+ * An attachment is inline when the HTML body references it (by cid: or Content-Location),
+ * or when it has a content ID and is either hidden or flagged as rendered in the body.
+ */
+export function isInlineAttachment(
+  a: Pick<AttachMapiResult, 'contentId' | 'contentLocation' | 'hidden' | 'flags'>,
+  bodyHtml: string,
+): boolean {
+  if (!a.contentId && !a.contentLocation) return false;
+  const html = bodyHtml.toLowerCase();
+  if (a.contentId && html.includes(`cid:${a.contentId.toLowerCase()}`)) return true;
+  if (a.contentLocation && html.includes(a.contentLocation.toLowerCase())) return true;
+  return !!a.contentId && (!!a.hidden || ((a.flags ?? 0) & ATTACH_FLAG.RENDERED_IN_BODY) !== 0);
+}
+
+export function guessMimeType(name: string, ext: string): string {
+  const e = (ext || name.split('.').pop() || '').toLowerCase().replace('.', '');
+  const map: Record<string, string> = {
+    pdf: 'application/pdf',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ppt: 'application/vnd.ms-powerpoint',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    svg: 'image/svg+xml',
+    txt: 'text/plain',
+    html: 'text/html',
+    htm: 'text/html',
+    csv: 'text/csv',
+    xml: 'text/xml',
+    zip: 'application/zip',
+    rar: 'application/x-rar-compressed',
+    '7z': 'application/x-7z-compressed',
+    mp3: 'audio/mpeg',
+    mp4: 'video/mp4',
+    avi: 'video/x-msvideo',
+    mov: 'video/quicktime',
+    eml: 'message/rfc822',
+    msg: 'application/vnd.ms-outlook',
+    ics: 'text/calendar',
+    vcf: 'text/vcard',
+  };
+  return map[e] || 'application/octet-stream';
+}
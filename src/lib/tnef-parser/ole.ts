@@ -0,0 +1,263 @@
+/*
+ * OLE object attachments (PidTagAttachMethod 6). Outlook stores an object inserted into the body as an
+ * OLE storage rather than as a file: a compound file whose streams hold the object's native data.
+ * This module recovers the file the user inserted — Packager packages (\x01Ole10Native), Paintbrush
+ * bitmaps, objects that keep their file in a CONTENTS or Package stream, and Office 97-2003 documents
+ * that are themselves the storage. Bare OLE 1.0 object streams are unwrapped the same way.
+ */
+
+import { CompoundFile, type CfbStorage } from '../msg-parser/cfb';
+
+/** A file recovered from an OLE object */
+export interface OleObjectFile {
+  name: string;
+  data: Uint8Array;
+}
+
+/** Options for extractOleObject and extractOleStorage */
+export interface OleExtractOptions {
+  /** Name used when the object does not record one, usually the attachment's display name */
+  fallbackName: string;
+  /** TextDecoder encoding for ANSI names inside the object (default windows-1252) */
+  ansiEncoding?: string;
+}
+
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/** IID_IStorage (0000000B-0000-0000-C000-000000000046) — prefixes PT_OBJECT storages */
+const IID_ISTORAGE = new Uint8Array([
+  0x0b, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+  0xc0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x46,
+]);
+
+/** OLEVersion of an OLE 1.0 ObjectHeader (MS-OLEDS 2.2.4) */
+const OLE1_VERSION = 0x00000501;
+const OLE1_FORMAT_EMBEDDED = 2;
+
+/** Ole10Native package type of an embedded file; type 1 is a link with no data */
+const PACKAGE_EMBEDDED_FILE = 3;
+
+/** Stream names, upper-case as CfbStorage keys them */
+const STREAM = {
+  OLE10_NATIVE: '\x01OLE10NATIVE',
+  COMP_OBJ: '\x01COMPOBJ',
+  CONTENTS: 'CONTENTS',
+  PACKAGE: 'PACKAGE',
+} as const;
+
+/** Streams that identify an Office 97-2003 document stored as the object itself */
+const COMPOUND_DOCUMENT_STREAMS: [string, string][] = [
+  ['WORDDOCUMENT', 'doc'],
+  ['WORKBOOK', 'xls'],
+  ['BOOK', 'xls'],
+  ['POWERPOINT DOCUMENT', 'ppt'],
+  ['VISIODOCUMENT', 'vsd'],
+];
+
+/** File extension by ProgID prefix, for objects whose data does not identify itself */
+const PROGID_EXTENSIONS: [string, string][] = [
+  ['word.documentmacroenabled.', 'docm'],
+  ['word.document.12', 'docx'],
+  ['word.document', 'doc'],
+  ['excel.sheetmacroenabled.', 'xlsm'],
+  ['excel.sheet.12', 'xlsx'],
+  ['excel.sheet', 'xls'],
+  ['powerpoint.showmacroenabled.', 'pptm'],
+  ['powerpoint.show.12', 'pptx'],
+  ['powerpoint.show', 'ppt'],
+  ['visio.drawing.15', 'vsdx'],
+  ['visio.drawing', 'vsd'],
+  ['acroexch.document', 'pdf'],
+  ['pbrush', 'bmp'],
+  ['paint.picture', 'bmp'],
+];
+
+/**
+ * Unwrap an OLE object attachment — attAttachData or PidTagAttachDataObject, with or without the
+ * IID_IStorage prefix, or an OLE 1.0 object stream — into the file it holds.
+ * Returns null for objects that carry no file (links, or native data of an unknown application);
+ * throws when the storage itself is malformed.
+ */
+export function extractOleObject(data: Uint8Array, options: OleExtractOptions): OleObjectFile | null {
+  const storage = hasPrefix(data, IID_ISTORAGE) ? data.subarray(IID_ISTORAGE.length) : data;
+  if (hasPrefix(storage, CFB_SIGNATURE)) {
+    const cfb = new CompoundFile(storage);
+    return extractOleStorage(cfb, cfb.root, options) ?? extractCompoundDocument(cfb.root, storage, options);
+  }
+  if (storage.length >= 8 && readU32(storage, 0) === OLE1_VERSION) return extractOle1Object(storage, options);
+  return null;
+}
+
+/**
+ * Unwrap an OLE object storage inside an already open compound file, as in a .msg attachment's
+ * __substg1.0_3701000D storage. Office 97-2003 documents are not recovered here: the storage is only
+ * part of the outer file, so there are no bytes to save as a .doc.
+ */
+export function extractOleStorage(cfb: CompoundFile, storage: CfbStorage, options: OleExtractOptions): OleObjectFile | null {
+  const progId = readProgId(cfb, storage);
+
+  const native = storage.streams.get(STREAM.OLE10_NATIVE);
+  if (native) {
+    const stream = cfb.readStream(native);
+    if (stream.length < 4) throw new Error('Ole10Native stream is truncated');
+    const payload = stream.subarray(4, 4 + readU32(stream, 0));
+    if (progId.toLowerCase() === 'package' || (!progId && isPackage(payload))) {
+      return extractPackage(payload, options);
+    }
+    return namedFile(payload, progId, options.fallbackName);
+  }
+
+  // Office 2007 and later objects keep the OOXML file in a Package stream; PDFs and others use CONTENTS
+  const contents = storage.streams.get(STREAM.PACKAGE) ?? storage.streams.get(STREAM.CONTENTS);
+  if (contents) return namedFile(cfb.readStream(contents), progId, options.fallbackName);
+
+  return null;
+}
+
+/** An Office 97-2003 object: the storage is the document, so the compound file is saved as it is */
+function extractCompoundDocument(root: CfbStorage, data: Uint8Array, options: OleExtractOptions): OleObjectFile | null {
+  const match = COMPOUND_DOCUMENT_STREAMS.find(([stream]) => root.streams.has(stream));
+  return match ? { name: withExtension(options.fallbackName, match[1]), data } : null;
+}
+
+/** OLE 1.0 ObjectHeader followed by the native data of an embedded object */
+function extractOle1Object(data: Uint8Array, options: OleExtractOptions): OleObjectFile | null {
+  const decoder = ansiDecoder(options.ansiEncoding);
+  if (readU32(data, 4) !== OLE1_FORMAT_EMBEDDED) return null;
+  let offset = 8;
+  const readString = () => {
+    const length = offset + 4 <= data.length ? readU32(data, offset) : Infinity;
+    if (offset + 4 + length > data.length) throw new Error('OLE 1.0 object header is truncated');
+    const value = decoder.decode(data.subarray(offset + 4, offset + 4 + length)).replace(/\0+$/, '');
+    offset += 4 + length;
+    return value;
+  };
+  const className = readString();
+  readString(); // TopicName
+  readString(); // ItemName
+  if (offset + 4 > data.length) throw new Error('OLE 1.0 object header is truncated');
+  const size = readU32(data, offset);
+  const native = data.subarray(offset + 4, offset + 4 + size);
+  if (className.toLowerCase() === 'package') return extractPackage(native, options);
+  return namedFile(native, className, options.fallbackName);
+}
+
+/**
+ * Packager native data: a header, the label, the original path, then the file itself.
+ * Newer Packager versions append Unicode copies of the temporary path, label and original path.
+ */
+function extractPackage(data: Uint8Array, options: OleExtractOptions): OleObjectFile | null {
+  const decoder = ansiDecoder(options.ansiEncoding);
+  let offset = 2; // Header, always 2
+  const readCString = () => {
+    const end = data.indexOf(0, offset);
+    if (end < 0) throw new Error('Package label or path is not terminated');
+    const value = decoder.decode(data.subarray(offset, end));
+    offset = end + 1;
+    return value;
+  };
+  const label = readCString();
+  const originalPath = readCString();
+  if (offset + 8 > data.length) throw new Error('Package header is truncated');
+  const type = readU32(data, offset) >>> 16;
+  if (type !== PACKAGE_EMBEDDED_FILE) return null;
+  offset += 8 + readU32(data, offset + 4); // Type, then the temporary path with its length
+  if (offset + 4 > data.length) throw new Error('Package header is truncated');
+  const size = readU32(data, offset);
+  offset += 4;
+  if (offset + size > data.length) throw new Error('Packaged file is truncated');
+  const file = data.subarray(offset, offset + size);
+  offset += size;
+
+  // Unicode temporary path, label and original path, each a UTF-16 character count and the characters
+  const unicode: string[] = [];
+  while (unicode.length < 3 && offset + 4 <= data.length) {
+    const end = offset + 4 + readU32(data, offset) * 2;
+    if (end > data.length) break;
+    unicode.push(new TextDecoder('utf-16le').decode(data.subarray(offset + 4, end)));
+    offset = end;
+  }
+  const name = baseName(unicode[2] ?? '') || baseName(originalPath) || unicode[1] || label;
+  return { name: name || options.fallbackName, data: file };
+}
+
+/** Name a payload after the fallback, with an extension taken from its content or the ProgID */
+function namedFile(data: Uint8Array, progId: string, fallbackName: string): OleObjectFile | null {
+  if (data.length === 0) return null;
+  const id = progId.toLowerCase();
+  const ext = sniffExtension(data) ?? PROGID_EXTENSIONS.find(([prefix]) => id.startsWith(prefix))?.[1] ?? 'bin';
+  return { name: withExtension(fallbackName, ext), data };
+}
+
+/** Extension for content with a recognisable signature */
+function sniffExtension(data: Uint8Array): string | null {
+  if (hasPrefix(data, [0x42, 0x4d])) return 'bmp';
+  if (hasPrefix(data, [0x25, 0x50, 0x44, 0x46])) return 'pdf';
+  if (hasPrefix(data, [0x89, 0x50, 0x4e, 0x47])) return 'png';
+  if (hasPrefix(data, [0xff, 0xd8, 0xff])) return 'jpg';
+  if (hasPrefix(data, [0x47, 0x49, 0x46, 0x38])) return 'gif';
+  if (hasPrefix(data, [0x50, 0x4b, 0x03, 0x04])) {
+    // OOXML: the first parts of the zip name the application's folder
+    const head = new TextDecoder('latin1').decode(data.subarray(0, 64 * 1024));
+    if (head.includes('word/')) return 'docx';
+    if (head.includes('xl/')) return 'xlsx';
+    if (head.includes('ppt/')) return 'pptx';
+    return 'zip';
+  }
+  return null;
+}
+
+/** Whether Ole10Native data looks like a Packager package (header 2, then two strings) */
+function isPackage(data: Uint8Array): boolean {
+  return data.length > 2 && data[0] === 2 && data[1] === 0;
+}
+
+/** The ProgID recorded in the \x01CompObj stream (MS-OLEDS 2.3.8), or '' */
+function readProgId(cfb: CompoundFile, storage: CfbStorage): string {
+  const compObj = storage.streams.get(STREAM.COMP_OBJ);
+  if (!compObj) return '';
+  const data = cfb.readStream(compObj);
+  let offset = 28; // CompObjHeader
+  const readString = () => {
+    if (offset + 4 > data.length) return null;
+    const length = readU32(data, offset);
+    if (length > data.length - offset - 4) return null;
+    const value = new TextDecoder('latin1').decode(data.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    return value.replace(/\0+$/, '');
+  };
+  if (readString() === null || offset + 4 > data.length) return ''; // AnsiUserType
+  const marker = readU32(data, offset);
+  offset += 4;
+  if (marker === 0xffffffff || marker === 0xfffffffe) offset += 4; // Standard clipboard format id
+  else offset += marker; // Registered clipboard format name
+  return readString() ?? '';
+}
+
+function withExtension(name: string, ext: string): string {
+  return name.toLowerCase().endsWith(`.${ext}`) ? name : `${name}.${ext}`;
+}
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? '';
+}
+
+function ansiDecoder(encoding: string | undefined): TextDecoder {
+  try {
+    return new TextDecoder(encoding || 'windows-1252');
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+function hasPrefix(data: Uint8Array, prefix: ArrayLike<number>): boolean {
+  if (data.length < prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (data[i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+function readU32(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset + offset, 4).getUint32(0, true);
+}
@@ -0,0 +1,290 @@
+import { TnefDecoder, pad4 } from './decoder';
+import {
+  type MapiProperty,
+  type TnefLimits,
+  type MapiPropertyName,
+  type MapiValue,
+  type MapiScalar,
+  PT,
+  MV_FLAG,
+  PROP,
+  PSETID,
+  DEFAULT_TNEF_LIMITS,
+} from './types';
+
+/** Called when a property block cannot be decoded completely; offset is relative to the block */
+export type PropertyErrorHandler = (reason: string, offset: number) => void;
+
+/**
+ * Read a MAPI property block (attMsgProps / attAttachment): a property count followed by the properties.
+ * Best-effort — returns the properties decoded before any corruption and reports the problem to onError.
+ */
+export function readMapiProperties(
+  data: Uint8Array,
+  ansiEncoding: string,
+  onError?: PropertyErrorHandler,
+  limits: TnefLimits = DEFAULT_TNEF_LIMITS,
+): MapiProperty[] {
+  const d = new TnefDecoder(data);
+  if (d.remaining < 4) {
+    onError?.('Property block is too short for a property count', 0);
+    return [];
+  }
+  return readPropertyList(d, ansiEncoding, onError, limits);
+}
+
+/**
+ * Read a property count and that many properties from the decoder's current position.
+ * A count above limits.maxProperties is reported and only that many properties are read.
+ */
+export function readPropertyList(
+  d: TnefDecoder,
+  ansiEncoding: string,
+  onError?: PropertyErrorHandler,
+  limits: TnefLimits = DEFAULT_TNEF_LIMITS,
+): MapiProperty[] {
+  const props: MapiProperty[] = [];
+  const countOffset = d.offset;
+  const count = d.readUint32LE();
+  if (count > limits.maxProperties) {
+    onError?.(`Property count ${count} exceeds the limit of ${limits.maxProperties}; the rest were not read`, countOffset);
+  }
+
+  let start = d.offset;
+  try {
+    for (let i = 0; i < Math.min(count, limits.maxProperties); i++) {
+      start = d.offset;
+      const type = d.readUint16LE();
+      const id = d.readUint16LE();
+      const named = id >= 0x8000 ? readNamedPropHeader(d) : null;
+
+      // Throws on truncated data or an unknown type; there is no way to resynchronize after that
+      const value = readPropValue(d, type, ansiEncoding, limits);
+
+      props.push({ id, type, tag: ((id << 16) | type) >>> 0, named, value });
+    }
+  } catch (err) {
+    // Keep what we got; a throwing handler (strict mode) propagates from here
+    const reason = err instanceof Error ? err.message : String(err);
+    onError?.(`Property ${props.length + 1} of ${count}: ${reason}`, start);
+  }
+  return props;
+}
+
+/** Find a standard property by ID */
+export function findProperty(props: MapiProperty[], id: number): MapiProperty | undefined {
+  return props.find((p) => p.id === id && !p.named);
+}
+
+/** Find a named property by property set GUID and numeric ID (LID) or string name */
+export function findNamedProperty(
+  props: MapiProperty[],
+  guid: string,
+  lidOrName: number | string,
+): MapiProperty | undefined {
+  const wanted = guid.toUpperCase();
+  return props.find((p) => {
+    if (!p.named || p.named.guid !== wanted) return false;
+    return typeof lidOrName === 'number'
+      ? p.named.lid === lidOrName
+      : p.named.name !== null && p.named.name.toLowerCase() === lidOrName.toLowerCase();
+  });
+}
+
+/** Format a 16-byte little-endian GUID in registry format */
+export function formatGuid(bytes: Uint8Array): string {
+  const hex = (start: number, end: number, reverse: boolean) => {
+    const part = Array.from(bytes.subarray(start, end));
+    if (reverse) part.reverse();
+    return part.map((b) => b.toString(16).padStart(2, '0')).join('');
+  };
+  return [
+    hex(0, 4, true),
+    hex(4, 6, true),
+    hex(6, 8, true),
+    hex(8, 10, false),
+    hex(10, 16, false),
+  ].join('-').toUpperCase();
+}
+
+/** Parse a registry-format GUID into its 16-byte little-endian form (inverse of formatGuid) */
+export function parseGuid(guid: string): Uint8Array {
+  const hex = guid.replace(/[{}-]/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) throw new Error(`Invalid GUID: ${guid}`);
+  const raw = Array.from({ length: 16 }, (_, i) => parseInt(hex.substring(i * 2, i * 2 + 2), 16));
+  return new Uint8Array([
+    raw[3], raw[2], raw[1], raw[0],
+    raw[5], raw[4],
+    raw[7], raw[6],
+    ...raw.slice(8),
+  ]);
+}
+
+const PSETID_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(PSETID).map(([key, guid]) => [guid, key]),
+);
+
+const PROP_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(PROP).map(([key, id]) => [id, key]),
+);
+
+const PT_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(PT).map(([key, type]) => [type, key]),
+);
+
+/** Human-readable property name: a known tag name, or property set + LID/name for named properties */
+export function describeProperty(prop: MapiProperty): string {
+  if (prop.named) {
+    const set = PSETID_NAMES[prop.named.guid] || `{${prop.named.guid}}`;
+    const name = prop.named.name ?? `0x${(prop.named.lid ?? 0).toString(16).padStart(4, '0')}`;
+    return `${set}:${name}`;
+  }
+  return PROP_NAMES[prop.id] || '';
+}
+
+/** Name of a property type (PT_*) */
+export function propTypeName(type: number): string {
+  return PT_NAMES[type] || `0x${type.toString(16).padStart(4, '0')}`;
+}
+
+/** Read the GUID + kind + ID/name header that precedes a named property's value */
+function readNamedPropHeader(d: TnefDecoder): MapiPropertyName {
+  const guid = formatGuid(d.readBytes(16));
+  const kind = d.readUint32LE();
+  if (kind === 0) {
+    // MNID_ID
+    return { guid, lid: d.readUint32LE(), name: null };
+  }
+  // MNID_STRING: byte length (including terminator) + UTF-16LE name, padded to 4 bytes
+  const nameLen = d.readUint32LE();
+  const bytes = d.readBytes(nameLen);
+  d.skip(pad4(nameLen) - nameLen);
+  return { guid, lid: null, name: d.decodeUnicodeString(bytes) };
+}
+
+/**
+ * Read one property value of the given type (PT_*).
+ * Multi-valued types return an array. Throws if the data is truncated or the type is unknown,
+ * since the size of an unknown value cannot be determined, and if the value exceeds a limit.
+ */
+export function readPropValue(
+  d: TnefDecoder,
+  propType: number,
+  ansiEncoding: string,
+  limits: TnefLimits = DEFAULT_TNEF_LIMITS,
+): MapiValue {
+  if (propType & MV_FLAG) {
+    const count = readValueCount(d, limits);
+    const values: MapiScalar[] = [];
+    for (let j = 0; j < count; j++) {
+      values.push(readMultiValueItem(d, propType & ~MV_FLAG, ansiEncoding, limits));
+    }
+    return values;
+  }
+
+  switch (propType) {
+    case PT.UNSPECIFIED:
+    case PT.NULL:
+      d.skip(4);
+      return null;
+    case PT.SYSTIME:
+      // A zero FILETIME means "not set"
+      return d.readFileTime();
+    case PT.STRING8:
+    case PT.UNICODE:
+    case PT.BINARY:
+    case PT.OBJECT:
+    case PT.SVREID:
+    case PT.SRESTRICT:
+    case PT.ACTIONS: {
+      // Variable-length values carry a value count even when single-valued (always 1 in practice)
+      const count = readValueCount(d, limits);
+      let first: MapiScalar | null = null;
+      for (let j = 0; j < count; j++) {
+        const value = readVariableValue(d, propType, ansiEncoding, limits);
+        if (j === 0) first = value;
+      }
+      return first;
+    }
+    default:
+      return readFixedValue(d, propType);
+  }
+}
+
+/** Read one element of a multi-valued property — variable-length elements have no per-element count */
+function readMultiValueItem(d: TnefDecoder, baseType: number, ansiEncoding: string, limits: TnefLimits): MapiScalar {
+  switch (baseType) {
+    case PT.STRING8:
+    case PT.UNICODE:
+    case PT.BINARY:
+      return readVariableValue(d, baseType, ansiEncoding, limits);
+    default:
+      return readFixedValue(d, baseType);
+  }
+}
+
+/** Read the value count of a multi-valued or variable-length property */
+function readValueCount(d: TnefDecoder, limits: TnefLimits): number {
+  const count = d.readUint32LE();
+  if (count > limits.maxValues) throw new Error(`Value count ${count} exceeds the limit of ${limits.maxValues}`);
+  return count;
+}
+
+/** Read a length-prefixed value padded to 4 bytes */
+function readVariableValue(d: TnefDecoder, type: number, ansiEncoding: string, limits: TnefLimits): MapiScalar {
+  const len = d.readUint32LE();
+  if (len > limits.maxValueSize) throw new Error(`Value of ${len} bytes exceeds the limit of ${limits.maxValueSize}`);
+  const bytes = d.readBytes(len);
+  d.skip(pad4(len) - len);
+  switch (type) {
+    case PT.STRING8:
+      return d.decodeAnsiString(bytes, ansiEncoding);
+    case PT.UNICODE:
+      return d.decodeUnicodeString(bytes);
+    default:
+      return bytes;
+  }
+}
+
+/** Read a fixed-size value; 2-byte values are padded to 4 bytes */
+export function readFixedValue(d: TnefDecoder, type: number): MapiScalar {
+  switch (type) {
+    case PT.SHORT: {
+      const val = d.readInt16LE();
+      d.skip(2); // padding
+      return val;
+    }
+    case PT.LONG:
+    case PT.ERROR:
+      return d.readUint32LE();
+    case PT.BOOLEAN: {
+      // Stored as a 16-bit value padded to 4 bytes; some writers leave garbage in the padding
+      const val = d.readUint16LE();
+      d.skip(2);
+      return val !== 0;
+    }
+    case PT.FLOAT:
+      return d.readFloat32LE();
+    case PT.DOUBLE:
+      return d.readFloat64LE();
+    case PT.APPTIME:
+      return oleDateToDate(d.readFloat64LE());
+    case PT.CURRENCY:
+      // Fixed-point with four decimal places
+      return Number(d.readBigInt64LE()) / 10000;
+    case PT.I8:
+      return d.readBigInt64LE();
+    case PT.SYSTIME:
+      // Only reached for PT_MV_SYSTIME — keep the array dense by reporting unset times as the epoch
+      return d.readFileTime() ?? new Date(0);
+    case PT.CLSID:
+      return formatGuid(d.readBytes(16));
+    default:
+      throw new Error(`Unsupported MAPI property type 0x${type.toString(16).padStart(4, '0')}`);
+  }
+}
+
+/** Days since 1899-12-30 (OLE Automation date) to Date */
+function oleDateToDate(days: number): Date {
+  return new Date(Date.UTC(1899, 11, 30) + days * 86400000);
+}
@@ -0,0 +1,356 @@
+import { codepageToEncoding } from './decoder';
+
+/** Message body recovered from an RTF document */
+export interface RtfBody {
+  /** Plain text rendering (empty for HTML-encapsulating RTF) */
+  text: string;
+  /** HTML — the original HTML for \fromhtml RTF, or a simple rendering of native RTF */
+  html: string;
+}
+
+/** Destinations whose content is never part of the visible body */
+const SKIP_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'footnote', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'generator',
+  'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'filetbl', 'userprops', 'nonshppict', 'fldinst', 'bkmkstart', 'bkmkend',
+]);
+
+/** Control words that stand for a single character */
+const SYMBOLS: Record<string, string> = {
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+interface GroupState {
+  skip: boolean;
+  htmlTag: boolean;
+  htmlRtf: boolean;
+  uc: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+type Mode = 'html' | 'text' | 'rtf';
+
+/**
+ * Convert an RTF document into a message body.
+ * - \fromhtml RTF is de-encapsulated back into the original HTML (MS-OXRTFEX).
+ * - \fromtext RTF is de-encapsulated into plain text.
+ * - Native RTF is rendered to plain text and a minimal HTML equivalent.
+ */
+export function convertRtf(rtf: Uint8Array): RtfBody {
+  const mode: Mode = hasControlWord(rtf, 'fromhtml')
+    ? 'html'
+    : hasControlWord(rtf, 'fromtext') ? 'text' : 'rtf';
+  return new RtfInterpreter(rtf, mode).run();
+}
+
+/** Check the document header (before the first nested group) for a control word */
+function hasControlWord(rtf: Uint8Array, word: string): boolean {
+  // The \fromhtml / \fromtext marker sits right after \rtf1 in the header
+  const head = String.fromCharCode(...rtf.subarray(0, Math.min(rtf.length, 512)));
+  return new RegExp(`\\\\${word}\\d*(?![a-z])`).test(head);
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function isLetter(b: number): boolean {
+  return (b >= 0x41 && b <= 0x5a) || (b >= 0x61 && b <= 0x7a);
+}
+
+function isDigit(b: number): boolean {
+  return b >= 0x30 && b <= 0x39;
+}
+
+class RtfInterpreter {
+  private pos = 0;
+  private stack: GroupState[] = [];
+  private state: GroupState = {
+    skip: false, htmlTag: false, htmlRtf: false, uc: 1, bold: false, italic: false, underline: false,
+  };
+  /** True right after '{' — the next control word may name a destination */
+  private groupStart = false;
+  /** Set by \* — unknown destinations in this group must be skipped */
+  private ignorable = false;
+  /** Fallback characters still to drop after a \uN */
+  private ucSkip = 0;
+  private encoding = 'windows-1252';
+  private pendingBytes: number[] = [];
+
+  private text = '';
+  private html = '';
+  /** Formatting currently open in the rendered HTML (native RTF only) */
+  private openFormat = { bold: false, italic: false, underline: false };
+
+  constructor(private rtf: Uint8Array, private mode: Mode) {}
+
+  run(): RtfBody {
+    const data = this.rtf;
+    while (this.pos < data.length) {
+      const b = data[this.pos];
+      if (b === 0x7b) {
+        // {
+        this.flushBytes();
+        this.pos++;
+        this.stack.push({ ...this.state });
+        this.groupStart = true;
+        this.ignorable = false;
+      } else if (b === 0x7d) {
+        // }
+        this.flushBytes();
+        this.pos++;
+        const prev = this.stack.pop();
+        if (prev) this.state = prev;
+        this.groupStart = false;
+        this.ignorable = false;
+      } else if (b === 0x5c) {
+        // backslash
+        this.readControl();
+      } else if (b === 0x0d || b === 0x0a) {
+        this.pos++;
+      } else {
+        this.pos++;
+        this.groupStart = false;
+        if (this.ucSkip > 0) {
+          this.ucSkip--;
+          continue;
+        }
+        this.pendingBytes.push(b);
+      }
+    }
+    this.flushBytes();
+
+    if (this.mode === 'rtf') {
+      this.closeFormat();
+      return { text: this.text, html: this.html };
+    }
+    if (this.mode === 'html') {
+      return { text: '', html: this.html };
+    }
+    return { text: this.text, html: '' };
+  }
+
+  private readControl(): void {
+    const data = this.rtf;
+    this.pos++; // backslash
+    if (this.pos >= data.length) return;
+    const c = data[this.pos];
+
+    if (c === 0x27) {
+      // \'hh — a byte in the document's ANSI codepage
+      const hex = String.fromCharCode(data[this.pos + 1] ?? 0, data[this.pos + 2] ?? 0);
+      this.pos += 3;
+      this.groupStart = false;
+      if (this.ucSkip > 0) {
+        this.ucSkip--;
+        return;
+      }
+      const value = parseInt(hex, 16);
+      if (!isNaN(value)) this.pendingBytes.push(value);
+      return;
+    }
+
+    if (!isLetter(c)) {
+      // Control symbol
+      this.pos++;
+      this.flushBytes();
+      switch (c) {
+        case 0x2a: // \*
+          this.ignorable = true;
+          return;
+        case 0x5c: case 0x7b: case 0x7d: // \\ \{ \}
+          this.groupStart = false;
+          this.emit(String.fromCharCode(c));
+          return;
+        case 0x7e: // \~ non-breaking space
+          this.groupStart = false;
+          this.emit(' ');
+          return;
+        case 0x5f: // \_ non-breaking hyphen
+          this.groupStart = false;
+          this.emit('‑');
+          return;
+        case 0x0a: case 0x0d: // escaped newline is \par
+          this.groupStart = false;
+          this.paragraph();
+          return;
+        default:
+          this.groupStart = false;
+          return;
+      }
+    }
+
+    // Control word: letters, optional signed numeric parameter, optional space delimiter
+    let start = this.pos;
+    while (this.pos < data.length && isLetter(data[this.pos])) this.pos++;
+    const word = String.fromCharCode(...data.subarray(start, this.pos));
+    let param: number | null = null;
+    if (this.pos < data.length && (data[this.pos] === 0x2d || isDigit(data[this.pos]))) {
+      start = this.pos;
+      this.pos++;
+      while (this.pos < data.length && isDigit(data[this.pos])) this.pos++;
+      param = parseInt(String.fromCharCode(...data.subarray(start, this.pos)), 10);
+      if (isNaN(param)) param = null;
+    }
+    if (this.pos < data.length && data[this.pos] === 0x20) this.pos++;
+
+    this.handleWord(word, param);
+  }
+
+  private handleWord(word: string, param: number | null): void {
+    const atGroupStart = this.groupStart;
+    const ignorable = this.ignorable;
+    this.groupStart = false;
+    this.ignorable = false;
+
+    // \bin carries raw binary data that must never be interpreted
+    if (word === 'bin') {
+      this.flushBytes();
+      this.pos += Math.max(0, param ?? 0);
+      return;
+    }
+
+    // \uN — Unicode character followed by \ucN fallback characters
+    if (word === 'u' && param !== null) {
+      this.flushBytes();
+      this.emit(String.fromCharCode(param < 0 ? param + 0x10000 : param));
+      this.ucSkip = this.state.uc;
+      return;
+    }
+
+    this.flushBytes();
+    this.ucSkip = 0;
+
+    if (atGroupStart) {
+      if (word === 'htmltag' && ignorable && this.mode === 'html') {
+        this.state.htmlTag = true;
+        return;
+      }
+      if (ignorable || SKIP_DESTINATIONS.has(word)) {
+        this.state.skip = true;
+        return;
+      }
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        if (param !== null) this.encoding = codepageToEncoding(param, 'windows-1252');
+        return;
+      case 'uc':
+        if (param !== null && param >= 0) this.state.uc = param;
+        return;
+      case 'htmlrtf':
+        this.state.htmlRtf = param !== 0;
+        return;
+      case 'par':
+      case 'line':
+      case 'sect':
+      case 'page':
+      case 'row':
+        this.paragraph();
+        return;
+      case 'cell':
+        this.emit('\t');
+        return;
+      case 'plain':
+        this.state.bold = false;
+        this.state.italic = false;
+        this.state.underline = false;
+        return;
+      case 'b':
+        this.state.bold = param !== 0;
+        return;
+      case 'i':
+        this.state.italic = param !== 0;
+        return;
+      case 'ul':
+        this.state.underline = param !== 0;
+        return;
+      case 'ulnone':
+        this.state.underline = false;
+        return;
+    }
+
+    const symbol = SYMBOLS[word];
+    if (symbol) this.emit(symbol);
+  }
+
+  /** Decode buffered codepage bytes (multi-byte sequences arrive as consecutive \'hh) */
+  private flushBytes(): void {
+    if (this.pendingBytes.length === 0) return;
+    const bytes = new Uint8Array(this.pendingBytes);
+    this.pendingBytes = [];
+    let decoded: string;
+    try {
+      decoded = new TextDecoder(this.encoding).decode(bytes);
+    } catch {
+      decoded = new TextDecoder('windows-1252').decode(bytes);
+    }
+    this.emit(decoded);
+  }
+
+  private paragraph(): void {
+    if (this.mode === 'rtf') {
+      if (this.state.skip) return;
+      this.closeFormat();
+      this.text += '\n';
+      this.html += '<br>\n';
+      return;
+    }
+    this.emit('\r\n');
+  }
+
+  private emit(s: string): void {
+    const st = this.state;
+    if (st.skip) return;
+
+    switch (this.mode) {
+      case 'html':
+        // Text outside \htmltag groups inside \htmlrtf ... \htmlrtf0 exists only for RTF readers
+        if (!st.htmlTag && st.htmlRtf) return;
+        this.html += s;
+        return;
+      case 'text':
+        if (st.htmlRtf) return;
+        this.text += s;
+        return;
+      case 'rtf':
+        this.syncFormat();
+        this.text += s;
+        this.html += escapeHtml(s).replace(/\t/g, '&emsp;');
+        return;
+    }
+  }
+
+  private syncFormat(): void {
+    const st = this.state;
+    const open = this.openFormat;
+    if (open.bold === st.bold && open.italic === st.italic && open.underline === st.underline) return;
+    this.closeFormat();
+    if (st.bold) this.html += '<b>';
+    if (st.italic) this.html += '<i>';
+    if (st.underline) this.html += '<u>';
+    this.openFormat = { bold: st.bold, italic: st.italic, underline: st.underline };
+  }
+
+  private closeFormat(): void {
+    const open = this.openFormat;
+    if (open.underline) this.html += '</u>';
+    if (open.italic) this.html += '</i>';
+    if (open.bold) this.html += '</b>';
+    this.openFormat = { bold: false, italic: false, underline: false };
+  }
+}
@@ -0,0 +1,127 @@
+import { findNamedProperty } from './properties';
+import { escapeText, foldLine, formatAllDayDate, formatDateTime, hashUid, toHex } from './calendar';
+import {
+  type MapiProperty,
+  type MapiValue,
+  type TnefImportance,
+  type TnefTask,
+  type TnefTaskStatus,
+  PSETID,
+} from './types';
+
+/** PSETID_Task property LIDs (MS-OXOTASK) */
+const LID_TASK = {
+  STATUS: 0x8101,
+  PERCENT_COMPLETE: 0x8102,
+  START_DATE: 0x8104,
+  DUE_DATE: 0x8105,
+  DATE_COMPLETED: 0x810f,
+  COMPLETE: 0x811c,
+  OWNER: 0x811f,
+} as const;
+
+/** PSETID_Common property LIDs used as fallbacks */
+const LID_COMMON = {
+  COMMON_START: 0x8516,
+  COMMON_END: 0x8517,
+  TASK_GLOBAL_ID: 0x8519,
+} as const;
+
+const STATUSES: TnefTaskStatus[] = ['not-started', 'in-progress', 'completed', 'waiting', 'deferred'];
+
+/** VTODO STATUS per task status; iCalendar has no waiting/deferred states */
+const ICAL_STATUS: Record<TnefTaskStatus, string> = {
+  'not-started': 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  completed: 'COMPLETED',
+  waiting: 'NEEDS-ACTION',
+  deferred: 'NEEDS-ACTION',
+};
+
+/** VTODO PRIORITY per importance (1 = highest, 9 = lowest) */
+const ICAL_PRIORITY: Record<TnefImportance, number> = { high: 1, normal: 5, low: 9 };
+
+export interface TaskSource {
+  messageClass: string;
+  subject: string;
+  body: string;
+  importance: TnefImportance;
+}
+
+/** Decode an Outlook task; returns null for every other message class (task requests included) */
+export function decodeTask(props: MapiProperty[], source: TaskSource): TnefTask | null {
+  const cls = source.messageClass.toLowerCase();
+  if (cls !== 'ipm.task' && !cls.startsWith('ipm.task.')) return null;
+
+  const task = (lid: number) => findNamedProperty(props, PSETID.TASK, lid)?.value;
+  const common = (lid: number) => findNamedProperty(props, PSETID.COMMON, lid)?.value;
+
+  const start = asDate(task(LID_TASK.START_DATE)) || asDate(common(LID_COMMON.COMMON_START));
+  const due = asDate(task(LID_TASK.DUE_DATE)) || asDate(common(LID_COMMON.COMMON_END));
+  const statusValue = task(LID_TASK.STATUS);
+  let status = typeof statusValue === 'number' ? STATUSES[statusValue] ?? 'not-started' : 'not-started';
+  if (task(LID_TASK.COMPLETE) === true) status = 'completed';
+
+  // PidLidPercentComplete is a fraction between 0.0 and 1.0
+  const fraction = task(LID_TASK.PERCENT_COMPLETE);
+  const percentComplete = status === 'completed'
+    ? 100
+    : typeof fraction === 'number' ? Math.round(Math.min(Math.max(fraction, 0), 1) * 100) : 0;
+
+  const globalId = common(LID_COMMON.TASK_GLOBAL_ID);
+
+  return {
+    uid: globalId instanceof Uint8Array
+      ? toHex(globalId)
+      : hashUid(`${source.subject}|${start?.getTime() ?? ''}|${due?.getTime() ?? ''}`),
+    summary: source.subject,
+    description: source.body,
+    start,
+    due,
+    completed: asDate(task(LID_TASK.DATE_COMPLETED)),
+    status,
+    percentComplete,
+    owner: asString(task(LID_TASK.OWNER)),
+    importance: source.importance,
+  };
+}
+
+/**
+ * Serialize a task as an iCalendar (RFC 5545) object with a single VTODO.
+ * Start and due are written as dates, since Outlook tasks have no time of day.
+ */
+export function buildTaskIcs(task: TnefTask, now: Date = new Date()): string {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OpenedFile//winmail.dat viewer//EN',
+    'CALSCALE:GREGORIAN',
+    'BEGIN:VTODO',
+    `UID:${escapeText(task.uid)}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+  ];
+
+  const start = task.start ? formatAllDayDate(task.start) : null;
+  const due = task.due ? formatAllDayDate(task.due) : null;
+  // DUE must be later than DTSTART, so a task that starts and ends on the same day only gets a DUE
+  if (start && start !== due) lines.push(`DTSTART;VALUE=DATE:${start}`);
+  if (due) lines.push(`DUE;VALUE=DATE:${due}`);
+  if (task.summary) lines.push(`SUMMARY:${escapeText(task.summary)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+
+  lines.push(`STATUS:${ICAL_STATUS[task.status]}`);
+  if (task.percentComplete > 0) lines.push(`PERCENT-COMPLETE:${task.percentComplete}`);
+  if (task.completed && task.status === 'completed') lines.push(`COMPLETED:${formatDateTime(task.completed)}`);
+  lines.push(`PRIORITY:${ICAL_PRIORITY[task.importance]}`);
+  lines.push('END:VTODO', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function asDate(value: MapiValue | undefined): Date | null {
+  return value instanceof Date ? value : null;
+}
+
+function asString(value: MapiValue | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
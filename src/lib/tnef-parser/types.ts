@@ -2,9 +2,260 @@
 export interface TnefParseResult {
   subject: string;
   from: string;
+  /** Message class, e.g. IPM.Note or IPM.Schedule.Meeting.Request */
+  messageClass: string;
+  to: TnefRecipient[];
+  cc: TnefRecipient[];
+  bcc: TnefRecipient[];
+  sentDate: Date | null;
+  receivedDate: Date | null;
   body: string;
   bodyHtml: string;
+  /** Decompressed PidTagRtfCompressed body, if the message carried one */
+  bodyRtf: Uint8Array<ArrayBuffer> | null;
   attachments: TnefAttachment[];
+  /** Every message-level MAPI property, standard and named */
+  properties: MapiProperty[];
+  /** Event details for meeting requests/responses and appointments, otherwise null */
+  meeting: TnefMeeting | null;
+  /** Contact card for IPM.Contact items, otherwise null */
+  contact: TnefContact | null;
+  /** To-do details for IPM.Task items, otherwise null */
+  task: TnefTask | null;
+  /** Internet headers the message arrived with (PidTagTransportMessageHeaders), or '' when it was never received over SMTP */
+  transportHeaders: string;
+  importance: TnefImportance;
+  sensitivity: TnefSensitivity;
+  priority: TnefPriority;
+  /** Message-ID header value including angle brackets, or '' */
+  internetMessageId: string;
+  /** Thread subject without RE:/FW: prefixes (PidTagConversationTopic) */
+  conversationTopic: string;
+  /** The sender asked for a read receipt */
+  readReceiptRequested: boolean;
+  /** The sender asked for a delivery receipt */
+  deliveryReceiptRequested: boolean;
+  /** TextDecoder encoding used for legacy ANSI (8-bit) strings, e.g. windows-1252 */
+  ansiEncoding: string;
+  ansiEncodingSource: TnefEncodingSource;
+  /** Problems found while parsing this message and any embedded messages */
+  warnings: TnefWarning[];
+}
+
+/**
+ * How the ANSI encoding was chosen: given in the options, named by a codepage property
+ * or attribute, guessed from the strings, or assumed because all strings are plain ASCII
+ */
+export type TnefEncodingSource = 'override' | 'codepage' | 'detected' | 'default';
+
+/** PidTagImportance */
+export type TnefImportance = 'low' | 'normal' | 'high';
+
+/** PidTagSensitivity */
+export type TnefSensitivity = 'none' | 'personal' | 'private' | 'confidential';
+
+/** PidTagPriority (delivery urgency, distinct from importance) */
+export type TnefPriority = 'nonurgent' | 'normal' | 'urgent';
+
+/** A sender or recipient for writeTnef */
+export interface TnefWriteAddress {
+  name: string;
+  email: string;
+}
+
+/** A file attachment for writeTnef */
+export interface TnefWriteAttachment {
+  name: string;
+  data: Uint8Array;
+  mimeType?: string;
+  createdDate?: Date | null;
+  modifiedDate?: Date | null;
+  /** Content ID for images referenced from the HTML body as cid: URLs; such attachments are written hidden */
+  contentId?: string;
+  /** Extra attachment properties; they replace the properties generated from the fields above with the same tag */
+  properties?: MapiProperty[];
+}
+
+/** Message contents for writeTnef */
+export interface TnefWriteMessage {
+  /** Defaults to IPM.Note */
+  messageClass?: string;
+  subject?: string;
+  from?: TnefWriteAddress | null;
+  to?: TnefWriteAddress[];
+  cc?: TnefWriteAddress[];
+  bcc?: TnefWriteAddress[];
+  sentDate?: Date | null;
+  body?: string;
+  bodyHtml?: string;
+  attachments?: TnefWriteAttachment[];
+  /** Extra message properties; they replace the properties generated from the fields above with the same tag */
+  properties?: MapiProperty[];
+  /** Legacy key stored after the signature (default 0) — only used to tie attachments to RTF positions */
+  key?: number;
+}
+
+/** Options for parseTnef */
+export interface TnefParseOptions {
+  /** Verify each attribute's checksum and report mismatches (default: false) */
+  validateChecksums?: boolean;
+  /** Throw a TnefParseError on the first problem instead of recording a warning (default: false) */
+  strict?: boolean;
+  /** TextDecoder encoding for legacy ANSI strings, overriding the codepage properties and detection */
+  ansiEncoding?: string;
+  /** Called as the top-level stream is read, and once more when it is done */
+  onProgress?: (progress: TnefProgress) => void;
+  /** Resource limits for untrusted input; unset ones take their DEFAULT_TNEF_LIMITS value */
+  limits?: Partial<TnefLimits>;
+}
+
+/**
+ * Upper bounds on what one file may make the parser read or allocate.
+ * Counts and lengths in the file are never trusted beyond these; whatever exceeds
+ * a limit is skipped and reported as a warning (or a TnefParseError in strict mode).
+ */
+export interface TnefLimits {
+  /** Properties in one property block or recipient row */
+  maxProperties: number;
+  /** Values in one multi-valued property */
+  maxValues: number;
+  /** Bytes in one attribute or property value, and in the decompressed RTF body */
+  maxValueSize: number;
+  /** Attachments per message */
+  maxAttachments: number;
+  /** Rows in the recipient table */
+  maxRecipients: number;
+  /** Levels of embedded messages parsed recursively */
+  maxDepth: number;
+}
+
+/** How far parsing has got */
+export interface TnefProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  /** Attachments started so far in the top-level message */
+  attachmentsFound: number;
+}
+
+/** A recoverable problem found while parsing — the data around it may be missing or wrong */
+export interface TnefWarning {
+  /** Byte offset of the offending attribute, relative to the start of its TNEF stream */
+  offset: number;
+  /** Attribute ID (low 16 bits of the attribute type), or 0 when not tied to an attribute */
+  attrId: number;
+  /** Attribute level (1 = message, 2 = attachment), or 0 when not tied to an attribute */
+  level: number;
+  /** Embedding depth of the stream: 0 for the file itself, 1+ for embedded messages */
+  depth: number;
+  reason: string;
+}
+
+/** iCalendar METHOD matching the meeting message class */
+export type TnefMeetingMethod = 'REQUEST' | 'CANCEL' | 'REPLY' | 'PUBLISH';
+
+/** Event decoded from PSETID_Appointment / PSETID_Meeting named properties */
+export interface TnefMeeting {
+  method: TnefMeetingMethod;
+  /** Attendee response carried by IPM.Schedule.Meeting.Resp.* messages */
+  response: 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | null;
+  uid: string;
+  summary: string;
+  location: string;
+  description: string;
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  sequence: number;
+  /** False when the busy status is "free" */
+  busy: boolean;
+  /** For replies, the recipient the response was sent to rather than the sender */
+  organizer: { name: string; email: string } | null;
+  /** For replies, only the responding sender */
+  attendees: TnefRecipient[];
+  recurrence: TnefRecurrence | null;
+}
+
+/** Recurrence decoded from the PidLidAppointmentRecur blob (MS-OXOCAL) */
+export interface TnefRecurrence {
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  /** iCalendar weekday codes (SU, MO, ...) */
+  byDay: string[];
+  byMonthDay: number | null;
+  byMonth: number | null;
+  /** Week of the month for "Nth weekday" patterns; -1 means last */
+  bySetPos: number | null;
+  count: number | null;
+  until: Date | null;
+  /** Deleted occurrences (original start times, UTC) */
+  exceptions: Date[];
+}
+
+/** Contact decoded from an IPM.Contact item (MS-OXOCNTC) */
+export interface TnefContact {
+  displayName: string;
+  /** Name parts as in the vCard N property */
+  givenName: string;
+  middleName: string;
+  surname: string;
+  prefix: string;
+  suffix: string;
+  nickname: string;
+  company: string;
+  department: string;
+  jobTitle: string;
+  /** Up to three SMTP addresses (Email1–Email3) */
+  emails: string[];
+  phones: TnefContactPhone[];
+  addresses: TnefContactAddress[];
+  birthday: Date | null;
+  webPage: string;
+  notes: string;
+}
+
+export interface TnefContactPhone {
+  type: 'work' | 'home' | 'mobile' | 'work-fax' | 'home-fax' | 'pager' | 'car' | 'main' | 'other';
+  number: string;
+}
+
+export interface TnefContactAddress {
+  type: 'work' | 'home' | 'other';
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+  poBox: string;
+}
+
+/** PidLidTaskStatus */
+export type TnefTaskStatus = 'not-started' | 'in-progress' | 'completed' | 'waiting' | 'deferred';
+
+/** Task decoded from an IPM.Task item (MS-OXOTASK) */
+export interface TnefTask {
+  uid: string;
+  summary: string;
+  description: string;
+  /** Start and due dates are calendar days; the time of day carries no meaning */
+  start: Date | null;
+  due: Date | null;
+  completed: Date | null;
+  status: TnefTaskStatus;
+  /** 0–100 */
+  percentComplete: number;
+  owner: string;
+  importance: TnefImportance;
+}
+
+/** Recipient kind from PidTagRecipientType */
+export type TnefRecipientType = 'to' | 'cc' | 'bcc';
+
+/** A single row of the TNEF recipient table (attRecipTable) */
+export interface TnefRecipient {
+  name: string;
+  email: string;
+  addressType: string;
+  type: TnefRecipientType;
 }
 
 /** A single attachment extracted from a TNEF file */
@@ -13,6 +264,54 @@ export interface TnefAttachment {
   size: number;
   data: Uint8Array;
   mimeType: string;
+  createdDate: Date | null;
+  modifiedDate: Date | null;
+  /** Parsed contents when the attachment is an embedded Outlook message (attach method 5) */
+  embeddedMessage: TnefParseResult | null;
+  /** PidTagAttachContentId without angle brackets — the target of cid: URLs in the HTML body */
+  contentId: string;
+  /** PidTagAttachContentLocation — an alternative URL the HTML body may use instead of cid: */
+  contentLocation: string;
+  /** PidTagAttachmentHidden — the sender's client did not show this attachment in the list */
+  hidden: boolean;
+  /** True for images that only exist to be rendered inside the HTML body */
+  inline: boolean;
+  /** Windows metafile (WMF) of the icon Outlook shows for this attachment, or null; see renderWmf */
+  rendering: Uint8Array | null;
+  /** Every attachment-level MAPI property, standard and named */
+  properties: MapiProperty[];
+}
+
+/**
+ * A single decoded MAPI value. PT_I8 is a bigint, PT_CURRENCY a number in currency units,
+ * PT_CLSID a registry-format GUID string and PT_APPTIME a Date.
+ */
+export type MapiScalar = string | number | bigint | boolean | Uint8Array | Date;
+
+/** Decoded value of a MAPI property — an array for multi-valued (PT_MV_*) types, null for PT_NULL or an unset time */
+export type MapiValue = MapiScalar | MapiScalar[] | null;
+
+/** Name of a named property (ID >= 0x8000): a property set GUID plus a numeric ID or a string name */
+export interface MapiPropertyName {
+  /** Property set GUID in registry format, e.g. 00062002-0000-0000-C000-000000000046 */
+  guid: string;
+  /** Numeric name (MNID_ID), or null for string-named properties */
+  lid: number | null;
+  /** String name (MNID_STRING), or null for ID-named properties */
+  name: string | null;
+}
+
+/** A single MAPI property as stored in attMsgProps / attAttachment / attRecipTable */
+export interface MapiProperty {
+  /** Property ID — for named properties this is the stream-local ID (0x8000 and up) */
+  id: number;
+  /** Property type (PT_*) */
+  type: number;
+  /** Property tag: (id << 16) | type */
+  tag: number;
+  /** GUID + ID/name for named properties, null for standard tags */
+  named: MapiPropertyName | null;
+  value: MapiValue;
 }
 
 /** TNEF attribute levels */
@@ -26,13 +325,92 @@ export const TNEF_SIGNATURE = 0x223e9f78;
 export const ATTR = {
   FROM: 0x8000,
   SUBJECT: 0x8004,
+  MESSAGE_CLASS: 0x8008,
   DATE_SENT: 0x8005,
+  DATE_RECEIVED: 0x8006,
   BODY: 0x800c,
+  PRIORITY: 0x800d,
+  REQUEST_RES: 0x0009,
   MAPI_PROPS: 0x9003,
-  RECIP_TABLE: 0x9006,
+  RECIP_TABLE: 0x9004,
+  TNEF_VERSION: 0x9006,
   OEM_CODEPAGE: 0x9007,
 } as const;
 
+/** TNEF attribute data types (high 16 bits of the attribute type) */
+export const ATP = {
+  TRIPLES: 0x0000,
+  STRING: 0x0001,
+  TEXT: 0x0002,
+  DATE: 0x0003,
+  SHORT: 0x0004,
+  LONG: 0x0005,
+  BYTE: 0x0006,
+  WORD: 0x0007,
+  DWORD: 0x0008,
+} as const;
+
+/** PidTagRecipientType values (low bits; high bits carry MAPI_SUBMITTED/MAPI_P1 flags) */
+export const RECIP_TYPE = {
+  TO: 0x01,
+  CC: 0x02,
+  BCC: 0x03,
+} as const;
+
+/** PidTagAttachFlags bits */
+export const ATTACH_FLAG = {
+  INVISIBLE_IN_HTML: 0x01,
+  INVISIBLE_IN_RTF: 0x02,
+  RENDERED_IN_BODY: 0x04,
+} as const;
+
+/** PidTagAttachMethod values */
+export const ATTACH_METHOD = {
+  BY_VALUE: 1,
+  EMBEDDED_MSG: 5,
+  OLE: 6,
+} as const;
+
+/** IID_IMessage (00020307-0000-0000-C000-000000000046) — prefixes PT_OBJECT embedded messages */
+export const IID_IMESSAGE = new Uint8Array([
+  0x07, 0x03, 0x02, 0x00, 0x00, 0x00, 0x00, 0x00,
+  0xc0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x46,
+]);
+
+/** Maximum depth of embedded messages parsed recursively */
+export const MAX_EMBED_DEPTH = 8;
+
+/** Limits applied when TnefParseOptions.limits leaves them unset — generous for real mail */
+export const DEFAULT_TNEF_LIMITS: TnefLimits = {
+  maxProperties: 65536,
+  maxValues: 65536,
+  maxValueSize: 512 * 1024 * 1024,
+  maxAttachments: 10000,
+  maxRecipients: 100000,
+  maxDepth: MAX_EMBED_DEPTH,
+};
+
+/** Well-known named property sets (MS-OXPROPS) */
+export const PSETID = {
+  PUBLIC_STRINGS: '00020329-0000-0000-C000-000000000046',
+  MAPI: '00020328-0000-0000-C000-000000000046',
+  INTERNET_HEADERS: '00020386-0000-0000-C000-000000000046',
+  APPOINTMENT: '00062002-0000-0000-C000-000000000046',
+  TASK: '00062003-0000-0000-C000-000000000046',
+  ADDRESS: '00062004-0000-0000-C000-000000000046',
+  COMMON: '00062008-0000-0000-C000-000000000046',
+  LOG: '0006200A-0000-0000-C000-000000000046',
+  NOTE: '0006200E-0000-0000-C000-000000000046',
+  SHARING: '00062040-0000-0000-C000-000000000046',
+  POST_RSS: '00062041-0000-0000-C000-000000000046',
+  MEETING: '6ED8DA90-450B-101B-98DA-00AA003F1305',
+  ATTACHMENT: '96357F7F-59E1-47D0-99A7-46515C183B54',
+  CALENDAR_ASSISTANT: '11000E07-B51B-40D6-AF21-CAA85EDAB1D0',
+  MESSAGING: '41F28F13-83F4-4114-A584-EEDB5A6B0BFF',
+  UNIFIED_MESSAGING: '4442858E-A9E3-4E80-B900-317A210CC15B',
+  AIR_SYNC: '71035549-0739-4DCB-9163-00F0580DBBDF',
+} as const;
+
 /** TNEF attachment-level attribute IDs */
 export const ATTACH_ATTR = {
   REND_DATA: 0x9002,
@@ -44,34 +422,95 @@ export const ATTACH_ATTR = {
   MAPI_PROPS: 0x9005,
 } as const;
 
+/** attTnefVersion value written by every known TNEF producer */
+export const TNEF_VERSION = 0x00010000;
+
 /** MAPI property types */
 export const PT = {
+  UNSPECIFIED: 0x0000,
+  NULL: 0x0001,
   SHORT: 0x0002,
   LONG: 0x0003,
+  FLOAT: 0x0004,
+  DOUBLE: 0x0005,
+  CURRENCY: 0x0006,
+  APPTIME: 0x0007,
+  ERROR: 0x000a,
   BOOLEAN: 0x000b,
+  OBJECT: 0x000d,
+  I8: 0x0014,
   STRING8: 0x001e,
   UNICODE: 0x001f,
   SYSTIME: 0x0040,
+  CLSID: 0x0048,
+  SVREID: 0x00fb,
+  SRESTRICT: 0x00fd,
+  ACTIONS: 0x00fe,
   BINARY: 0x0102,
+  MV_SHORT: 0x1002,
+  MV_LONG: 0x1003,
+  MV_FLOAT: 0x1004,
+  MV_DOUBLE: 0x1005,
+  MV_CURRENCY: 0x1006,
+  MV_APPTIME: 0x1007,
+  MV_I8: 0x1014,
   MV_STRING8: 0x101e,
   MV_UNICODE: 0x101f,
+  MV_SYSTIME: 0x1040,
+  MV_CLSID: 0x1048,
   MV_BINARY: 0x1102,
 } as const;
 
+/** Bit set on a property type when the property holds multiple values */
+export const MV_FLAG = 0x1000;
+
 /** MAPI property IDs */
 export const PROP = {
+  MESSAGE_CLASS: 0x001a,
   SUBJECT: 0x0037,
+  START_DATE: 0x0060,
+  END_DATE: 0x0061,
+  CLIENT_SUBMIT_TIME: 0x0039,
+  MESSAGE_DELIVERY_TIME: 0x0e06,
   SENDER_NAME: 0x0c1a,
   SENDER_EMAIL: 0x0c1f,
   SENT_REPR_NAME: 0x0042,
   SENT_REPR_EMAIL: 0x0065,
   BODY: 0x1000,
+  RTF_COMPRESSED: 0x1009,
   BODY_HTML: 0x1013,
+  RECIPIENT_TYPE: 0x0c15,
   DISPLAY_NAME: 0x3001,
+  ADDRTYPE: 0x3002,
+  EMAIL_ADDRESS: 0x3003,
+  CREATION_TIME: 0x3007,
+  LAST_MODIFICATION_TIME: 0x3008,
+  SMTP_ADDRESS: 0x39fe,
   ATTACH_DATA_BIN: 0x3701,
   ATTACH_FILENAME: 0x3704,
   ATTACH_LONG_FILENAME: 0x3707,
   ATTACH_EXTENSION: 0x3703,
+  ATTACH_METHOD: 0x3705,
+  ATTACH_RENDERING: 0x3709,
   ATTACH_MIME_TAG: 0x370e,
+  ATTACH_CONTENT_ID: 0x3712,
+  ATTACH_CONTENT_LOCATION: 0x3713,
+  ATTACH_FLAGS: 0x3714,
+  ATTACHMENT_HIDDEN: 0x7ffe,
   ATTACH_SIZE: 0x0e20,
+  SENDER_ADDRTYPE: 0x0c1e,
+  SENT_REPR_ADDRTYPE: 0x0064,
+  RENDERING_POSITION: 0x370b,
+  INTERNET_CPID: 0x3fde,
+  MESSAGE_CODEPAGE: 0x3ffd,
+  IMPORTANCE: 0x0017,
+  PRIORITY: 0x0026,
+  SENSITIVITY: 0x0036,
+  ORIGINATOR_DELIVERY_REPORT_REQUESTED: 0x0023,
+  READ_RECEIPT_REQUESTED: 0x0029,
+  CONVERSATION_TOPIC: 0x0070,
+  TRANSPORT_MESSAGE_HEADERS: 0x007d,
+  INTERNET_MESSAGE_ID: 0x1035,
+  SENDER_SMTP_ADDRESS: 0x5d01,
+  SENT_REPR_SMTP_ADDRESS: 0x5d02,
 } as const;
@@ -0,0 +1,753 @@
+/*
+ * Windows Metafile (MS-WMF) playback for attachment icons. Outlook stores the icon it shows for an
+ * attachment as a small WMF (attAttachMetaFile / PidTagAttachRendering): a DIB icon drawn through a
+ * mask with raster operations, usually followed by the file name as text. Only the records such
+ * icons use are interpreted; others are skipped.
+ */
+
+/** Options for renderWmf */
+export interface WmfRenderOptions {
+  /** Device pixels per logical pixel, e.g. window.devicePixelRatio (default 1) */
+  scale?: number;
+  /** Largest width or height of the PNG in device pixels (default 256) */
+  maxSize?: number;
+  /** TextDecoder encoding for text drawn with DEFAULT_CHARSET or ANSI_CHARSET fonts (default windows-1252) */
+  ansiEncoding?: string;
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type Context = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/** Aldus placeable metafile header, which some writers put before the standard header */
+const PLACEABLE_KEY = 0x9ac6cdd7;
+const PLACEABLE_SIZE = 22;
+const HEADER_SIZE = 18;
+
+/** Record functions (RecordType enumeration) */
+const META = {
+  EOF: 0x0000,
+  SAVEDC: 0x001e,
+  REALIZEPALETTE: 0x0035,
+  SETBKMODE: 0x0102,
+  SETMAPMODE: 0x0103,
+  SETPOLYFILLMODE: 0x0106,
+  SETTEXTALIGN: 0x012e,
+  SELECTOBJECT: 0x012d,
+  RESTOREDC: 0x0127,
+  DIBCREATEPATTERNBRUSH: 0x0142,
+  DELETEOBJECT: 0x01f0,
+  CREATEPATTERNBRUSH: 0x01f9,
+  CREATEPALETTE: 0x00f7,
+  SETBKCOLOR: 0x0201,
+  SETTEXTCOLOR: 0x0209,
+  SETWINDOWORG: 0x020b,
+  SETWINDOWEXT: 0x020c,
+  LINETO: 0x0213,
+  MOVETO: 0x0214,
+  CREATEPENINDIRECT: 0x02fa,
+  CREATEFONTINDIRECT: 0x02fb,
+  CREATEBRUSHINDIRECT: 0x02fc,
+  POLYGON: 0x0324,
+  POLYLINE: 0x0325,
+  INTERSECTCLIPRECT: 0x0416,
+  ELLIPSE: 0x0418,
+  RECTANGLE: 0x041b,
+  TEXTOUT: 0x0521,
+  POLYPOLYGON: 0x0538,
+  ROUNDRECT: 0x061c,
+  CREATEREGION: 0x06ff,
+  DIBBITBLT: 0x0940,
+  EXTTEXTOUT: 0x0a32,
+  DIBSTRETCHBLT: 0x0b41,
+  SETDIBTODEV: 0x0d33,
+  STRETCHDIB: 0x0f43,
+} as const;
+
+const PS_NULL = 5;
+const BS_SOLID = 0;
+const BS_HATCHED = 2;
+const BK_OPAQUE = 2;
+const WINDING = 2;
+const TA_UPDATECP = 0x0001;
+const TA_RIGHT = 0x0002;
+const TA_CENTER = 0x0006;
+const TA_BOTTOM = 0x0008;
+const TA_BASELINE = 0x0018;
+const ETO_OPAQUE = 0x0002;
+const ETO_CLIPPED = 0x0004;
+const SRCCOPY = 0x00cc0020;
+const DIB_PAL_COLORS = 1;
+
+/** Font charsets (LOGFONT lfCharSet) to TextDecoder encodings */
+const CHARSET_ENCODINGS: Record<number, string> = {
+  77: 'macintosh',
+  128: 'shift_jis',
+  129: 'euc-kr',
+  134: 'gbk',
+  136: 'big5',
+  161: 'windows-1253',
+  162: 'windows-1254',
+  163: 'windows-1258',
+  177: 'windows-1255',
+  178: 'windows-1256',
+  186: 'windows-1257',
+  204: 'windows-1251',
+  222: 'windows-874',
+  238: 'windows-1250',
+};
+
+interface Pen {
+  kind: 'pen';
+  /** CSS color, or null for PS_NULL */
+  color: string | null;
+  /** Logical width; 0 means one device pixel */
+  width: number;
+}
+
+interface Brush {
+  kind: 'brush';
+  /** CSS color, or null for BS_NULL and pattern brushes */
+  color: string | null;
+}
+
+interface Font {
+  kind: 'font';
+  height: number;
+  weight: number;
+  italic: boolean;
+  charset: number;
+  face: string;
+  /** Text angle in tenths of a degree, counter-clockwise */
+  escapement: number;
+}
+
+/** Palettes, regions and pattern brushes take a slot in the object table but are not drawn */
+type WmfObject = Pen | Brush | Font | { kind: 'other' };
+
+/** Playback state that META_SAVEDC / META_RESTOREDC save and restore */
+interface DcState {
+  pen: Pen;
+  brush: Brush;
+  font: Font;
+  textColor: string;
+  bkColor: string;
+  bkMode: number;
+  textAlign: number;
+  polyFillMode: number;
+  windowOrg: [number, number];
+  windowExt: [number, number];
+  position: [number, number];
+}
+
+/** A decoded device-independent bitmap, as RGBA rows from the top */
+interface Dib {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray<ArrayBuffer>;
+}
+
+interface WmfHeader {
+  /** Offset of the first record */
+  recordsStart: number;
+  numberOfObjects: number;
+  /** Logical rectangle from the placeable header: left, top, right, bottom */
+  bounds: [number, number, number, number] | null;
+  /** Logical units per inch from the placeable header */
+  unitsPerInch: number;
+}
+
+/**
+ * Render a WMF to a PNG with a transparent background.
+ * Throws if the data is not a metafile, has no extent, or uses bitmaps that cannot be decoded,
+ * and if no canvas is available (e.g. during SSR).
+ */
+export async function renderWmf(data: Uint8Array, options: WmfRenderOptions = {}): Promise<Blob> {
+  const { scale = 1, maxSize = 256, ansiEncoding = 'windows-1252' } = options;
+  const header = readHeader(data);
+
+  // Output size: the placeable bounds, otherwise the first window extent, in logical pixels
+  const ext = header.bounds
+    ? [header.bounds[2] - header.bounds[0], header.bounds[3] - header.bounds[1]]
+    : firstWindowExtent(data, header.recordsStart);
+  if (!ext || ext[0] === 0 || ext[1] === 0) throw new Error('Metafile has no extent');
+  const inch = header.bounds && header.unitsPerInch > 0 ? 96 / header.unitsPerInch : 1;
+  const naturalWidth = Math.abs(ext[0]) * inch;
+  const naturalHeight = Math.abs(ext[1]) * inch;
+  const k = Math.min(scale, maxSize / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * k));
+  const height = Math.max(1, Math.round(naturalHeight * k));
+
+  // Icons are drawn through AND/XOR masks, which need an opaque background. Playing the metafile on
+  // white and on black tells the transparent pixels apart from the drawn ones.
+  const onWhite = play(data, header, width, height, 255, ansiEncoding);
+  const onBlack = play(data, header, width, height, 0, ansiEncoding);
+  const white = onWhite.getImageData(0, 0, width, height).data;
+  const black = onBlack.getImageData(0, 0, width, height).data;
+  const out = new ImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const spread = (white[i] - black[i] + white[i + 1] - black[i + 1] + white[i + 2] - black[i + 2]) / 3;
+    const alpha = Math.max(0, Math.min(255, 255 - spread));
+    if (alpha === 0) continue;
+    for (let c = 0; c < 3; c++) out.data[i + c] = Math.min(255, (black[i + c] * 255) / alpha);
+    out.data[i + 3] = alpha;
+  }
+  onWhite.putImageData(out, 0, 0);
+  return toPng(onWhite.canvas);
+}
+
+function readHeader(data: Uint8Array): WmfHeader {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 0;
+  let bounds: WmfHeader['bounds'] = null;
+  let unitsPerInch = 0;
+  if (data.length >= PLACEABLE_SIZE && view.getUint32(0, true) === PLACEABLE_KEY) {
+    bounds = [view.getInt16(6, true), view.getInt16(8, true), view.getInt16(10, true), view.getInt16(12, true)];
+    unitsPerInch = view.getUint16(14, true);
+    pos = PLACEABLE_SIZE;
+  }
+  if (data.length < pos + HEADER_SIZE) throw new Error('Metafile is too short');
+  const type = view.getUint16(pos, true);
+  const headerWords = view.getUint16(pos + 2, true);
+  if ((type !== 1 && type !== 2) || headerWords !== HEADER_SIZE / 2) throw new Error('Not a Windows metafile');
+  return { recordsStart: pos + HEADER_SIZE, numberOfObjects: view.getUint16(pos + 10, true), bounds, unitsPerInch };
+}
+
+/** Width and height of the first META_SETWINDOWEXT record, or null */
+function firstWindowExtent(data: Uint8Array, start: number): [number, number] | null {
+  let found: [number, number] | null = null;
+  forEachRecord(data, start, (fn, params) => {
+    if (fn !== META.SETWINDOWEXT || params.byteLength < 4) return true;
+    found = [params.getInt16(2, true), params.getInt16(0, true)];
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Call visit with each record's function and parameters until it returns false or META_EOF.
+ * Stops at a record whose size is zero or runs past the data.
+ */
+function forEachRecord(data: Uint8Array, start: number, visit: (fn: number, params: DataView) => boolean): void {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = start;
+  while (pos + 6 <= data.length) {
+    const words = view.getUint32(pos, true);
+    const fn = view.getUint16(pos + 4, true);
+    if (fn === META.EOF || words < 3 || pos + words * 2 > data.length) return;
+    const params = new DataView(data.buffer, data.byteOffset + pos + 6, words * 2 - 6);
+    if (!visit(fn, params)) return;
+    pos += words * 2;
+  }
+}
+
+/** Play every record onto a new canvas filled with the given gray level */
+function play(data: Uint8Array, header: WmfHeader, width: number, height: number, background: number, ansiEncoding: string): Context {
+  const ctx = createContext(width, height);
+  ctx.fillStyle = `rgb(${background},${background},${background})`;
+  ctx.fillRect(0, 0, width, height);
+
+  const [left, top, right, bottom] = header.bounds ?? [0, 0, width, height];
+  let s: DcState = {
+    pen: { kind: 'pen', color: 'rgb(0,0,0)', width: 0 },
+    brush: { kind: 'brush', color: 'rgb(255,255,255)' },
+    font: { kind: 'font', height: 12, weight: 400, italic: false, charset: 1, face: '', escapement: 0 },
+    textColor: 'rgb(0,0,0)',
+    bkColor: 'rgb(255,255,255)',
+    bkMode: BK_OPAQUE,
+    textAlign: 0,
+    polyFillMode: 1,
+    windowOrg: [left, top],
+    windowExt: [right - left, bottom - top],
+    position: [0, 0],
+  };
+  const saved: DcState[] = [];
+  const objects: (WmfObject | null)[] = new Array(header.numberOfObjects).fill(null);
+
+  const applyWindow = () => {
+    const sx = width / (s.windowExt[0] || 1);
+    const sy = height / (s.windowExt[1] || 1);
+    ctx.setTransform(sx, 0, 0, sy, -s.windowOrg[0] * sx, -s.windowOrg[1] * sy);
+  };
+  applyWindow();
+
+  const paint = (fill: boolean) => {
+    if (fill && s.brush.color) {
+      ctx.fillStyle = s.brush.color;
+      ctx.fill(s.polyFillMode === WINDING ? 'nonzero' : 'evenodd');
+    }
+    if (s.pen.color) {
+      const { a, d } = ctx.getTransform();
+      ctx.strokeStyle = s.pen.color;
+      ctx.lineWidth = s.pen.width > 0 ? s.pen.width : 1 / Math.max(Math.abs(a), Math.abs(d), 1e-6);
+      ctx.stroke();
+    }
+  };
+
+  forEachRecord(data, header.recordsStart, (fn, p) => {
+    const i16 = (index: number) => p.getInt16(index * 2, true);
+    const u16 = (index: number) => p.getUint16(index * 2, true);
+    const color = (byteOffset: number) =>
+      `rgb(${p.getUint8(byteOffset)},${p.getUint8(byteOffset + 1)},${p.getUint8(byteOffset + 2)})`;
+    const points = (count: number, firstWord: number) => {
+      for (let n = 0; n < count; n++) {
+        const x = i16(firstWord + n * 2);
+        const y = i16(firstWord + n * 2 + 1);
+        if (n === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+    };
+
+    try {
+      switch (fn) {
+        case META.SAVEDC:
+          saved.push({ ...s });
+          ctx.save();
+          break;
+        case META.RESTOREDC: {
+          // Negative: relative to the current state; positive: an absolute save level
+          const level = i16(0);
+          const pops = level < 0 ? -level : saved.length - level + 1;
+          for (let n = 0; n < pops && saved.length > 0; n++) {
+            s = saved.pop()!;
+            ctx.restore();
+          }
+          applyWindow();
+          break;
+        }
+        case META.SETBKCOLOR:
+          s.bkColor = color(0);
+          break;
+        case META.SETBKMODE:
+          s.bkMode = u16(0);
+          break;
+        case META.SETPOLYFILLMODE:
+          s.polyFillMode = u16(0);
+          break;
+        case META.SETTEXTCOLOR:
+          s.textColor = color(0);
+          break;
+        case META.SETTEXTALIGN:
+          s.textAlign = u16(0);
+          break;
+        case META.SETWINDOWORG:
+          s.windowOrg = [i16(1), i16(0)];
+          applyWindow();
+          break;
+        case META.SETWINDOWEXT:
+          s.windowExt = [i16(1), i16(0)];
+          applyWindow();
+          break;
+        case META.CREATEPENINDIRECT:
+          addObject(objects, {
+            kind: 'pen',
+            color: (u16(0) & 0x0f) === PS_NULL ? null : color(6),
+            width: Math.abs(i16(1)),
+          });
+          break;
+        case META.CREATEBRUSHINDIRECT: {
+          // Hatched brushes are drawn solid in their foreground color
+          const style = u16(0);
+          addObject(objects, { kind: 'brush', color: style === BS_SOLID || style === BS_HATCHED ? color(2) : null });
+          break;
+        }
+        case META.CREATEFONTINDIRECT: {
+          const faceBytes = new Uint8Array(p.buffer, p.byteOffset + 18, Math.max(0, Math.min(32, p.byteLength - 18)));
+          addObject(objects, {
+            kind: 'font',
+            height: i16(0),
+            escapement: i16(2),
+            weight: i16(4) || 400,
+            italic: p.getUint8(10) !== 0,
+            charset: p.getUint8(13),
+            face: decodeText(faceBytes, 'windows-1252'),
+          });
+          break;
+        }
+        case META.DIBCREATEPATTERNBRUSH:
+        case META.CREATEPATTERNBRUSH:
+          addObject(objects, { kind: 'brush', color: null });
+          break;
+        case META.CREATEPALETTE:
+        case META.CREATEREGION:
+          addObject(objects, { kind: 'other' });
+          break;
+        case META.SELECTOBJECT: {
+          const object = objects[u16(0)];
+          if (object?.kind === 'pen') s.pen = object;
+          else if (object?.kind === 'brush') s.brush = object;
+          else if (object?.kind === 'font') s.font = object;
+          break;
+        }
+        case META.DELETEOBJECT:
+          if (u16(0) < objects.length) objects[u16(0)] = null;
+          break;
+        case META.MOVETO:
+          s.position = [i16(1), i16(0)];
+          break;
+        case META.LINETO: {
+          const to: [number, number] = [i16(1), i16(0)];
+          ctx.beginPath();
+          ctx.moveTo(...s.position);
+          ctx.lineTo(...to);
+          paint(false);
+          s.position = to;
+          break;
+        }
+        case META.POLYGON:
+        case META.POLYLINE:
+          ctx.beginPath();
+          points(i16(0), 1);
+          if (fn === META.POLYGON) ctx.closePath();
+          paint(fn === META.POLYGON);
+          break;
+        case META.POLYPOLYGON: {
+          const polygons = u16(0);
+          let word = 1 + polygons;
+          ctx.beginPath();
+          for (let n = 0; n < polygons; n++) {
+            const count = u16(1 + n);
+            points(count, word);
+            ctx.closePath();
+            word += count * 2;
+          }
+          paint(true);
+          break;
+        }
+        case META.RECTANGLE:
+        case META.ELLIPSE:
+        case META.ROUNDRECT: {
+          // Parameters are stored last to first: (corner size,) bottom, right, top, left
+          const first = fn === META.ROUNDRECT ? 2 : 0;
+          const [b, r, t, l] = [i16(first), i16(first + 1), i16(first + 2), i16(first + 3)];
+          ctx.beginPath();
+          if (fn === META.ELLIPSE) {
+            ctx.ellipse((l + r) / 2, (t + b) / 2, Math.abs(r - l) / 2, Math.abs(b - t) / 2, 0, 0, Math.PI * 2);
+          } else if (fn === META.ROUNDRECT) {
+            ctx.roundRect(l, t, r - l, b - t, [{ x: Math.abs(i16(1)) / 2, y: Math.abs(i16(0)) / 2 }]);
+          } else {
+            ctx.rect(l, t, r - l, b - t);
+          }
+          paint(true);
+          break;
+        }
+        case META.INTERSECTCLIPRECT: {
+          const [b, r, t, l] = [i16(0), i16(1), i16(2), i16(3)];
+          ctx.beginPath();
+          ctx.rect(l, t, r - l, b - t);
+          ctx.clip();
+          break;
+        }
+        case META.TEXTOUT: {
+          const length = u16(0);
+          const bytes = new Uint8Array(p.buffer, p.byteOffset + 2, Math.min(length, p.byteLength - 2));
+          const word = 1 + ((length + 1) >> 1);
+          drawText(ctx, s, bytes, i16(word + 1), i16(word), null, ansiEncoding);
+          break;
+        }
+        case META.EXTTEXTOUT: {
+          const length = u16(2);
+          const options = u16(3);
+          let offset = 8;
+          let rect: [number, number, number, number] | null = null;
+          if (options & (ETO_OPAQUE | ETO_CLIPPED)) {
+            rect = [i16(4), i16(5), i16(6), i16(7)];
+            offset += 8;
+          }
+          const bytes = new Uint8Array(p.buffer, p.byteOffset + offset, Math.min(length, p.byteLength - offset));
+          ctx.save();
+          if (rect) {
+            const [l, t, r, b] = rect;
+            ctx.beginPath();
+            ctx.rect(l, t, r - l, b - t);
+            if (options & ETO_OPAQUE) {
+              ctx.fillStyle = s.bkColor;
+              ctx.fill();
+            }
+            if (options & ETO_CLIPPED) ctx.clip();
+          }
+          drawText(ctx, s, bytes, i16(1), i16(0), rect && options & ETO_OPAQUE ? null : s.bkColor, ansiEncoding);
+          ctx.restore();
+          break;
+        }
+        case META.DIBBITBLT:
+        case META.DIBSTRETCHBLT: {
+          const stretch = fn === META.DIBSTRETCHBLT;
+          const rop = p.getUint32(0, true);
+          // The record has one word fewer and no bitmap when it only fills with the brush
+          const withBitmap = p.byteLength > (stretch ? 22 : 18);
+          const w = withBitmap ? 0 : 1;
+          const src = stretch
+            ? { x: i16(5 + w), y: i16(4 + w), w: i16(3 + w), h: i16(2 + w) }
+            : { x: i16(3 + w), y: i16(2 + w), w: i16(5 + w), h: i16(4 + w) };
+          const dest = stretch
+            ? { x: i16(9 + w), y: i16(8 + w), w: i16(7 + w), h: i16(6 + w) }
+            : { x: i16(7 + w), y: i16(6 + w), w: src.w, h: src.h };
+          const dib = withBitmap ? decodeDib(recordTail(p, stretch ? 20 : 16), 0) : null;
+          blit(ctx, s, dib, src, dest, rop, false);
+          break;
+        }
+        case META.STRETCHDIB: {
+          const dib = decodeDib(recordTail(p, 22), u16(2));
+          const src = { x: i16(6), y: i16(5), w: i16(4), h: i16(3) };
+          const dest = { x: i16(10), y: i16(9), w: i16(8), h: i16(7) };
+          blit(ctx, s, dib, src, dest, p.getUint32(0, true), true);
+          break;
+        }
+        case META.SETDIBTODEV: {
+          const dib = decodeDib(recordTail(p, 18), u16(0));
+          const size = { w: i16(6), h: i16(5) };
+          blit(ctx, s, dib, { x: i16(4), y: i16(3), ...size }, { x: i16(8), y: i16(7), ...size }, SRCCOPY, true);
+          break;
+        }
+      }
+    } catch (err) {
+      // Bitmaps that cannot be decoded fail the whole icon; a record cut short just ends playback
+      if (err instanceof RangeError) return false;
+      throw err;
+    }
+    return true;
+  });
+  return ctx;
+}
+
+/** Put an object in the lowest free slot of the object table, as GDI does */
+function addObject(objects: (WmfObject | null)[], object: WmfObject): void {
+  const free = objects.indexOf(null);
+  if (free === -1) objects.push(object);
+  else objects[free] = object;
+}
+
+function drawText(
+  ctx: Context,
+  s: DcState,
+  bytes: Uint8Array,
+  x: number,
+  y: number,
+  background: string | null,
+  ansiEncoding: string,
+): void {
+  const text = decodeText(bytes, CHARSET_ENCODINGS[s.font.charset] ?? ansiEncoding);
+  if (!text) return;
+  if (s.textAlign & TA_UPDATECP) [x, y] = s.position;
+
+  // Negative heights are the character height, positive ones the cell height including internal leading
+  const size = s.font.height === 0 ? 12 : s.font.height < 0 ? -s.font.height : s.font.height * 0.8;
+  const family = s.font.face ? `"${s.font.face.replace(/"/g, '')}", sans-serif` : 'sans-serif';
+  ctx.font = `${s.font.italic ? 'italic ' : ''}${s.font.weight} ${size}px ${family}`;
+  const align = s.textAlign & TA_CENTER;
+  ctx.textAlign = align === TA_CENTER ? 'center' : align === TA_RIGHT ? 'right' : 'left';
+  const vertical = s.textAlign & TA_BASELINE;
+  ctx.textBaseline = vertical === TA_BASELINE ? 'alphabetic' : vertical === TA_BOTTOM ? 'bottom' : 'top';
+
+  ctx.save();
+  ctx.translate(x, y);
+  if (s.font.escapement) ctx.rotate((-s.font.escapement / 10) * (Math.PI / 180));
+  const width = ctx.measureText(text).width;
+  if (background && s.bkMode === BK_OPAQUE) {
+    const left = ctx.textAlign === 'center' ? -width / 2 : ctx.textAlign === 'right' ? -width : 0;
+    const top = ctx.textBaseline === 'top' ? 0 : ctx.textBaseline === 'bottom' ? -size : -size * 0.8;
+    ctx.fillStyle = background;
+    ctx.fillRect(left, top, width, size);
+  }
+  ctx.fillStyle = s.textColor;
+  ctx.fillText(text, 0, 0);
+  ctx.restore();
+  if (s.textAlign & TA_UPDATECP) s.position = [x + width, y];
+}
+
+function decodeText(bytes: Uint8Array, encoding: string): string {
+  let end = bytes.indexOf(0);
+  if (end === -1) end = bytes.length;
+  try {
+    return new TextDecoder(encoding).decode(bytes.subarray(0, end));
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes.subarray(0, end));
+  }
+}
+
+/**
+ * Combine a bitmap (or, without one, just the brush) with the canvas using a ternary raster
+ * operation. Canvas compositing has no bitwise modes, so the pixels are combined here; clipping
+ * does not apply. bottomUpSource: source y counts from the bottom, as in StretchDIBits.
+ */
+function blit(
+  ctx: Context,
+  s: DcState,
+  dib: Dib | null,
+  src: { x: number; y: number; w: number; h: number },
+  dest: { x: number; y: number; w: number; h: number },
+  rop: number,
+  bottomUpSource: boolean,
+): void {
+  // Destination rectangle in device pixels
+  const m = ctx.getTransform();
+  const x0 = m.a * dest.x + m.e;
+  const y0 = m.d * dest.y + m.f;
+  const x1 = m.a * (dest.x + dest.w) + m.e;
+  const y1 = m.d * (dest.y + dest.h) + m.f;
+  const left = Math.max(0, Math.round(Math.min(x0, x1)));
+  const top = Math.max(0, Math.round(Math.min(y0, y1)));
+  const right = Math.min(ctx.canvas.width, Math.round(Math.max(x0, x1)));
+  const bottom = Math.min(ctx.canvas.height, Math.round(Math.max(y0, y1)));
+  if (right <= left || bottom <= top) return;
+  const w = right - left;
+  const h = bottom - top;
+
+  let source: Uint8ClampedArray | null = null;
+  if (dib) {
+    // Scale the source rectangle to the destination with nearest-neighbour sampling
+    const sw = Math.abs(src.w) || dib.width;
+    const sh = Math.abs(src.h) || dib.height;
+    const sy = bottomUpSource ? dib.height - src.y - sh : src.y;
+    const flipX = x1 < x0 !== src.w < 0;
+    const flipY = y1 < y0 !== src.h < 0;
+    source = new Uint8ClampedArray(w * h * 4);
+    for (let row = 0; row < h; row++) {
+      const v = Math.floor(((flipY ? h - 1 - row : row) + 0.5) * (sh / h));
+      const py = Math.min(dib.height - 1, Math.max(0, sy + v));
+      for (let col = 0; col < w; col++) {
+        const u = Math.floor(((flipX ? w - 1 - col : col) + 0.5) * (sw / w));
+        const px = Math.min(dib.width - 1, Math.max(0, src.x + u));
+        const from = (py * dib.width + px) * 4;
+        const to = (row * w + col) * 4;
+        source[to] = dib.pixels[from];
+        source[to + 1] = dib.pixels[from + 1];
+        source[to + 2] = dib.pixels[from + 2];
+      }
+    }
+  }
+
+  const pattern = parseColor(s.brush.color ?? 'rgb(255,255,255)');
+  const target = ctx.getImageData(left, top, w, h);
+  const d = target.data;
+  const table = (rop >>> 16) & 0xff;
+  for (let i = 0; i < d.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      d[i + c] = ternaryRop(table, pattern[c], source ? source[i + c] : 0, d[i + c]);
+    }
+    d[i + 3] = 255;
+  }
+  ctx.putImageData(target, left, top);
+}
+
+/**
+ * Apply a ternary raster operation to one 8-bit channel. The operation index is a truth table:
+ * bit (P << 2 | S << 1 | D) of it is the result for those pattern, source and destination bits.
+ */
+function ternaryRop(table: number, p: number, s: number, d: number): number {
+  let result = 0;
+  for (let bits = 0; bits < 8; bits++) {
+    if (!((table >> bits) & 1)) continue;
+    const mp = bits & 4 ? p : ~p;
+    const ms = bits & 2 ? s : ~s;
+    const md = bits & 1 ? d : ~d;
+    result |= mp & ms & md;
+  }
+  return result & 0xff;
+}
+
+/** Channels of an rgb(r,g,b) string made by this module */
+function parseColor(color: string): [number, number, number] {
+  const [r, g, b] = color.slice(4, -1).split(',').map(Number);
+  return [r, g, b];
+}
+
+/** The parameters of a record from `offset` on, ending with the record; empty when the record is shorter */
+function recordTail(params: DataView, offset: number): DataView {
+  const start = Math.min(offset, params.byteLength);
+  return new DataView(params.buffer, params.byteOffset + start, params.byteLength - start);
+}
+
+/**
+ * Decode a packed DIB (BITMAPINFOHEADER or BITMAPCOREHEADER, color table, bits) into RGBA.
+ * Supports uncompressed 1, 4, 8, 16, 24 and 32-bit bitmaps and BI_BITFIELDS masks; throws otherwise.
+ */
+function decodeDib(view: DataView, colorUsage: number): Dib {
+  if (colorUsage === DIB_PAL_COLORS) throw new Error('Palette-indexed DIB colors are not supported');
+  const headerSize = view.getUint32(0, true);
+  const core = headerSize === 12;
+  const width = core ? view.getUint16(4, true) : view.getInt32(4, true);
+  const rawHeight = core ? view.getInt16(6, true) : view.getInt32(8, true);
+  const bitCount = core ? view.getUint16(10, true) : view.getUint16(14, true);
+  const compression = core ? 0 : view.getUint32(16, true);
+  const colorsUsed = core ? 0 : view.getUint32(32, true);
+  const height = Math.abs(rawHeight);
+  if (width <= 0 || height === 0 || width * height > 4096 * 4096) throw new Error('Invalid DIB size');
+  if (compression !== 0 && compression !== 3) throw new Error(`Unsupported DIB compression ${compression}`);
+
+  let pos = headerSize;
+  let masks: [number, number, number] | null = null;
+  if (compression === 3) {
+    masks = [view.getUint32(pos, true), view.getUint32(pos + 4, true), view.getUint32(pos + 8, true)];
+    pos += headerSize === 40 ? 12 : 0;
+  } else if (bitCount === 16) {
+    masks = [0x7c00, 0x03e0, 0x001f];
+  } else if (bitCount === 32) {
+    masks = [0xff0000, 0xff00, 0xff];
+  }
+
+  const palette: [number, number, number][] = [];
+  if (bitCount <= 8) {
+    const entrySize = core ? 3 : 4;
+    const count = colorsUsed || 1 << bitCount;
+    for (let n = 0; n < count; n++) {
+      palette.push([view.getUint8(pos + 2), view.getUint8(pos + 1), view.getUint8(pos)]);
+      pos += entrySize;
+    }
+  } else if (bitCount !== 16 && bitCount !== 24 && bitCount !== 32) {
+    throw new Error(`Unsupported DIB bit depth ${bitCount}`);
+  }
+
+  const stride = (((width * bitCount + 31) >>> 5) << 2);
+  if (pos + stride * height > view.byteLength) throw new Error('DIB bits are truncated');
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const channel = (value: number, mask: number) => {
+    if (!mask) return 0;
+    const shift = Math.clz32(mask & -mask) ^ 31;
+    const max = mask >>> shift;
+    return Math.round((((value & mask) >>> shift) * 255) / max);
+  };
+
+  for (let row = 0; row < height; row++) {
+    // Positive heights are stored bottom-up
+    const line = pos + (rawHeight > 0 ? height - 1 - row : row) * stride;
+    for (let col = 0; col < width; col++) {
+      const to = (row * width + col) * 4;
+      let rgb: [number, number, number];
+      if (bitCount <= 8) {
+        const bitOffset = col * bitCount;
+        const byte = view.getUint8(line + (bitOffset >> 3));
+        const index = (byte >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1);
+        rgb = palette[index] ?? [0, 0, 0];
+      } else if (bitCount === 24) {
+        const at = line + col * 3;
+        rgb = [view.getUint8(at + 2), view.getUint8(at + 1), view.getUint8(at)];
+      } else {
+        const value = bitCount === 16 ? view.getUint16(line + col * 2, true) : view.getUint32(line + col * 4, true);
+        rgb = [channel(value, masks![0]), channel(value, masks![1]), channel(value, masks![2])];
+      }
+      pixels[to] = rgb[0];
+      pixels[to + 1] = rgb[1];
+      pixels[to + 2] = rgb[2];
+      pixels[to + 3] = 255;
+    }
+  }
+  return { width, height, pixels };
+}
+
+function createContext(width: number, height: number): Context {
+  const canvas: Canvas =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height)
+      : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as Context | null;
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return ctx;
+}
+
+function toPng(canvas: Canvas): Promise<Blob> {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
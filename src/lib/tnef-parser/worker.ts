@@ -0,0 +1,29 @@
+/**
+ * Web Worker entry point for parseTnefAsync: parses the posted file and sends back
+ * progress updates, then the result or the error.
+ */
+import { parseTnef } from './index';
+import { TnefParseError } from './diagnostics';
+import type { TnefWorkerRequest, TnefWorkerResponse } from './async';
+
+function respond(response: TnefWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<TnefWorkerRequest>) => {
+  const { data, options, reportProgress } = event.data;
+  try {
+    const result = parseTnef(data, {
+      ...options,
+      onProgress: reportProgress ? (progress) => respond({ type: 'progress', progress }) : undefined,
+    });
+    // Attachment data are views into the posted buffer, so handing it over moves them without copying
+    respond({ type: 'result', result }, [data.buffer as ArrayBuffer]);
+  } catch (err) {
+    respond({
+      type: 'error',
+      message: err instanceof Error ? err.message : String(err),
+      warning: err instanceof TnefParseError ? err.warning : null,
+    });
+  }
+};